@@ -0,0 +1,38 @@
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// Per-instance memory cache; warm serverless instances reuse it across requests.
+// The oldest entry is evicted once `maxEntries` is reached.
+export class TtlCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: T, ttlMs: number): void {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.entries.delete(oldestKey);
+      }
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+}
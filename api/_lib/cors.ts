@@ -0,0 +1,13 @@
+import type { VercelResponse } from '@vercel/node';
+
+export const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export function applyCors(response: VercelResponse): void {
+  Object.entries(CORS_HEADERS).forEach(([key, value]) => {
+    response.setHeader(key, value);
+  });
+}
@@ -0,0 +1,138 @@
+import { FIXTURE_INSTRUMENTS } from './fixtures.js';
+import type { FixtureInstrument } from './fixtures.js';
+import type { BatchQuotes, HistoryInterval, MarketDataProvider, PriceBar, PriceHistory, Quote, SearchMatch } from './marketData.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const SESSION_OPEN_MINUTES = 9 * 60 + 15;
+const SESSION_CLOSE_MINUTES = 15 * 60 + 30;
+const SESSION_LENGTH_MINUTES = SESSION_CLOSE_MINUTES - SESSION_OPEN_MINUTES;
+const INTERVAL_MINUTES: Record<Exclude<HistoryInterval, '1d'>, number> = {
+  '1h': 60,
+  '15m': 15,
+  '5m': 5,
+};
+const SEARCH_LIMIT = 10;
+
+function roundTo2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+// FNV-1a, scaled to [0, 1), so the same bar always gets the same noise.
+function hashUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+function findInstrument(symbol: string, raw: boolean): FixtureInstrument | undefined {
+  const cleaned = symbol.trim().toUpperCase();
+  const exact = FIXTURE_INSTRUMENTS.find((instrument) => instrument.providerSymbol === cleaned);
+  if (exact || raw) {
+    return exact;
+  }
+  const base = cleaned.endsWith('.NS') || cleaned.endsWith('.BO') ? cleaned.slice(0, -3) : cleaned;
+  return FIXTURE_INSTRUMENTS.find((instrument) => instrument.symbol === base);
+}
+
+// A smooth wave over days plus a faster intraday wave, measured in days since the epoch.
+function levelAt(instrument: FixtureInstrument, day: number): number {
+  const wave = 0.06 * Math.sin(day / 23) + 0.025 * Math.sin(day / 4.7) + 0.01 * Math.sin(day * 3.1);
+  return instrument.price * (1 + wave);
+}
+
+function toBar(instrument: FixtureInstrument, date: string, time: string | undefined, start: number, length: number): PriceBar {
+  const seed = `${instrument.providerSymbol}|${date}|${time ?? ''}`;
+  const open = levelAt(instrument, start);
+  const close = levelAt(instrument, start + length);
+  return {
+    date,
+    time,
+    open: roundTo2(open),
+    high: roundTo2(Math.max(open, close) * (1 + 0.004 * hashUnit(`${seed}|high`))),
+    low: roundTo2(Math.min(open, close) * (1 - 0.004 * hashUnit(`${seed}|low`))),
+    close: roundTo2(close),
+    volume: 10000 + Math.floor(hashUnit(`${seed}|volume`) * 90000),
+  };
+}
+
+function weekdaysBetween(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let ms = Date.parse(`${from}T00:00:00Z`); ms <= Date.parse(`${to}T00:00:00Z`); ms += MS_PER_DAY) {
+    const day = new Date(ms).getUTCDay();
+    if (day !== 0 && day !== 6) {
+      dates.push(new Date(ms).toISOString().slice(0, 10));
+    }
+  }
+  return dates;
+}
+
+function toTimeOfDay(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// Deterministic data for offline development; no network calls, and unknown symbols behave as not found.
+export class FixtureMarketDataProvider implements MarketDataProvider {
+  readonly name = 'Fixture';
+
+  async getQuote(symbol: string, raw = false): Promise<Quote | null> {
+    const instrument = findInstrument(symbol, raw);
+    return instrument
+      ? { providerSymbol: instrument.providerSymbol, price: instrument.price, exchange: instrument.exchange }
+      : null;
+  }
+
+  async getQuotes(symbols: string[]): Promise<BatchQuotes> {
+    const prices: Record<string, number> = {};
+    const exchanges: Record<string, string> = {};
+    const failed: string[] = [];
+    symbols.forEach((symbol) => {
+      const instrument = findInstrument(symbol, false);
+      if (instrument) {
+        prices[symbol] = instrument.price;
+        exchanges[symbol] = instrument.exchange;
+      } else {
+        failed.push(symbol);
+      }
+    });
+    return { prices, exchanges, failed };
+  }
+
+  async search(query: string): Promise<SearchMatch[] | null> {
+    const cleaned = query.trim().toUpperCase();
+    return FIXTURE_INSTRUMENTS.filter(
+      (instrument) => instrument.symbol.startsWith(cleaned) || instrument.name.toUpperCase().includes(cleaned)
+    )
+      .slice(0, SEARCH_LIMIT)
+      .map((instrument) => ({
+        providerSymbol: instrument.providerSymbol,
+        name: instrument.name,
+        exchange: instrument.exchange,
+      }));
+  }
+
+  async getHistory(symbol: string, from: string, to: string, interval: HistoryInterval): Promise<PriceHistory | null> {
+    const instrument = findInstrument(symbol, false);
+    if (!instrument) {
+      return null;
+    }
+
+    const bars = weekdaysBetween(from, to).flatMap((date) => {
+      const day = Math.floor(Date.parse(`${date}T00:00:00Z`) / MS_PER_DAY);
+      if (interval === '1d') {
+        return [toBar(instrument, date, undefined, day, 1)];
+      }
+      const step = INTERVAL_MINUTES[interval];
+      const dayBars: PriceBar[] = [];
+      for (let minutes = SESSION_OPEN_MINUTES; minutes < SESSION_CLOSE_MINUTES; minutes += step) {
+        const offset = (minutes - SESSION_OPEN_MINUTES) / SESSION_LENGTH_MINUTES;
+        const length = Math.min(step, SESSION_CLOSE_MINUTES - minutes) / SESSION_LENGTH_MINUTES;
+        dayBars.push(toBar(instrument, date, toTimeOfDay(minutes), day + offset, length));
+      }
+      return dayBars;
+    });
+    return { providerSymbol: instrument.providerSymbol, bars };
+  }
+}
@@ -0,0 +1,25 @@
+export interface FixtureInstrument {
+  symbol: string;
+  providerSymbol: string;
+  name: string;
+  exchange: string;
+  price: number;
+}
+
+// Reference prices for offline development; history is generated around these deterministically.
+export const FIXTURE_INSTRUMENTS: FixtureInstrument[] = [
+  { symbol: 'RELIANCE', providerSymbol: 'RELIANCE.NS', name: 'Reliance Industries Limited', exchange: 'NSE', price: 2948.35 },
+  { symbol: 'TCS', providerSymbol: 'TCS.NS', name: 'Tata Consultancy Services Limited', exchange: 'NSE', price: 4012.6 },
+  { symbol: 'HDFCBANK', providerSymbol: 'HDFCBANK.NS', name: 'HDFC Bank Limited', exchange: 'NSE', price: 1678.9 },
+  { symbol: 'INFY', providerSymbol: 'INFY.NS', name: 'Infosys Limited', exchange: 'NSE', price: 1864.25 },
+  { symbol: 'ICICIBANK', providerSymbol: 'ICICIBANK.NS', name: 'ICICI Bank Limited', exchange: 'NSE', price: 1245.5 },
+  { symbol: 'SBIN', providerSymbol: 'SBIN.NS', name: 'State Bank of India', exchange: 'NSE', price: 812.4 },
+  { symbol: 'ITC', providerSymbol: 'ITC.NS', name: 'ITC Limited', exchange: 'NSE', price: 468.15 },
+  { symbol: 'TATAMOTORS', providerSymbol: 'TATAMOTORS.NS', name: 'Tata Motors Limited', exchange: 'NSE', price: 982.7 },
+  { symbol: 'TATASTEEL', providerSymbol: 'TATASTEEL.NS', name: 'Tata Steel Limited', exchange: 'NSE', price: 152.3 },
+  { symbol: 'IRCTC', providerSymbol: 'IRCTC.BO', name: 'Indian Railway Catering and Tourism Corporation', exchange: 'BSE', price: 874.05 },
+  { symbol: 'NIFTY', providerSymbol: '^NSEI', name: 'NIFTY 50', exchange: 'NSE', price: 24850.6 },
+  { symbol: 'BANKNIFTY', providerSymbol: '^NSEBANK', name: 'NIFTY BANK', exchange: 'NSE', price: 52340.15 },
+  { symbol: 'FINNIFTY', providerSymbol: 'NIFTY_FIN_SERVICE.NS', name: 'NIFTY FIN SERVICE', exchange: 'NSE', price: 23815.4 },
+  { symbol: 'AAPL', providerSymbol: 'AAPL', name: 'Apple Inc.', exchange: 'NASDAQ', price: 228.52 },
+];
@@ -0,0 +1,14 @@
+// Index underlyings that derivatives are written on, mapped to their Yahoo symbols.
+// They have no NSE/BSE listing, so suffix resolution would never find them.
+export const NSE_INDEX_SYMBOLS: Record<string, string> = {
+  NIFTY: '^NSEI',
+  BANKNIFTY: '^NSEBANK',
+  FINNIFTY: 'NIFTY_FIN_SERVICE.NS',
+  MIDCPNIFTY: 'NIFTY_MID_SELECT.NS',
+};
+
+export const INDEX_SYMBOLS: Record<string, string> = {
+  ...NSE_INDEX_SYMBOLS,
+  SENSEX: '^BSESN',
+  BANKEX: 'BSE-BANK.BO',
+};
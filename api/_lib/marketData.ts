@@ -0,0 +1,61 @@
+import { FixtureMarketDataProvider } from './fixtureProvider.js';
+import { YahooMarketDataProvider } from './yahoo.js';
+
+export type HistoryInterval = '1d' | '1h' | '15m' | '5m';
+
+export interface PriceBar {
+  date: string;
+  time?: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// `exchange` is the listing exchange as the provider names it (e.g. NSI, NMS), when it reports one.
+export interface Quote {
+  providerSymbol: string;
+  price: number;
+  exchange?: string;
+}
+
+export interface BatchQuotes {
+  prices: Record<string, number>;
+  exchanges: Record<string, string>;
+  failed: string[];
+}
+
+export interface SearchMatch {
+  providerSymbol: string;
+  name: string;
+  exchange: string;
+}
+
+export interface PriceHistory {
+  providerSymbol: string;
+  bars: PriceBar[];
+}
+
+// `raw` skips exchange suffix resolution and looks the symbol up exactly as given.
+// Lookups resolve to null when the symbol is unknown or the upstream request fails.
+// Batch quotes still unresolved after `budgetMs` are returned as failed alongside the prices found so far.
+export interface MarketDataProvider {
+  readonly name: string;
+  getQuote(symbol: string, raw?: boolean): Promise<Quote | null>;
+  getQuotes(symbols: string[], budgetMs?: number): Promise<BatchQuotes>;
+  search(query: string): Promise<SearchMatch[] | null>;
+  getHistory(symbol: string, from: string, to: string, interval: HistoryInterval): Promise<PriceHistory | null>;
+}
+
+let provider: MarketDataProvider | null = null;
+
+// MARKET_DATA_PROVIDER=fixture serves deterministic offline data; anything else uses Yahoo Finance.
+export function getMarketDataProvider(): MarketDataProvider {
+  if (!provider) {
+    provider = process.env.MARKET_DATA_PROVIDER?.trim().toLowerCase() === 'fixture'
+      ? new FixtureMarketDataProvider()
+      : new YahooMarketDataProvider();
+  }
+  return provider;
+}
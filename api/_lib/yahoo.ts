@@ -0,0 +1,285 @@
+import { TtlCache } from './cache.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { INDEX_SYMBOLS } from './indices.js';
+import type { BatchQuotes, HistoryInterval, MarketDataProvider, PriceBar, PriceHistory, Quote, SearchMatch } from './marketData.js';
+
+interface YahooChartResult {
+  timestamp?: number[];
+  meta?: { gmtoffset?: number; regularMarketPrice?: number; exchangeName?: string };
+  indicators?: {
+    quote?: Array<{
+      open?: Array<number | null>;
+      high?: Array<number | null>;
+      low?: Array<number | null>;
+      close?: Array<number | null>;
+      volume?: Array<number | null>;
+    }>;
+  };
+}
+
+interface YahooPrice {
+  price: number;
+  exchange?: string;
+}
+
+const YAHOO_HEADERS: Record<string, string> = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+  Accept: 'application/json',
+  'Accept-Language': 'en-US,en;q=0.9',
+};
+
+const CHART_URL = 'https://query1.finance.yahoo.com/v8/finance/chart';
+const QUOTE_URL = 'https://query1.finance.yahoo.com/v7/finance/quote';
+const SEARCH_URL = 'https://query1.finance.yahoo.com/v1/finance/search';
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const QUOTE_CHUNK_SIZE = 50;
+const QUOTE_CONCURRENCY = 4;
+const RESOLUTION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Which exchange suffix a bare symbol resolved to, so later lookups skip the fallback chain.
+const resolvedSymbols = new TtlCache<string>(2000);
+
+function normalize(rawSymbol: string): string {
+  const normalized = rawSymbol.trim().toUpperCase();
+  if (normalized.includes('.')) {
+    return normalized;
+  }
+  return `${normalized}.NS`;
+}
+
+// Index underlyings map straight to their Yahoo symbol. Other bare symbols are tried on NSE first,
+// then BSE, then as given (US tickers). A previously resolved suffix is tried before the rest.
+function symbolCandidates(symbol: string, raw = false): string[] {
+  const cleaned = symbol.trim().toUpperCase();
+  if (!cleaned) {
+    return [];
+  }
+  if (raw || cleaned.includes('.')) {
+    return [cleaned];
+  }
+  const index = INDEX_SYMBOLS[cleaned];
+  if (index) {
+    return [index];
+  }
+  const candidates = [normalize(cleaned), `${cleaned}.BO`, cleaned];
+  const remembered = resolvedSymbols.get(cleaned);
+  return remembered ? [remembered, ...candidates.filter((candidate) => candidate !== remembered)] : candidates;
+}
+
+function rememberResolution(symbol: string, yahooSymbol: string): void {
+  const cleaned = symbol.trim().toUpperCase();
+  if (cleaned !== yahooSymbol) {
+    resolvedSymbols.set(cleaned, yahooSymbol, RESOLUTION_TTL_MS);
+  }
+}
+
+// `tried` skips candidates the caller already checked, e.g. through the batch quote endpoint.
+async function resolveWithFallback<T>(
+  symbol: string,
+  fetchCandidate: (yahooSymbol: string) => Promise<T | null>,
+  raw = false,
+  tried: string[] = []
+): Promise<{ yahooSymbol: string; value: T | null }> {
+  const candidates = symbolCandidates(symbol, raw);
+  for (const candidate of candidates.filter((item) => !tried.includes(item))) {
+    const value = await fetchCandidate(candidate);
+    if (value != null) {
+      if (!raw) {
+        rememberResolution(symbol, candidate);
+      }
+      return { yahooSymbol: candidate, value };
+    }
+  }
+  return { yahooSymbol: candidates[0] ?? symbol.trim().toUpperCase(), value: null };
+}
+
+function toUnixSeconds(isoDate: string): number {
+  return Math.floor(Date.parse(`${isoDate}T00:00:00Z`) / 1000);
+}
+
+// Bars are keyed by the exchange-local trading date and time, not the UTC timestamp.
+function toBars(result: YahooChartResult, interval: HistoryInterval): PriceBar[] {
+  const timestamps = result.timestamp ?? [];
+  const quote = result.indicators?.quote?.[0];
+  const offsetSeconds = result.meta?.gmtoffset ?? 0;
+  if (!quote) {
+    return [];
+  }
+
+  return timestamps.flatMap((timestamp, index) => {
+    const open = quote.open?.[index];
+    const high = quote.high?.[index];
+    const low = quote.low?.[index];
+    const close = quote.close?.[index];
+    if (open == null || high == null || low == null || close == null) {
+      return [];
+    }
+    const local = new Date((timestamp + offsetSeconds) * 1000).toISOString();
+    return [
+      {
+        date: local.slice(0, 10),
+        time: interval === '1d' ? undefined : local.slice(11, 16),
+        open,
+        high,
+        low,
+        close,
+        volume: quote.volume?.[index] ?? 0,
+      },
+    ];
+  });
+}
+
+async function fetchChart(yahooSymbol: string, query: string, signal?: AbortSignal): Promise<YahooChartResult | null> {
+  try {
+    const response = await fetch(`${CHART_URL}/${encodeURIComponent(yahooSymbol)}?${query}`, { headers: YAHOO_HEADERS, signal });
+    if (!response.ok) {
+      return null;
+    }
+    const data = (await response.json()) as { chart?: { result?: YahooChartResult[] } };
+    return data?.chart?.result?.[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function toPrice(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+async function fetchYahooPrice(yahooSymbol: string, signal?: AbortSignal): Promise<YahooPrice | null> {
+  const meta = (await fetchChart(yahooSymbol, 'interval=1d&range=1d', signal))?.meta;
+  const price = toPrice(meta?.regularMarketPrice);
+  return price == null ? null : { price, exchange: meta?.exchangeName };
+}
+
+// The multi-symbol quote endpoint is sometimes refused without a session cookie; null means it was unavailable,
+// as opposed to a map that is simply missing unknown symbols.
+async function fetchYahooQuotes(yahooSymbols: string[], signal?: AbortSignal): Promise<Map<string, YahooPrice> | null> {
+  try {
+    const url = `${QUOTE_URL}?symbols=${encodeURIComponent(yahooSymbols.join(','))}`;
+    const response = await fetch(url, { headers: YAHOO_HEADERS, signal });
+    if (!response.ok) {
+      return null;
+    }
+    const data = (await response.json()) as {
+      quoteResponse?: { result?: Array<{ symbol?: string; regularMarketPrice?: number; exchange?: string }> };
+    };
+    const result = data?.quoteResponse?.result;
+    if (!Array.isArray(result)) {
+      return null;
+    }
+    const prices = new Map<string, YahooPrice>();
+    result.forEach((item) => {
+      const price = toPrice(item.regularMarketPrice);
+      if (typeof item.symbol === 'string' && price != null) {
+        prices.set(item.symbol.toUpperCase(), { price, exchange: item.exchange });
+      }
+    });
+    return prices;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchYahooHistory(yahooSymbol: string, from: string, to: string, interval: HistoryInterval): Promise<PriceBar[] | null> {
+  const period1 = toUnixSeconds(from);
+  // period2 is exclusive, so the end date's bars need the following midnight.
+  const period2 = toUnixSeconds(to) + SECONDS_PER_DAY;
+  const result = await fetchChart(yahooSymbol, `interval=${interval}&period1=${period1}&period2=${period2}`);
+  return result ? toBars(result, interval).filter((bar) => bar.date >= from && bar.date <= to) : null;
+}
+
+export class YahooMarketDataProvider implements MarketDataProvider {
+  readonly name = 'Yahoo Finance';
+
+  async getQuote(symbol: string, raw = false): Promise<Quote | null> {
+    const { yahooSymbol, value } = await resolveWithFallback(symbol, fetchYahooPrice, raw);
+    return value == null ? null : { providerSymbol: yahooSymbol, price: value.price, exchange: value.exchange };
+  }
+
+  // Each symbol's first candidate goes through the multi-symbol endpoint; whatever it misses falls back to
+  // per-symbol chart lookups with a few in flight at once. Anything unresolved when the budget runs out is failed.
+  async getQuotes(symbols: string[], budgetMs?: number): Promise<BatchQuotes> {
+    const prices: Record<string, number> = {};
+    const exchanges: Record<string, string> = {};
+    const setQuote = (symbol: string, quote: YahooPrice) => {
+      prices[symbol] = quote.price;
+      if (quote.exchange) {
+        exchanges[symbol] = quote.exchange;
+      }
+    };
+    const controller = new AbortController();
+    const timer = budgetMs != null ? setTimeout(() => controller.abort(), budgetMs) : undefined;
+
+    try {
+      const primary = new Map(symbols.map((symbol) => [symbol, symbolCandidates(symbol)[0] ?? symbol]));
+      const primarySymbols = Array.from(new Set(primary.values()));
+      const chunks = Array.from({ length: Math.ceil(primarySymbols.length / QUOTE_CHUNK_SIZE) }, (_, index) =>
+        primarySymbols.slice(index * QUOTE_CHUNK_SIZE, (index + 1) * QUOTE_CHUNK_SIZE)
+      );
+      const batches = await Promise.all(chunks.map((chunk) => fetchYahooQuotes(chunk, controller.signal)));
+      const quoted = new Map<string, YahooPrice>();
+      batches.forEach((batch) => batch?.forEach((quote, yahooSymbol) => quoted.set(yahooSymbol, quote)));
+      const batchAnswered = batches.length > 0 && batches.every((batch) => batch != null);
+
+      const remaining: string[] = [];
+      symbols.forEach((symbol) => {
+        const yahooSymbol = primary.get(symbol) ?? symbol;
+        const quote = quoted.get(yahooSymbol);
+        if (quote == null) {
+          remaining.push(symbol);
+          return;
+        }
+        setQuote(symbol, quote);
+        rememberResolution(symbol, yahooSymbol);
+      });
+
+      await mapWithConcurrency(remaining, QUOTE_CONCURRENCY, async (symbol) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        const tried = batchAnswered ? [primary.get(symbol) ?? symbol] : [];
+        const { value } = await resolveWithFallback(symbol, (candidate) => fetchYahooPrice(candidate, controller.signal), false, tried);
+        if (value != null && !controller.signal.aborted) {
+          setQuote(symbol, value);
+        }
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+
+    return { prices, exchanges, failed: symbols.filter((symbol) => prices[symbol] == null) };
+  }
+
+  async search(query: string): Promise<SearchMatch[] | null> {
+    try {
+      const url = `${SEARCH_URL}?q=${encodeURIComponent(query)}&lang=en-US&quotesCount=10&newsCount=0`;
+      const response = await fetch(url, { headers: YAHOO_HEADERS });
+      if (!response.ok) {
+        return null;
+      }
+      const payload = (await response.json()) as {
+        quotes?: Array<{
+          symbol?: string;
+          shortname?: string;
+          longname?: string;
+          exchDisp?: string;
+        }>;
+      };
+      return (payload.quotes ?? [])
+        .filter((item) => typeof item.symbol === 'string' && item.symbol.length > 0)
+        .map((item) => ({
+          providerSymbol: String(item.symbol).toUpperCase(),
+          name: item.shortname ?? item.longname ?? '',
+          exchange: item.exchDisp ?? '',
+        }));
+    } catch {
+      return null;
+    }
+  }
+
+  async getHistory(symbol: string, from: string, to: string, interval: HistoryInterval): Promise<PriceHistory | null> {
+    const { yahooSymbol, value } = await resolveWithFallback(symbol, (candidate) => fetchYahooHistory(candidate, from, to, interval));
+    return value == null ? null : { providerSymbol: yahooSymbol, bars: value };
+  }
+}
@@ -0,0 +1,138 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { TtlCache } from './_lib/cache.js';
+import { applyCors } from './_lib/cors.js';
+import { getMarketDataProvider } from './_lib/marketData.js';
+import type { HistoryInterval, PriceBar, PriceHistory } from './_lib/marketData.js';
+
+interface HistoryResponse {
+  symbol: string;
+  yahooSymbol: string;
+  interval: HistoryInterval;
+  from: string;
+  to: string;
+  bars: PriceBar[];
+  source: string;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const MS_PER_DAY = SECONDS_PER_DAY * 1000;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+// Yahoo only serves intraday candles for recent windows; older requests come back empty.
+const INTERVAL_LOOKBACK_DAYS: Record<HistoryInterval, number> = {
+  '1d': 366 * 20,
+  '1h': 729,
+  '15m': 59,
+  '5m': 59,
+};
+const MAX_RANGE_DAYS: Record<HistoryInterval, number> = {
+  '1d': 366 * 5,
+  '1h': 180,
+  '15m': 59,
+  '5m': 30,
+};
+
+// Windows that ended before today never change; ones that include today are still forming.
+const CLOSED_WINDOW_TTL_MS = 24 * 60 * 60 * 1000;
+const OPEN_WINDOW_TTL_MS: Record<HistoryInterval, number> = {
+  '1d': 5 * 60 * 1000,
+  '1h': 5 * 60 * 1000,
+  '15m': 60 * 1000,
+  '5m': 60 * 1000,
+};
+
+const historyCache = new TtlCache<PriceHistory>(500);
+
+function isHistoryInterval(value: unknown): value is HistoryInterval {
+  return value === '1d' || value === '1h' || value === '15m' || value === '5m';
+}
+
+function toUnixSeconds(isoDate: string): number {
+  return Math.floor(Date.parse(`${isoDate}T00:00:00Z`) / 1000);
+}
+
+function todayInIndia(): string {
+  return new Date(Date.now() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+function validateRange(from: string, to: string, interval: HistoryInterval): string | null {
+  if (!ISO_DATE_PATTERN.test(from) || !ISO_DATE_PATTERN.test(to) || from > to) {
+    return 'from and to must be YYYY-MM-DD dates with from <= to';
+  }
+  const rangeDays = (toUnixSeconds(to) - toUnixSeconds(from)) / SECONDS_PER_DAY;
+  if (rangeDays > MAX_RANGE_DAYS[interval]) {
+    return `Ranges for ${interval} candles are limited to ${MAX_RANGE_DAYS[interval]} days`;
+  }
+  const ageDays = (Date.parse(`${todayInIndia()}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY;
+  if (ageDays > INTERVAL_LOOKBACK_DAYS[interval]) {
+    return `${interval} candles are only available for the last ${INTERVAL_LOOKBACK_DAYS[interval]} days`;
+  }
+  return null;
+}
+
+export default async function handler(request: VercelRequest, response: VercelResponse): Promise<void> {
+  applyCors(response);
+
+  if (request.method === 'OPTIONS') {
+    response.status(200).end();
+    return;
+  }
+
+  if (request.method !== 'GET') {
+    response.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const symbol = typeof request.query.symbol === 'string' ? request.query.symbol : '';
+  const from = typeof request.query.from === 'string' ? request.query.from : '';
+  const to = typeof request.query.to === 'string' ? request.query.to : from;
+  const interval = request.query.interval ?? '1d';
+  if (!symbol.trim()) {
+    response.status(400).json({ error: 'Symbol is required' });
+    return;
+  }
+  if (!isHistoryInterval(interval)) {
+    response.status(400).json({ error: 'interval must be one of 1d, 1h, 15m, 5m' });
+    return;
+  }
+  const rangeError = validateRange(from, to, interval);
+  if (rangeError) {
+    response.status(400).json({ error: rangeError });
+    return;
+  }
+
+  const isClosedWindow = to < todayInIndia();
+  const ttlMs = isClosedWindow ? CLOSED_WINDOW_TTL_MS : OPEN_WINDOW_TTL_MS[interval];
+  const cacheKey = `${symbol.trim().toUpperCase()}|${interval}|${from}|${to}`;
+
+  try {
+    const provider = getMarketDataProvider();
+    let resolved = historyCache.get(cacheKey);
+    response.setHeader('X-Cache', resolved ? 'HIT' : 'MISS');
+    if (!resolved) {
+      const history = await provider.getHistory(symbol, from, to, interval);
+      if (history == null) {
+        response.status(404).json({ error: `History not found for ${symbol.trim().toUpperCase()}` });
+        return;
+      }
+      resolved = history;
+      historyCache.set(cacheKey, resolved, ttlMs);
+    }
+
+    const payload: HistoryResponse = {
+      symbol: symbol.trim().toUpperCase(),
+      yahooSymbol: resolved.providerSymbol,
+      interval,
+      from,
+      to,
+      bars: resolved.bars,
+      source: provider.name,
+    };
+    // Lets the CDN answer repeats for the same window without invoking the function at all.
+    response.setHeader('Cache-Control', `public, s-maxage=${Math.floor(ttlMs / 1000)}, stale-while-revalidate=60`);
+    response.status(200).json(payload);
+  } catch {
+    response.status(500).json({ error: 'Failed to fetch price history' });
+  }
+}
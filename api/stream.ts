@@ -0,0 +1,112 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { applyCors } from './_lib/cors.js';
+import { getMarketDataProvider } from './_lib/marketData.js';
+
+interface QuotesEvent {
+  prices: Record<string, number>;
+  exchanges: Record<string, string>;
+  failed: string[];
+  timestamp: string;
+  source: string;
+}
+
+const MAX_SYMBOLS = 50;
+const POLL_INTERVAL_MS = 15 * 1000;
+const QUOTE_BUDGET_MS = 7000;
+// Streams end before the function timeout; EventSource reconnects on its own after RECONNECT_DELAY_MS.
+const STREAM_DURATION_MS = 45 * 1000;
+const RECONNECT_DELAY_MS = 2000;
+
+function waitUnlessClosed(ms: number, isClosed: () => boolean): Promise<void> {
+  return new Promise((resolve) => {
+    const startedAt = Date.now();
+    const check = () => {
+      if (isClosed() || Date.now() - startedAt >= ms) {
+        resolve();
+        return;
+      }
+      setTimeout(check, Math.min(1000, ms));
+    };
+    check();
+  });
+}
+
+export default async function handler(request: VercelRequest, response: VercelResponse): Promise<void> {
+  applyCors(response);
+
+  if (request.method === 'OPTIONS') {
+    response.status(200).end();
+    return;
+  }
+
+  if (request.method !== 'GET') {
+    response.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const symbolsParam = typeof request.query.symbols === 'string' ? request.query.symbols : '';
+  const symbols = Array.from(
+    new Set(
+      symbolsParam
+        .split(',')
+        .map((symbol) => symbol.trim().toUpperCase())
+        .filter(Boolean)
+    )
+  );
+  if (symbols.length === 0) {
+    response.status(400).json({ error: 'symbols query param is required' });
+    return;
+  }
+  if (symbols.length > MAX_SYMBOLS) {
+    response.status(400).json({ error: `At most ${MAX_SYMBOLS} symbols can be streamed at once` });
+    return;
+  }
+
+  let closed = false;
+  request.on('close', () => {
+    closed = true;
+  });
+
+  response.setHeader('Content-Type', 'text/event-stream');
+  response.setHeader('Cache-Control', 'no-cache, no-transform');
+  response.setHeader('Connection', 'keep-alive');
+  response.setHeader('X-Accel-Buffering', 'no');
+  response.status(200);
+  response.flushHeaders();
+  response.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  const provider = getMarketDataProvider();
+  const lastSent: Record<string, number> = {};
+  const startedAt = Date.now();
+
+  // Each connection starts with every quote, then only sends symbols whose price moved.
+  while (!closed && Date.now() - startedAt < STREAM_DURATION_MS) {
+    try {
+      const { prices, exchanges, failed } = await provider.getQuotes(symbols, QUOTE_BUDGET_MS);
+      const changed = Object.fromEntries(Object.entries(prices).filter(([symbol, price]) => lastSent[symbol] !== price));
+      if (closed) {
+        break;
+      }
+      if (Object.keys(changed).length > 0) {
+        Object.assign(lastSent, changed);
+        const changedExchanges = Object.fromEntries(Object.entries(exchanges).filter(([symbol]) => symbol in changed));
+        const event: QuotesEvent = {
+          prices: changed,
+          exchanges: changedExchanges,
+          failed,
+          timestamp: new Date().toISOString(),
+          source: provider.name,
+        };
+        response.write(`event: quotes\ndata: ${JSON.stringify(event)}\n\n`);
+      } else {
+        // Comments keep proxies from closing an idle connection.
+        response.write(': keep-alive\n\n');
+      }
+    } catch {
+      response.write(`event: quote-error\ndata: ${JSON.stringify({ error: 'Failed to fetch prices' })}\n\n`);
+    }
+    await waitUnlessClosed(Math.min(POLL_INTERVAL_MS, STREAM_DURATION_MS - (Date.now() - startedAt)), () => closed);
+  }
+
+  response.end();
+}
@@ -1,28 +1,146 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { applyCors } from './_lib/cors.js';
+import { NSE_INDEX_SYMBOLS } from './_lib/indices.js';
+import { getMarketDataProvider } from './_lib/marketData.js';
+
+type DerivativeType = 'future' | 'call_option' | 'put_option';
+
+interface SuggestionInstrument {
+  type: DerivativeType;
+  expiry: string;
+  strike?: number;
+  lotSize?: number;
+}
 
 interface SuggestionItem {
   symbol: string;
   yahooSymbol: string;
   name: string;
   exchange: string;
+  instrument?: SuggestionInstrument;
 }
 
-const CORS_HEADERS: Record<string, string> = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type',
-};
+const DERIVATIVE_TYPES: DerivativeType[] = ['future', 'call_option', 'put_option'];
 
-const YAHOO_HEADERS: Record<string, string> = {
-  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-  Accept: 'application/json',
-  'Accept-Language': 'en-US,en;q=0.9',
+// Exchange lot sizes are revised periodically; unknown symbols leave the lot size to the user.
+const NSE_LOT_SIZES: Record<string, number> = {
+  NIFTY: 75,
+  BANKNIFTY: 35,
+  FINNIFTY: 65,
+  RELIANCE: 500,
+  TCS: 175,
+  HDFCBANK: 550,
+  INFY: 400,
+  ICICIBANK: 700,
+  KOTAKBANK: 400,
+  SBIN: 750,
+  BHARTIARTL: 475,
+  ITC: 1600,
+  AXISBANK: 625,
+  LT: 175,
+  TATAMOTORS: 800,
+  TATASTEEL: 5500,
 };
 
-function applyCors(response: VercelResponse): void {
-  Object.entries(CORS_HEADERS).forEach(([key, value]) => {
-    response.setHeader(key, value);
-  });
+const MONTH_CODES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// NSE monthly derivatives expire on the last Tuesday of the month.
+function lastTuesdayOfMonth(year: number, month: number): Date {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0));
+  const offset = (lastDay.getUTCDay() - 2 + 7) % 7;
+  return new Date(Date.UTC(year, month, lastDay.getUTCDate() - offset));
+}
+
+function upcomingMonthlyExpiries(count: number): Date[] {
+  const today = new Date();
+  const todayUtc = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate());
+  const expiries: Date[] = [];
+  let year = today.getUTCFullYear();
+  let month = today.getUTCMonth();
+  while (expiries.length < count) {
+    const expiry = lastTuesdayOfMonth(year, month);
+    if (expiry.getTime() >= todayUtc) {
+      expiries.push(expiry);
+    }
+    month += 1;
+    if (month > 11) {
+      month = 0;
+      year += 1;
+    }
+  }
+  return expiries;
+}
+
+function strikeStep(price: number): number {
+  if (price < 250) {
+    return 5;
+  }
+  if (price < 1000) {
+    return 10;
+  }
+  if (price < 2500) {
+    return 20;
+  }
+  if (price < 10000) {
+    return 50;
+  }
+  return 100;
+}
+
+function contractCode(underlying: string, expiry: Date, type: DerivativeType, strike?: number): string {
+  const yy = String(expiry.getUTCFullYear()).slice(-2);
+  const month = MONTH_CODES[expiry.getUTCMonth()];
+  if (type === 'future') {
+    return `${underlying}${yy}${month}FUT`;
+  }
+  return `${underlying}${yy}${month}${strike}${type === 'call_option' ? 'CE' : 'PE'}`;
+}
+
+async function buildDerivativeSuggestions(underlyings: string[], type: DerivativeType): Promise<SuggestionItem[]> {
+  const expiries = upcomingMonthlyExpiries(type === 'future' ? 3 : 1);
+  const suggestions: SuggestionItem[] = [];
+
+  for (const underlying of underlyings) {
+    const lotSize = NSE_LOT_SIZES[underlying];
+    if (type === 'future') {
+      expiries.forEach((expiry) => {
+        suggestions.push({
+          symbol: underlying,
+          yahooSymbol: contractCode(underlying, expiry, type),
+          name: `${underlying} ${toIsoDate(expiry)} FUT`,
+          exchange: 'NFO',
+          instrument: { type, expiry: toIsoDate(expiry), lotSize },
+        });
+      });
+      continue;
+    }
+
+    const quote = await getMarketDataProvider().getQuote(NSE_INDEX_SYMBOLS[underlying] ?? `${underlying}.NS`, true);
+    if (quote == null) {
+      continue;
+    }
+    const price = quote.price;
+    const step = strikeStep(price);
+    const atm = Math.round(price / step) * step;
+    const expiry = expiries[0];
+    [atm - step * 2, atm - step, atm, atm + step, atm + step * 2]
+      .filter((strike) => strike > 0)
+      .forEach((strike) => {
+        suggestions.push({
+          symbol: underlying,
+          yahooSymbol: contractCode(underlying, expiry, type, strike),
+          name: `${underlying} ${toIsoDate(expiry)} ${strike} ${type === 'call_option' ? 'CE' : 'PE'}`,
+          exchange: 'NFO',
+          instrument: { type, expiry: toIsoDate(expiry), strike, lotSize },
+        });
+      });
+  }
+
+  return suggestions;
 }
 
 function toDisplaySymbol(raw: string): string {
@@ -52,39 +170,42 @@ export default async function handler(request: VercelRequest, response: VercelRe
     return;
   }
 
+  const instrumentParam = typeof request.query.instrument === 'string' ? request.query.instrument : 'equity';
+  const derivativeType = DERIVATIVE_TYPES.find((type) => type === instrumentParam);
+
   try {
-    const url = `https://query1.finance.yahoo.com/v1/finance/search?q=${encodeURIComponent(query)}&lang=en-US&quotesCount=10&newsCount=0`;
-    const yahooResponse = await fetch(url, { headers: YAHOO_HEADERS });
-    if (!yahooResponse.ok) {
+    const matches = await getMarketDataProvider().search(query);
+    if (matches == null) {
       response.status(500).json({ error: 'Failed to fetch suggestions' });
       return;
     }
 
-    const payload = (await yahooResponse.json()) as {
-      quotes?: Array<{
-        symbol?: string;
-        shortname?: string;
-        longname?: string;
-        exchDisp?: string;
-      }>;
-    };
-
-    const suggestions: SuggestionItem[] = (payload.quotes ?? [])
-      .filter((item) => typeof item.symbol === 'string' && item.symbol.length > 0)
+    const suggestions: SuggestionItem[] = matches
       .filter((item) => {
-        const symbol = String(item.symbol).toUpperCase();
+        const symbol = item.providerSymbol;
         return symbol.endsWith('.NS') || symbol.endsWith('.BO') || !symbol.includes('.');
       })
       .slice(0, 8)
-      .map((item) => {
-        const yahooSymbol = String(item.symbol).toUpperCase();
-        return {
-          symbol: toDisplaySymbol(yahooSymbol),
-          yahooSymbol,
-          name: item.shortname ?? item.longname ?? toDisplaySymbol(yahooSymbol),
-          exchange: item.exchDisp ?? '',
-        };
-      });
+      .map((item) => ({
+        symbol: toDisplaySymbol(item.providerSymbol),
+        yahooSymbol: item.providerSymbol,
+        name: item.name || toDisplaySymbol(item.providerSymbol),
+        exchange: item.exchange,
+      }));
+
+    if (derivativeType) {
+      const upperQuery = query.toUpperCase();
+      const indexMatches = Object.keys(NSE_INDEX_SYMBOLS).filter((index) => index.startsWith(upperQuery));
+      const underlyings = Array.from(
+        new Set([
+          ...indexMatches,
+          ...suggestions.filter((item) => item.yahooSymbol.endsWith('.NS')).map((item) => item.symbol),
+        ])
+      ).slice(0, 2);
+      const contracts = await buildDerivativeSuggestions(underlyings, derivativeType);
+      response.status(200).json({ query, suggestions: contracts.slice(0, 10) });
+      return;
+    }
 
     response.status(200).json({ query, suggestions });
   } catch {
@@ -1,9 +1,10 @@
 ﻿import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { User } from '@supabase/supabase-js';
-import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, ReferenceArea, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 import {
   AlarmClockCheck,
   BarChart3,
+  Bell,
   CandlestickChart,
   Download,
   Edit2,
@@ -16,24 +17,45 @@ import {
   LogOut,
   Plus,
   RefreshCw,
+  RotateCcw,
   Search,
   Settings,
   TrendingUp,
   Trash2,
+  Upload,
   User as UserIcon,
   Wallet,
   X,
 } from 'lucide-react';
 import type { Goal, GoalType } from './shared/types/goal';
-import type { AddExitLegInput, CreateOpenTradeInput, Trade } from './shared/types/trade';
-import { LocalTradeRepository } from './features/trades/repository/tradeRepository';
-import { LocalGoalRepository } from './features/goals/repository/goalRepository';
-import { buildAnalyticsSummary } from './features/analytics/analyticsService';
+import type { CreatePriceAlertInput } from './shared/types/alert';
+import type { AddEntryLegInput, AddExitLegInput, CreateOpenTradeInput, ImportTradeInput, Trade, TradeExcursion } from './shared/types/trade';
+import { LocalTradeRepository, type TradeRepository } from './features/trades/repository/tradeRepository';
+import { SupabaseTradeRepository } from './features/trades/repository/supabaseTradeRepository';
+import { LocalGoalRepository, type GoalRepository } from './features/goals/repository/goalRepository';
+import { SupabaseGoalRepository } from './features/goals/repository/supabaseGoalRepository';
+import { fetchLegacyTradingData, markLegacyTradingDataMigrated } from './features/sync/services/legacyTradingData';
+import type { ConflictSide, TradeConflict, TradeConflictField } from './features/sync/services/tradeConflicts';
+import type { OutboxStatus } from './features/sync/repository/syncOutboxRepository';
+import { buildAnalyticsSummary, buildSymbolPerformance } from './features/analytics/analyticsService';
+import { buildDrawdownAnalysis } from './features/analytics/drawdownService';
+import { buildExcursionPoints, calculateExcursion, excursionHistoryRequest, needsExcursion } from './features/analytics/excursionService';
+import ExcursionScatterCard from './features/analytics/components/ExcursionScatterCard';
+import PerformanceStatsTable from './features/analytics/components/PerformanceStatsTable';
+import SymbolDetailDrawer from './features/analytics/components/SymbolDetailDrawer';
+import SymbolPerformanceTable from './features/analytics/components/SymbolPerformanceTable';
 import { getGoalProgress } from './features/goals/services/goalService';
 import { completeReminder, listActiveReminders } from './features/reminders/reminderService';
-import { getRemainingQuantity, roundTo2 } from './shared/services/tradeMath';
+import { getRemainingQuantity, isDerivative, isOptionExpired, roundTo2 } from './shared/services/tradeMath';
 import { exportTradesToCsv } from './features/trades/services/exportService';
+import { createBackup, downloadBackup, restoreBackup, type JournalBackup, type RestoreMode } from './features/backup/services/backupService';
 import { pricingService as sharedPricingService } from './shared/services/pricing';
+import { exchangeForSymbol, formatNextSessionOpen, isExchangeOpen, nextSessionOpen } from './shared/services/exchangeCalendar';
+import type { ExchangeCode } from './shared/services/exchangeCalendar';
+import { isQuoteFresh, quoteCache } from './shared/services/quoteCache';
+import { subscribeToQuotes } from './shared/services/quoteStream';
+import { priceHistoryService } from './shared/services/priceHistory';
+import { TOMBSTONE_RETENTION_DAYS, tombstoneCutoffIso } from './shared/services/tombstones';
 import {
   buildCurrencyFormatter,
   CURRENCY_STORAGE_KEY,
@@ -43,13 +65,39 @@ import {
   PORTFOLIO_VALUE_STORAGE_KEY,
   type CurrencyCode,
 } from './shared/config/tradingOptions';
+import {
+  ANALYTICS_UNREALIZED_STORAGE_KEY,
+  AUTO_REFRESH_MARKS_STORAGE_KEY,
+  CONFIRM_DELETE_STORAGE_KEY,
+  CURRENT_TAB_STORAGE_KEY,
+  DASHBOARD_TOOLTIP_DISMISSED_KEY,
+  DISMISSED_AFTER_FIVE_TRADES_STORAGE_KEY,
+  DISMISSED_INSIGHTS_STORAGE_KEY,
+  DISMISSED_PORTFOLIO_BANNER_STORAGE_KEY,
+  HAS_SKIPPED_PORTFOLIO_VALUE_STORAGE_KEY,
+  INSIGHTS_TOOLTIP_DISMISSED_KEY,
+  PORTFOLIO_NUDGE_DISMISS_DATE_STORAGE_KEY,
+  PRICE_DISCLAIMER_SEEN_STORAGE_KEY,
+  TRADE_VIEW_MODE_STORAGE_KEY,
+  TRADES_TOOLTIP_DISMISSED_KEY,
+} from './shared/config/storageKeys';
 import TradeFormModal, { type TradeFormPayload } from './features/trades/components/TradeFormModal';
 import CloseTradeModal from './features/trades/components/CloseTradeModal';
+import AddToPositionModal from './features/trades/components/AddToPositionModal';
+import ImportTradesModal from './features/imports/components/ImportTradesModal';
+import RestoreBackupModal from './features/backup/components/RestoreBackupModal';
+import RecentlyDeletedModal from './features/trash/components/RecentlyDeletedModal';
+import SyncConflictModal from './features/sync/components/SyncConflictModal';
 import GoalsPanel from './features/goals/components/GoalsPanel';
+import PriceAlertsModal from './features/alerts/components/PriceAlertsModal';
+import { LocalAlertRepository } from './features/alerts/repository/alertRepository';
+import { activeAlertSymbols, evaluateAlerts, isAlertActive, levelAlertReferenceUpdates, TRADE_ONLY_ALERT_KINDS } from './features/alerts/services/alertService';
+import { getNotificationPermission, requestNotificationPermission, showAlertNotification } from './features/alerts/services/alertNotifications';
 import OnboardingWizard from './features/onboarding/components/OnboardingWizard';
 import TodayPerformanceCard from './features/overview/components/TodayPerformanceCard';
 import QuickStatsGrid from './features/overview/components/QuickStatsGrid';
 import RecentTradesPreview from './features/overview/components/RecentTradesPreview';
+import PnlCalendar from './features/overview/components/PnlCalendar';
 import TradeCard from './features/trades/components/TradeCard';
 import EmptyState from './shared/components/EmptyState';
 import { supabase } from './supabaseClient';
@@ -88,13 +136,6 @@ interface RefreshResult {
   priceChanges: Record<string, PriceChange>;
 }
 
-interface CloudTradingDataRow {
-  user_id: string;
-  trades: unknown;
-  goals: unknown;
-  updated_at?: string | null;
-}
-
 const C = {
   grid: '#283243',
   text: '#9ca3af',
@@ -113,25 +154,13 @@ const CHART_TOOLTIP_STYLE = {
 const CHART_LABEL_STYLE = { color: '#9fb0ca', fontSize: 12 };
 const CHART_ITEM_STYLE = { color: '#e7eefb', fontSize: 12 };
 const TAB_ICON_CLASS = 'mb-0.5 block md:mb-0';
+const EXCURSION_BATCH_SIZE = 10;
+const AUTO_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
 const dateDisplayFormatter = new Intl.DateTimeFormat(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
 
 const periodNow = () => new Date().toISOString().slice(0, 7);
 const pnlClass = (v: number) => (v >= 0 ? 'text-[var(--positive)]' : 'text-[var(--negative)]');
-const CONFIRM_DELETE_STORAGE_KEY = 'settings.confirmDelete';
-const AUTO_REFRESH_MARKS_STORAGE_KEY = 'settings.autoRefreshMarks';
-const ANALYTICS_UNREALIZED_STORAGE_KEY = 'settings.analytics.includeUnrealized';
-const HAS_SKIPPED_PORTFOLIO_VALUE_STORAGE_KEY = 'hasSkippedPortfolioValue';
-const DISMISSED_PORTFOLIO_BANNER_STORAGE_KEY = 'dismissedPortfolioBanner';
-const DISMISSED_AFTER_FIVE_TRADES_STORAGE_KEY = 'dismissedAfter5Trades';
-const PORTFOLIO_NUDGE_DISMISS_DATE_STORAGE_KEY = 'portfolioNudgeDismissDate';
-const DASHBOARD_TOOLTIP_DISMISSED_KEY = 'tooltipDismissed.dashboard';
-const TRADES_TOOLTIP_DISMISSED_KEY = 'tooltipDismissed.trades';
-const INSIGHTS_TOOLTIP_DISMISSED_KEY = 'tooltipDismissed.insights';
-const CURRENT_TAB_STORAGE_KEY = 'currentTab';
-const TRADE_VIEW_MODE_STORAGE_KEY = 'tradeViewMode';
-const DISMISSED_INSIGHTS_STORAGE_KEY = 'dismissedInsights';
-const GOALS_STORAGE_KEY = 'goals';
-const CLOUD_TRADING_DATA_TABLE = 'user_trading_data';
+const formatR = (v: number) => `${v >= 0 ? '+' : ''}${v.toFixed(2)}R`;
 const GOAL_LABELS: Record<GoalType, string> = {
   monthly_pnl: 'Monthly P&L',
   monthly_win_rate: 'Monthly Win Rate',
@@ -213,63 +242,6 @@ function parseBoolean(value: unknown): boolean | undefined {
   return undefined;
 }
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null;
-}
-
-function parseCloudTrades(value: unknown): Trade[] {
-  if (!Array.isArray(value)) {
-    return [];
-  }
-  return value.filter((item): item is Trade => isRecord(item) && typeof item.id === 'string');
-}
-
-function parseCloudGoals(value: unknown): Goal[] {
-  if (!Array.isArray(value)) {
-    return [];
-  }
-  return value.filter((item): item is Goal => {
-    if (!isRecord(item)) {
-      return false;
-    }
-    if (typeof item.id !== 'string' || typeof item.period !== 'string') {
-      return false;
-    }
-    if (item.type !== 'monthly_pnl' && item.type !== 'monthly_win_rate' && item.type !== 'monthly_trade_count') {
-      return false;
-    }
-    return true;
-  });
-}
-
-function mergeTradesByLatest(localTrades: Trade[], remoteTrades: Trade[]): Trade[] {
-  const merged = new Map<string, Trade>();
-  [...localTrades, ...remoteTrades].forEach((trade) => {
-    const existing = merged.get(trade.id);
-    if (!existing) {
-      merged.set(trade.id, trade);
-      return;
-    }
-    merged.set(trade.id, trade.updatedAt > existing.updatedAt ? trade : existing);
-  });
-  return [...merged.values()].sort((a, b) => b.date.localeCompare(a.date) || b.updatedAt.localeCompare(a.updatedAt));
-}
-
-function mergeGoalsByLatest<
-  T extends { id: string; updatedAt: string }
->(localGoals: T[], remoteGoals: T[]): T[] {
-  const merged = new Map<string, T>();
-  [...localGoals, ...remoteGoals].forEach((goal) => {
-    const existing = merged.get(goal.id);
-    if (!existing) {
-      merged.set(goal.id, goal);
-      return;
-    }
-    merged.set(goal.id, goal.updatedAt > existing.updatedAt ? goal : existing);
-  });
-  return [...merged.values()];
-}
-
 function parseIsoDate(dateIso: string): Date {
   const [year, month, day] = dateIso.split('-').map((value) => Number.parseInt(value, 10));
   return new Date(year, month - 1, day);
@@ -330,6 +302,47 @@ function formatTradeDate(dateIso: string): string {
   return dateDisplayFormatter.format(date);
 }
 
+function collectPriceChanges(openTrades: Trade[], pricesBySymbol: Record<string, number>): Record<string, PriceChange> {
+  const priceChanges: Record<string, PriceChange> = {};
+  openTrades.forEach((trade) => {
+    const nextMark = pricesBySymbol[trade.symbol.toUpperCase()];
+    if (!Number.isFinite(nextMark) || nextMark <= 0) {
+      return;
+    }
+    const oldMark = trade.markPrice ?? trade.entryPrice;
+    const change = roundTo2(nextMark - oldMark);
+    if (Math.abs(change) < 0.000001) {
+      return;
+    }
+    const changePercent = oldMark > 0 ? roundTo2((change / oldMark) * 100) : 0;
+    priceChanges[trade.id] = {
+      oldMark,
+      newMark: nextMark,
+      change,
+      changePercent,
+    };
+  });
+  return priceChanges;
+}
+
+// Underlying closes on each option's expiry date, keyed by trade id. Contracts without a close yet stay open.
+async function fetchExpiryCloses(expiredOptions: Trade[]): Promise<Record<string, number>> {
+  const closes: Record<string, number> = {};
+  await Promise.all(
+    expiredOptions.map(async (trade) => {
+      const expiry = trade.instrument?.expiry;
+      if (!expiry) {
+        return;
+      }
+      const close = await priceHistoryService.fetchCloseOn(trade.symbol, expiry);
+      if (close != null && close > 0) {
+        closes[trade.id] = roundTo2(close);
+      }
+    })
+  );
+  return closes;
+}
+
 function formatTimeAgo(date: Date): string {
   const now = new Date();
   const diffMs = now.getTime() - date.getTime();
@@ -352,17 +365,6 @@ function formatTimeAgo(date: Date): string {
   return `${hours} hours ago`;
 }
 
-function isNSEMarketOpen(): boolean {
-  const now = new Date();
-  const utcMinutes = now.getUTCHours() * 60 + now.getUTCMinutes();
-  const istMinutes = (utcMinutes + 330 + 1440) % 1440;
-  const istDay = (now.getUTCDay() + (utcMinutes + 330 >= 1440 ? 1 : 0)) % 7;
-  const isWeekday = istDay >= 1 && istDay <= 5;
-  const marketOpen = 9 * 60 + 15;
-  const marketClose = 15 * 60 + 30;
-  return isWeekday && istMinutes >= marketOpen && istMinutes <= marketClose;
-}
-
 function getMetricContext(
   metricType: 'winRate' | 'totalPnL' | 'thisWeek' | 'openRisk' | 'realizedPnL' | 'todayPnL',
   value: number,
@@ -1031,12 +1033,46 @@ function PriceDisclaimerModal({ onAccept }: PriceDisclaimerModalProps) {
 }
 
 export default function App() {
-  const tradeRepo = useMemo(() => new LocalTradeRepository(), []);
-  const goalRepo = useMemo(() => new LocalGoalRepository(), []);
+  const [accountUser, setAccountUser] = useState<User | null>(null);
+  const [authNotice, setAuthNotice] = useState('');
+  const [isSyncingCloudData, setIsSyncingCloudData] = useState(false);
+  const [syncConflicts, setSyncConflicts] = useState<TradeConflict[]>([]);
+  const [showSyncConflicts, setShowSyncConflicts] = useState(false);
+  const [outboxStatus, setOutboxStatus] = useState<OutboxStatus | null>(null);
+  const accountUserId = accountUser?.id;
+  const tradeRepo = useMemo<TradeRepository>(
+    () =>
+      accountUserId
+        ? new SupabaseTradeRepository(accountUserId, {
+            onError: (message) => setAuthNotice(`Signed in, but cloud data sync failed: ${message}`),
+            onSyncingChange: setIsSyncingCloudData,
+            onConflictsChange: setSyncConflicts,
+            onOutboxChange: setOutboxStatus,
+          })
+        : new LocalTradeRepository(),
+    [accountUserId]
+  );
+  const goalRepo = useMemo<GoalRepository>(
+    () =>
+      accountUserId
+        ? new SupabaseGoalRepository(accountUserId, {
+            onError: (message) => setAuthNotice(`Signed in, but cloud data sync failed: ${message}`),
+            onOutboxChange: setOutboxStatus,
+          })
+        : new LocalGoalRepository(),
+    [accountUserId]
+  );
+  // Conflicts belong to the signed-in account's repository and are meaningless once signed out.
+  const activeSyncConflicts = accountUserId ? syncConflicts : [];
+  const pendingCloudWrites = accountUserId ? (outboxStatus?.pending ?? 0) : 0;
   const pricingService = useMemo(() => sharedPricingService, []);
+  const alertRepo = useMemo(() => new LocalAlertRepository(), []);
 
   const [trades, setTrades] = useState<Trade[]>(() => tradeRepo.listTrades());
   const [goals, setGoals] = useState(() => goalRepo.listGoals());
+  const [priceAlerts, setPriceAlerts] = useState(() => alertRepo.listAlerts());
+  const [showPriceAlerts, setShowPriceAlerts] = useState(false);
+  const [notificationPermission, setNotificationPermission] = useState(() => getNotificationPermission());
   const [reminders, setReminders] = useState(() => listActiveReminders());
   const [currency, setCurrency] = useState<CurrencyCode>(() => getInitialCurrency());
   const [needsCurrencyOnboarding, setNeedsCurrencyOnboarding] = useState(() => !hasSavedCurrencyPreference());
@@ -1061,21 +1097,25 @@ export default function App() {
   const [flt, setFlt] = useState<FilterType>('all');
   const [useUnrealized, setUseUnrealized] = useState<boolean>(() => getInitialBoolean(ANALYTICS_UNREALIZED_STORAGE_KEY, true));
   const [isRefreshingMarks, setIsRefreshingMarks] = useState(false);
+  const [isMeasuringExcursions, setIsMeasuringExcursions] = useState(false);
   const [markRefreshError, setMarkRefreshError] = useState('');
   const [lastRefreshTime, setLastRefreshTime] = useState<Date | null>(null);
   const [refreshTick, setRefreshTick] = useState(0);
+  const [quoteCacheVersion, setQuoteCacheVersion] = useState(0);
   const [refreshProgress, setRefreshProgress] = useState(0);
   const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isTabVisible, setIsTabVisible] = useState(() => document.visibilityState === 'visible');
   const [showPriceDisclaimer, setShowPriceDisclaimer] = useState(false);
   const [pendingRefresh, setPendingRefresh] = useState(false);
   const [hasSeenPriceDisclaimer, setHasSeenPriceDisclaimer] = useState<boolean>(() => {
     try {
-      return localStorage.getItem('hasSeenPriceDisclaimer') === 'true';
+      return localStorage.getItem(PRICE_DISCLAIMER_SEEN_STORAGE_KEY) === 'true';
     } catch {
       return false;
     }
   });
   const [recentlyUpdatedTradeIds, setRecentlyUpdatedTradeIds] = useState<string[]>([]);
+  const [remoteUpdatedTradeIds, setRemoteUpdatedTradeIds] = useState<string[]>([]);
   const [priceChangesByTradeId, setPriceChangesByTradeId] = useState<Record<string, PriceChange>>({});
   const [pullStartY, setPullStartY] = useState(0);
   const [pullDistance, setPullDistance] = useState(0);
@@ -1084,6 +1124,11 @@ export default function App() {
   const [tradeFormInitialValues, setTradeFormInitialValues] = useState<Partial<CreateOpenTradeInput> | undefined>(undefined);
   const [editTrade, setEditTrade] = useState<Trade | null>(null);
   const [manageTrade, setManageTrade] = useState<Trade | null>(null);
+  const [addToPositionTrade, setAddToPositionTrade] = useState<Trade | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showRestoreModal, setShowRestoreModal] = useState(false);
+  const [recentlyDeleted, setRecentlyDeleted] = useState<{ trades: Trade[]; goals: Goal[] } | null>(null);
+  const [selectedSymbol, setSelectedSymbol] = useState<string | null>(null);
   const [showShortcuts, setShowShortcuts] = useState(false);
   const [bulkSelectMode, setBulkSelectMode] = useState(false);
   const [selectedTrades, setSelectedTrades] = useState<string[]>([]);
@@ -1113,26 +1158,20 @@ export default function App() {
     trades: getInitialBoolean(TRADES_TOOLTIP_DISMISSED_KEY, false),
     insights: getInitialBoolean(INSIGHTS_TOOLTIP_DISMISSED_KEY, false),
   }));
-  const [accountUser, setAccountUser] = useState<User | null>(null);
   const [isAuthReady, setIsAuthReady] = useState(false);
-  const [authNotice, setAuthNotice] = useState('');
   const [isSigningInWithGoogle, setIsSigningInWithGoogle] = useState(false);
   const [isSyncingSettings, setIsSyncingSettings] = useState(false);
-  const [isSyncingCloudData, setIsSyncingCloudData] = useState(false);
-  const [hasHydratedCloudData, setHasHydratedCloudData] = useState(false);
   const [hasDoneInitialAutoRefresh, setHasDoneInitialAutoRefresh] = useState(false);
   const [toastPosition, setToastPosition] = useState<'bottom-center' | 'top-right'>(() =>
     window.innerWidth >= 768 ? 'top-right' : 'bottom-center'
   );
   const refreshToastIdRef = useRef<string | number | null>(null);
   const refreshInFlightRef = useRef(false);
+  const excursionAttemptedRef = useRef(new Set<string>());
   const pullMetaRef = useRef<{ x: number; y: number; enabled: boolean }>({ x: 0, y: 0, enabled: false });
   const recentUpdateClearTimerRef = useRef<number | null>(null);
   const priceChangeClearTimerRef = useRef<number | null>(null);
   const announcedGoalIdsRef = useRef<Set<string>>(new Set());
-  const tradesRef = useRef<Trade[]>(trades);
-  const goalsRef = useRef<Goal[]>(goals);
-  const lastSyncedCloudSnapshotRef = useRef('');
 
   const currencyFormatter = useMemo(() => buildCurrencyFormatter(currency), [currency]);
 
@@ -1183,10 +1222,57 @@ export default function App() {
     }
     return formatTimeAgo(lastRefreshTime);
   }, [lastRefreshTime, refreshTick]);
+  const alertSymbols = useMemo(() => activeAlertSymbols(priceAlerts), [priceAlerts]);
+  const activeAlertCount = useMemo(() => priceAlerts.filter(isAlertActive).length, [priceAlerts]);
+  // Market hours follow the exchanges of open positions and active alerts, falling back to NSE when there are none.
+  // A symbol the price provider has not placed yet counts as trading, so it gets quoted and its exchange reported.
+  const { hasUnplacedSymbol, trackedExchanges } = useMemo(() => {
+    const symbolExchanges = [
+      ...trades.filter((trade) => getRemainingQuantity(trade) > 0).map((trade) => trade.symbol),
+      ...alertSymbols,
+    ].map(exchangeForSymbol);
+    const exchanges = new Set(symbolExchanges.filter((exchange) => exchange !== null));
+    return {
+      hasUnplacedSymbol: symbolExchanges.includes(null),
+      trackedExchanges: exchanges.size > 0 ? Array.from(exchanges) : ['NSE' as ExchangeCode],
+    };
+  }, [alertSymbols, trades]);
   const isMarketOpenNow = useMemo(() => {
     void refreshTick;
-    return isNSEMarketOpen();
-  }, [refreshTick]);
+    return hasUnplacedSymbol || trackedExchanges.some((exchange) => isExchangeOpen(exchange));
+  }, [hasUnplacedSymbol, refreshTick, trackedExchanges]);
+  const nextMarketOpenLabel = useMemo(() => {
+    void refreshTick;
+    if (isMarketOpenNow) {
+      return null;
+    }
+    const upcoming = trackedExchanges
+      .map((exchange) => nextSessionOpen(exchange))
+      .filter((next) => next !== null)
+      .sort((a, b) => a.startsAt - b.startsAt);
+    return upcoming.length > 0 ? formatNextSessionOpen(upcoming[0]) : null;
+  }, [isMarketOpenNow, refreshTick, trackedExchanges]);
+  // Marks that came from a cached quote are aged by when the quote was fetched, manual ones by when they were set.
+  const markAgeByTradeId = useMemo(() => {
+    void refreshTick;
+    void quoteCacheVersion;
+    const quotes = quoteCache.list();
+    const ages: Record<string, { label: string; isStale: boolean }> = {};
+    trades.forEach((trade) => {
+      if (trade.status !== 'open' || trade.markPrice == null) {
+        return;
+      }
+      const quote = quotes[trade.symbol.trim().toUpperCase()];
+      if (quote && Math.abs(roundTo2(quote.price) - trade.markPrice) < 0.000001) {
+        ages[trade.id] = { label: formatTimeAgo(new Date(quote.fetchedAt)), isStale: !isQuoteFresh(trade.symbol, quote) };
+        return;
+      }
+      if (trade.markPriceUpdatedAt) {
+        ages[trade.id] = { label: formatTimeAgo(new Date(trade.markPriceUpdatedAt)), isStale: false };
+      }
+    });
+    return ages;
+  }, [quoteCacheVersion, refreshTick, trades]);
 
   const dismissContextTip = (tip: ContextTipKey) => {
     setDismissedContextTips((prev) => ({ ...prev, [tip]: true }));
@@ -1248,6 +1334,17 @@ export default function App() {
     return () => window.clearInterval(timer);
   }, []);
 
+  useEffect(() => {
+    const purgeTombstones = () => {
+      const cutoffIso = tombstoneCutoffIso();
+      tradeRepo.purgeDeletedTrades(cutoffIso);
+      goalRepo.purgeDeletedGoals(cutoffIso);
+    };
+    purgeTombstones();
+    const timer = window.setInterval(purgeTombstones, 60 * 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, [tradeRepo, goalRepo]);
+
   useEffect(() => {
     let isMounted = true;
 
@@ -1262,8 +1359,6 @@ export default function App() {
         applyAccountMetadata(user);
         setAuthNotice(`Signed in as ${user.email ?? 'account user'}.`);
       } else {
-        setHasHydratedCloudData(false);
-        lastSyncedCloudSnapshotRef.current = '';
         setAuthNotice('Not signed in. Settings are saved locally on this device.');
       }
       setIsAuthReady(true);
@@ -1283,8 +1378,6 @@ export default function App() {
         applyAccountMetadata(user);
         setAuthNotice(`Signed in as ${user.email ?? 'account user'}.`);
       } else {
-        setHasHydratedCloudData(false);
-        lastSyncedCloudSnapshotRef.current = '';
         setAuthNotice('Signed out. Settings stay local on this device.');
       }
       setIsAuthReady(true);
@@ -1308,12 +1401,10 @@ export default function App() {
   }, []);
 
   useEffect(() => {
-    tradesRef.current = trades;
-  }, [trades]);
-
-  useEffect(() => {
-    goalsRef.current = goals;
-  }, [goals]);
+    const onVisibilityChange = () => setIsTabVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, []);
 
   useEffect(() => {
     const tick = window.setInterval(() => setRefreshTick((value) => value + 1), 30_000);
@@ -1532,66 +1623,88 @@ export default function App() {
   }, [activeContextTip]);
 
   useEffect(() => {
-    if (!accountUser || !isAuthReady) {
+    if (!(tradeRepo instanceof SupabaseTradeRepository) || !(goalRepo instanceof SupabaseGoalRepository)) {
+      return;
+    }
+    const stopTradeSync = tradeRepo.startBackgroundSync();
+    const stopGoalSync = goalRepo.startBackgroundSync();
+    return () => {
+      stopTradeSync();
+      stopGoalSync();
+    };
+  }, [goalRepo, tradeRepo]);
+
+  // Open trade forms keep their own copy of the trade, so live updates never overwrite in-progress edits.
+  useEffect(() => {
+    if (!isAuthReady || !(tradeRepo instanceof SupabaseTradeRepository) || !(goalRepo instanceof SupabaseGoalRepository)) {
+      return;
+    }
+    let clearTimer: number | null = null;
+    const stopTradeChanges = tradeRepo.subscribeToRemoteChanges(({ trades: next, updatedIds }) => {
+      setTrades(next);
+      setRemoteUpdatedTradeIds((current) => [...new Set([...current, ...updatedIds])]);
+      if (clearTimer !== null) {
+        window.clearTimeout(clearTimer);
+      }
+      clearTimer = window.setTimeout(() => {
+        setRemoteUpdatedTradeIds([]);
+        clearTimer = null;
+      }, 8000);
+    });
+    const stopGoalChanges = goalRepo.subscribeToRemoteChanges(setGoals);
+    return () => {
+      stopTradeChanges();
+      stopGoalChanges();
+      if (clearTimer !== null) {
+        window.clearTimeout(clearTimer);
+      }
+    };
+  }, [goalRepo, isAuthReady, tradeRepo]);
+
+  // Re-runs on reconnect so edits made elsewhere while offline are pulled before queued writes replay.
+  useEffect(() => {
+    if (!accountUserId || !isAuthReady || !isOnline) {
+      return;
+    }
+    if (!(tradeRepo instanceof SupabaseTradeRepository) || !(goalRepo instanceof SupabaseGoalRepository)) {
       return;
     }
 
     let isCurrent = true;
     const hydrateCloudData = async () => {
       setIsSyncingCloudData(true);
-      const { data, error } = await supabase
-        .from(CLOUD_TRADING_DATA_TABLE)
-        .select('user_id,trades,goals,updated_at')
-        .eq('user_id', accountUser.id)
-        .maybeSingle<CloudTradingDataRow>();
+      const legacy = await fetchLegacyTradingData(accountUserId);
+      const [tradeResult, goalResult] = await Promise.all([tradeRepo.hydrate(legacy?.trades), goalRepo.hydrate(legacy?.goals)]);
 
       if (!isCurrent) {
         return;
       }
 
+      const error = tradeResult.error ?? goalResult.error;
       if (error) {
         if (error.code === '42P01') {
-          setAuthNotice('Signed in, but cloud table is missing. Create user_trading_data table to sync trades.');
+          setAuthNotice('Signed in, but cloud tables are missing. Run supabase/trading_journal_tables.sql to sync trades.');
         } else {
           setAuthNotice(`Signed in, but cloud data sync failed: ${error.message}`);
         }
-        setHasHydratedCloudData(true);
         setIsSyncingCloudData(false);
         return;
       }
 
-      const remoteTrades = parseCloudTrades(data?.trades);
-      const remoteGoals = parseCloudGoals(data?.goals);
-      const localTrades = tradesRef.current;
-      const localGoals = goalsRef.current;
-      const mergedTrades = mergeTradesByLatest(localTrades, remoteTrades);
-      const mergedGoals = mergeGoalsByLatest(localGoals, remoteGoals);
-
-      tradeRepo.saveTrades(mergedTrades);
-      setTrades(mergedTrades);
-      try {
-        localStorage.setItem(GOALS_STORAGE_KEY, JSON.stringify(mergedGoals));
-      } catch {
-        // Ignore localStorage write errors.
+      setTrades(tradeResult.trades);
+      setGoals(goalResult.goals);
+      if (tradeRepo.listConflicts().length > 0) {
+        setShowSyncConflicts(true);
       }
-      setGoals(mergedGoals);
 
-      const snapshot = JSON.stringify({ trades: mergedTrades, goals: mergedGoals });
-      lastSyncedCloudSnapshotRef.current = snapshot;
-      setHasHydratedCloudData(true);
+      const [tradesPushed, goalsPushed] = await Promise.all([tradeRepo.flush(), goalRepo.flush()]);
+      if (!isCurrent) {
+        return;
+      }
       setIsSyncingCloudData(false);
-
-      const { error: upsertError } = await supabase.from(CLOUD_TRADING_DATA_TABLE).upsert(
-        {
-          user_id: accountUser.id,
-          trades: mergedTrades,
-          goals: mergedGoals,
-          updated_at: new Date().toISOString(),
-        },
-        { onConflict: 'user_id' }
-      );
-      if (upsertError && isCurrent) {
-        setAuthNotice(`Signed in, but cloud write failed: ${upsertError.message}`);
+      // The legacy blob is only retired once every migrated row has reached the new tables.
+      if (legacy && tradesPushed && goalsPushed) {
+        await markLegacyTradingDataMigrated(accountUserId);
       }
     };
 
@@ -1600,48 +1713,7 @@ export default function App() {
     return () => {
       isCurrent = false;
     };
-  }, [accountUser?.id, isAuthReady, tradeRepo]);
-
-  useEffect(() => {
-    if (!accountUser || !isAuthReady || !hasHydratedCloudData) {
-      return;
-    }
-
-    const snapshot = JSON.stringify({ trades, goals });
-    if (snapshot === lastSyncedCloudSnapshotRef.current) {
-      return;
-    }
-
-    let isCurrent = true;
-    const timer = window.setTimeout(async () => {
-      setIsSyncingCloudData(true);
-      const { error } = await supabase.from(CLOUD_TRADING_DATA_TABLE).upsert(
-        {
-          user_id: accountUser.id,
-          trades,
-          goals,
-          updated_at: new Date().toISOString(),
-        },
-        { onConflict: 'user_id' }
-      );
-
-      if (!isCurrent) {
-        return;
-      }
-
-      if (error) {
-        setAuthNotice(`Signed in, but cloud data sync failed: ${error.message}`);
-      } else {
-        lastSyncedCloudSnapshotRef.current = snapshot;
-      }
-      setIsSyncingCloudData(false);
-    }, 1200);
-
-    return () => {
-      isCurrent = false;
-      window.clearTimeout(timer);
-    };
-  }, [accountUser?.id, goals, hasHydratedCloudData, isAuthReady, trades]);
+  }, [accountUserId, goalRepo, isAuthReady, isOnline, tradeRepo]);
 
   useEffect(() => {
     if (!accountUser || !isAuthReady) {
@@ -1697,7 +1769,6 @@ export default function App() {
     if (!accountUser) {
       setIsSyncingSettings(false);
       setIsSyncingCloudData(false);
-      setHasHydratedCloudData(false);
     }
   }, [accountUser]);
 
@@ -1764,8 +1835,7 @@ export default function App() {
   };
 
   const performDeleteTrade = (id: string) => {
-    const deleted = trades.find((trade) => trade.id === id);
-    if (!deleted) {
+    if (!trades.some((trade) => trade.id === id)) {
       return;
     }
     const next = tradeRepo.deleteTrade(id);
@@ -1775,9 +1845,7 @@ export default function App() {
       action: {
         label: 'Undo',
         onClick: () => {
-          const restored = [deleted, ...next];
-          tradeRepo.saveTrades(restored);
-          setTrades(restored);
+          setTrades(tradeRepo.restoreTrade(id));
           toast.success('Trade Restored');
         },
       },
@@ -1787,7 +1855,7 @@ export default function App() {
   const delTrade = (id: string) => {
     if (confirmDelete) {
       toast('Delete this trade?', {
-        description: 'This action cannot be undone.',
+        description: `You can restore it from Recently Deleted for ${TOMBSTONE_RETENTION_DAYS} days.`,
         duration: 6000,
         action: {
           label: 'Delete',
@@ -1813,6 +1881,13 @@ export default function App() {
     pushToast('success', 'Exit Saved', 'Exit leg saved successfully.');
   };
 
+  const addEntry = (id: string, leg: AddEntryLegInput) => {
+    const next = tradeRepo.addEntryLeg(id, leg);
+    setTrades(next);
+    setAddToPositionTrade(null);
+    pushToast('success', 'Position Increased', 'Entry leg saved successfully.');
+  };
+
   const saveMark = (id: string, mark: number | undefined) => {
     const next = tradeRepo.updateMarkPrice(id, mark);
     setTrades(next);
@@ -1821,6 +1896,48 @@ export default function App() {
     pushToast('info', mark == null ? 'Mark Price Cleared' : 'Mark Price Updated');
   };
 
+  // Alerts are read back from storage so one already fired by another tab is not raised again.
+  const checkPriceAlerts = useCallback((pricesBySymbol: Record<string, number>) => {
+    const alerts = alertRepo.listAlerts();
+    const referenceUpdates = levelAlertReferenceUpdates(alerts, pricesBySymbol);
+    if (referenceUpdates.length > 0) {
+      setPriceAlerts(alertRepo.updateReferencePrices(referenceUpdates));
+    }
+    const triggers = evaluateAlerts(alerts, pricesBySymbol, tradeRepo.listTrades());
+    if (triggers.length === 0) {
+      return;
+    }
+    setPriceAlerts(alertRepo.markTriggered(triggers.map((trigger) => ({ alertId: trigger.alert.id, price: trigger.price }))));
+    triggers.forEach((trigger) => {
+      pushToast('warning', 'Price Alert', trigger.message);
+      showAlertNotification(trigger.alert.id, 'Price Alert', trigger.message);
+    });
+  }, [alertRepo, pushToast, tradeRepo]);
+
+  const flashPriceChanges = useCallback((priceChanges: Record<string, PriceChange>) => {
+    const updatedTradeIds = Object.keys(priceChanges);
+    if (updatedTradeIds.length === 0) {
+      return;
+    }
+    setRecentlyUpdatedTradeIds(updatedTradeIds);
+    if (recentUpdateClearTimerRef.current != null) {
+      window.clearTimeout(recentUpdateClearTimerRef.current);
+    }
+    recentUpdateClearTimerRef.current = window.setTimeout(() => {
+      setRecentlyUpdatedTradeIds([]);
+      recentUpdateClearTimerRef.current = null;
+    }, 2000);
+
+    setPriceChangesByTradeId(priceChanges);
+    if (priceChangeClearTimerRef.current != null) {
+      window.clearTimeout(priceChangeClearTimerRef.current);
+    }
+    priceChangeClearTimerRef.current = window.setTimeout(() => {
+      setPriceChangesByTradeId({});
+      priceChangeClearTimerRef.current = null;
+    }, 5000);
+  }, []);
+
   const refreshMarks = useCallback(async (options?: { silentIfNoOpen?: boolean }): Promise<RefreshResult | null> => {
     if (refreshInFlightRef.current) {
       return null;
@@ -1834,12 +1951,18 @@ export default function App() {
       return null;
     }
 
-    const openTrades = trades.filter((trade) => getRemainingQuantity(trade) > 0);
+    const today = localIsoDate(new Date());
+    const openTrades = trades.filter((trade) => getRemainingQuantity(trade) > 0 && !isDerivative(trade.instrument));
+    const expiredOptions = trades.filter(
+      (trade) => getRemainingQuantity(trade) > 0 && isOptionExpired(trade.instrument, today)
+    );
     const symbols = Array.from(
-      new Set(openTrades.map((trade) => trade.symbol.trim().toUpperCase()).filter(Boolean))
+      new Set(
+        [...openTrades.map((trade) => trade.symbol.trim().toUpperCase()), ...alertSymbols].filter(Boolean)
+      )
     );
 
-    if (symbols.length === 0) {
+    if (symbols.length === 0 && expiredOptions.length === 0) {
       if (!options?.silentIfNoOpen) {
         pushToast('info', 'No Open Positions', 'No open trades available for mark refresh.');
       }
@@ -1871,30 +1994,18 @@ export default function App() {
         setRefreshProgress(Math.round(((index + 1) / symbols.length) * 100));
       });
 
-      const priceChanges: Record<string, PriceChange> = {};
-      const updatedTradeIds: string[] = [];
-      openTrades.forEach((trade) => {
-        const nextMark = pricesBySymbol[trade.symbol.toUpperCase()];
-        if (!Number.isFinite(nextMark) || nextMark <= 0) {
-          return;
-        }
-        const oldMark = trade.markPrice ?? trade.entryPrice;
-        const change = roundTo2(nextMark - oldMark);
-        if (Math.abs(change) < 0.000001) {
-          return;
-        }
-        updatedTradeIds.push(trade.id);
-        const changePercent = oldMark > 0 ? roundTo2((change / oldMark) * 100) : 0;
-        priceChanges[trade.id] = {
-          oldMark,
-          newMark: nextMark,
-          change,
-          changePercent,
-        };
-      });
+      const priceChanges = collectPriceChanges(openTrades, pricesBySymbol);
+      const updatedTradeIds = Object.keys(priceChanges);
 
-      const next = tradeRepo.updateOpenTradeMarks(pricesBySymbol);
+      const marked = tradeRepo.updateOpenTradeMarks(pricesBySymbol);
+      const next = expiredOptions.length > 0 ? tradeRepo.settleExpiredOptions(await fetchExpiryCloses(expiredOptions), today) : marked;
       setTrades(next);
+      const settledCount = expiredOptions.filter(
+        (trade) => next.find((item) => item.id === trade.id)?.status === 'closed'
+      ).length;
+      if (settledCount > 0) {
+        pushToast('info', 'Expired Options Settled', `${settledCount} position(s) closed at intrinsic value.`);
+      }
       setManageTrade((current) => {
         if (!current) {
           return current;
@@ -1904,30 +2015,11 @@ export default function App() {
       });
       setLastRefreshTime(new Date());
 
-      if (updatedTradeIds.length > 0) {
-        setRecentlyUpdatedTradeIds(updatedTradeIds);
-        if (recentUpdateClearTimerRef.current != null) {
-          window.clearTimeout(recentUpdateClearTimerRef.current);
-        }
-        recentUpdateClearTimerRef.current = window.setTimeout(() => {
-          setRecentlyUpdatedTradeIds([]);
-          recentUpdateClearTimerRef.current = null;
-        }, 2000);
-      }
-
-      if (Object.keys(priceChanges).length > 0) {
-        setPriceChangesByTradeId(priceChanges);
-        if (priceChangeClearTimerRef.current != null) {
-          window.clearTimeout(priceChangeClearTimerRef.current);
-        }
-        priceChangeClearTimerRef.current = window.setTimeout(() => {
-          setPriceChangesByTradeId({});
-          priceChangeClearTimerRef.current = null;
-        }, 5000);
-      }
+      flashPriceChanges(priceChanges);
+      checkPriceAlerts(pricesBySymbol);
 
       const refreshedCount = Object.keys(pricesBySymbol).length;
-      if (refreshedCount === 0 && !options?.silentIfNoOpen) {
+      if (refreshedCount === 0 && settledCount === 0 && !options?.silentIfNoOpen) {
         toast.error('Couldn\'t Refresh Prices', {
           id: refreshToastIdRef.current ?? undefined,
           description: 'No symbol quotes were returned.',
@@ -1957,7 +2049,7 @@ export default function App() {
       setIsPulling(false);
       setPullDistance(0);
     }
-  }, [isOnline, pricingService, pushToast, tradeRepo, trades]);
+  }, [alertSymbols, checkPriceAlerts, flashPriceChanges, isOnline, pricingService, pushToast, tradeRepo, trades]);
 
   const handleRefreshClick = useCallback(() => {
     if (!hasSeenPriceDisclaimer) {
@@ -1970,7 +2062,7 @@ export default function App() {
 
   const handleDisclaimerAccept = useCallback(() => {
     try {
-      localStorage.setItem('hasSeenPriceDisclaimer', 'true');
+      localStorage.setItem(PRICE_DISCLAIMER_SEEN_STORAGE_KEY, 'true');
     } catch {
       // Ignore localStorage errors.
     }
@@ -1982,6 +2074,72 @@ export default function App() {
     }
   }, [pendingRefresh, refreshMarks]);
 
+  const streamSymbolsKey = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          [
+            ...trades
+              .filter((trade) => getRemainingQuantity(trade) > 0 && !isDerivative(trade.instrument))
+              .map((trade) => trade.symbol.trim().toUpperCase()),
+            ...alertSymbols,
+          ].filter(Boolean)
+        )
+      )
+        .sort()
+        .join(','),
+    [alertSymbols, trades]
+  );
+
+  const applyStreamedMarks = useCallback((pricesBySymbol: Record<string, number>) => {
+    const rounded: Record<string, number> = {};
+    Object.entries(pricesBySymbol).forEach(([symbol, price]) => {
+      rounded[symbol] = roundTo2(price);
+    });
+    const openTrades = tradeRepo
+      .listTrades()
+      .filter((trade) => getRemainingQuantity(trade) > 0 && !isDerivative(trade.instrument));
+    const priceChanges = collectPriceChanges(openTrades, rounded);
+    if (Object.keys(priceChanges).length === 0) {
+      checkPriceAlerts(rounded);
+      return;
+    }
+    const next = tradeRepo.updateOpenTradeMarks(rounded);
+    setTrades(next);
+    setManageTrade((current) => {
+      if (!current) {
+        return current;
+      }
+      const updated = next.find((trade) => trade.id === current.id) ?? null;
+      return updated?.status === 'open' ? updated : null;
+    });
+    setLastRefreshTime(new Date());
+    flashPriceChanges(priceChanges);
+    checkPriceAlerts(rounded);
+  }, [checkPriceAlerts, flashPriceChanges, tradeRepo]);
+
+  // Live marks stream only while a position's exchange is open and this tab is in front; polling and manual refresh cover the rest.
+  useEffect(() => {
+    if (!isMarketOpenNow || !isOnline || !isTabVisible || !streamSymbolsKey) {
+      return;
+    }
+    return subscribeToQuotes(streamSymbolsKey.split(','), applyStreamedMarks);
+  }, [applyStreamedMarks, isMarketOpenNow, isOnline, isTabVisible, streamSymbolsKey]);
+
+  // Another tab refreshed quotes: show its marks here without refetching.
+  useEffect(() => quoteCache.subscribe(() => {
+    setQuoteCacheVersion((value) => value + 1);
+    const freshPrices: Record<string, number> = {};
+    Object.entries(quoteCache.list()).forEach(([symbol, quote]) => {
+      if (isQuoteFresh(symbol, quote)) {
+        freshPrices[symbol] = roundTo2(quote.price);
+      }
+    });
+    if (Object.keys(freshPrices).length > 0) {
+      setTrades(tradeRepo.updateOpenTradeMarks(freshPrices));
+    }
+  }), [tradeRepo]);
+
   useEffect(() => {
     if (!autoRefreshMarks || hasDoneInitialAutoRefresh || !isOnline) {
       return;
@@ -1995,7 +2153,7 @@ export default function App() {
       return;
     }
     const hasOpenTrades = trades.some((trade) => trade.status === 'open');
-    if (!hasOpenTrades) {
+    if (!hasOpenTrades && alertSymbols.length === 0) {
       return;
     }
 
@@ -2003,11 +2161,51 @@ export default function App() {
       if (refreshInFlightRef.current) {
         return;
       }
+      // Outside trading hours quotes do not move; one more refresh right after the close picks up closing prices.
+      const now = Date.now();
+      const isTradingWindow = hasUnplacedSymbol || trackedExchanges.some(
+        (exchange) => isExchangeOpen(exchange, new Date(now)) || isExchangeOpen(exchange, new Date(now - AUTO_REFRESH_INTERVAL_MS))
+      );
+      if (!isTradingWindow) {
+        return;
+      }
       void refreshMarks({ silentIfNoOpen: true });
-    }, 5 * 60 * 1000);
+    }, AUTO_REFRESH_INTERVAL_MS);
 
     return () => window.clearInterval(intervalId);
-  }, [autoRefreshMarks, isOnline, refreshMarks, trades]);
+  }, [alertSymbols, autoRefreshMarks, hasUnplacedSymbol, isOnline, refreshMarks, trackedExchanges, trades]);
+
+  // Closed trades are measured against daily history once, a batch at a time, while Insights is open.
+  useEffect(() => {
+    if (tab !== 'insights' || !isOnline || isMeasuringExcursions) {
+      return;
+    }
+    const batch = trades
+      .filter((trade) => needsExcursion(trade) && !excursionAttemptedRef.current.has(trade.id))
+      .slice(0, EXCURSION_BATCH_SIZE);
+    if (batch.length === 0) {
+      return;
+    }
+
+    const measure = async () => {
+      setIsMeasuringExcursions(true);
+      const excursions: Record<string, TradeExcursion> = {};
+      for (const trade of batch) {
+        excursionAttemptedRef.current.add(trade.id);
+        const request = excursionHistoryRequest(trade);
+        const bars = await priceHistoryService.fetchBars(trade.symbol, request.from, request.to, request.interval);
+        const excursion = bars ? calculateExcursion(trade, bars) : null;
+        if (excursion) {
+          excursions[trade.id] = excursion;
+        }
+      }
+      if (Object.keys(excursions).length > 0) {
+        setTrades(tradeRepo.updateExcursions(excursions));
+      }
+      setIsMeasuringExcursions(false);
+    };
+    void measure();
+  }, [isMeasuringExcursions, isOnline, tab, tradeRepo, trades]);
 
   const signInWithGoogle = async () => {
     setIsSigningInWithGoogle(true);
@@ -2070,11 +2268,107 @@ export default function App() {
     }
   };
 
+  const handleImportTrades = (drafts: ImportTradeInput[]) => {
+    const previousCount = trades.length;
+    const updated = tradeRepo.importTrades(drafts);
+    const importedCount = updated.length - previousCount;
+    if (importedCount <= 0) {
+      pushToast('error', 'Import failed', 'No valid trades were found in the selected rows.');
+      return;
+    }
+    setTrades(updated);
+    setShowImportModal(false);
+    pushToast('success', 'Trades Imported', `${importedCount} ${importedCount === 1 ? 'trade' : 'trades'} added from CSV`);
+  };
+
+  const handleDownloadBackup = () => {
+    try {
+      const backup = createBackup(tradeRepo, goalRepo, alertRepo);
+      downloadBackup(backup);
+      pushToast('success', 'Backup Downloaded', `${backup.trades.length} trades and ${backup.goals.length} goals saved`);
+    } catch {
+      pushToast('error', 'Backup failed', 'Could not generate backup file.');
+    }
+  };
+
+  const handleRestoreBackup = (backup: JournalBackup, mode: RestoreMode) => {
+    try {
+      const restored = restoreBackup(backup, mode, tradeRepo, goalRepo, alertRepo);
+      setTrades(restored.trades);
+      setGoals(restored.goals);
+      setPriceAlerts(restored.alerts);
+      setCurrency(getInitialCurrency());
+      setPortfolioValue(getInitialPortfolioValue());
+      setPortfolioValueInput(getInitialPortfolioValue().toFixed(2));
+      setConfirmDelete(getInitialBoolean(CONFIRM_DELETE_STORAGE_KEY, true));
+      setAutoRefreshMarks(getInitialBoolean(AUTO_REFRESH_MARKS_STORAGE_KEY, false));
+      setUseUnrealized(getInitialBoolean(ANALYTICS_UNREALIZED_STORAGE_KEY, true));
+      setShowRestoreModal(false);
+      pushToast('success', 'Backup Restored', `${restored.trades.length} trades and ${restored.goals.length} goals on this device`);
+    } catch {
+      pushToast('error', 'Restore failed', 'Could not write the backup to this device.');
+    }
+  };
+
+  const handleResolveSyncConflict = (tradeId: string, choices: Partial<Record<TradeConflictField, ConflictSide>>) => {
+    if (!(tradeRepo instanceof SupabaseTradeRepository)) {
+      return;
+    }
+    setTrades(tradeRepo.resolveConflict(tradeId, choices));
+    pushToast('success', 'Conflict Resolved');
+  };
+
+  const openRecentlyDeleted = () => {
+    setRecentlyDeleted({ trades: tradeRepo.listDeletedTrades(), goals: goalRepo.listDeletedGoals() });
+  };
+
+  const handleRestoreDeletedTrade = (tradeId: string) => {
+    setTrades(tradeRepo.restoreTrade(tradeId));
+    openRecentlyDeleted();
+    pushToast('success', 'Trade Restored');
+  };
+
+  const handleRestoreDeletedGoal = (goalId: string) => {
+    setGoals(goalRepo.restoreGoal(goalId));
+    openRecentlyDeleted();
+    pushToast('success', 'Goal Restored');
+  };
+
+  // Above/below alerts without a price yet take the first quote seen as their reference.
+  const handleCreatePriceAlert = async (input: CreatePriceAlertInput) => {
+    let referencePrice = input.referencePrice;
+    if (!TRADE_ONLY_ALERT_KINDS.includes(input.kind) && referencePrice == null) {
+      const trade = input.tradeId ? trades.find((item) => item.id === input.tradeId) : undefined;
+      referencePrice = (await pricingService.getMarkPrice(input.symbol)) ?? trade?.markPrice;
+      if (input.kind === 'percent_move' && referencePrice == null) {
+        pushToast('error', 'Alert Not Added', `No price is available for ${input.symbol} to measure the move from.`);
+        return;
+      }
+    }
+    setPriceAlerts(alertRepo.createAlert({ ...input, referencePrice }));
+    if (
+      referencePrice != null &&
+      input.threshold != null &&
+      ((input.kind === 'price_above' && referencePrice >= input.threshold) ||
+        (input.kind === 'price_below' && referencePrice <= input.threshold))
+    ) {
+      pushToast('info', 'Alert Added', `${input.symbol} is already at ${referencePrice.toFixed(2)}; the alert fires on its next crossing.`);
+      return;
+    }
+    pushToast('success', 'Alert Added');
+  };
+
+  const handleEnableNotifications = async () => {
+    setNotificationPermission(await requestNotificationPermission());
+  };
+
   const clearAllData = () => {
-    tradeRepo.saveTrades([]);
-    setTrades([]);
-    localStorage.removeItem('goals');
-    setGoals([]);
+    setTrades(tradeRepo.deleteTrades(trades.map((trade) => trade.id)));
+    let nextGoals = goals;
+    goals.forEach((goal) => {
+      nextGoals = goalRepo.deleteGoal(goal.id);
+    });
+    setGoals(nextGoals);
     setSearch('');
     setFrom('');
     setTo('');
@@ -2087,7 +2381,7 @@ export default function App() {
   const handleClearAllData = () => {
     if (confirmDelete) {
       toast('Clear all local trade and goal data?', {
-        description: 'This cannot be undone.',
+        description: `Everything moves to Recently Deleted for ${TOMBSTONE_RETENTION_DAYS} days before it is removed.`,
         duration: 7000,
         action: {
           label: 'Clear Data',
@@ -2120,9 +2414,13 @@ export default function App() {
       date: localIsoDate(new Date()),
       symbol: source.symbol,
       direction: source.direction,
+      instrument: source.instrument,
       entryPrice: source.entryPrice,
       quantity: source.quantity,
       markPrice: source.markPrice,
+      stopLoss: source.stopLoss,
+      targetPrice: source.targetPrice,
+      initialRisk: source.initialRisk,
       setup: source.setup,
       emotion: source.emotion,
       notes: source.notes,
@@ -2196,18 +2494,13 @@ export default function App() {
       return;
     }
     toast(`Delete ${selectedTrades.length} selected trade${selectedTrades.length === 1 ? '' : 's'}?`, {
-      description: 'This action cannot be undone.',
+      description: `You can restore them from Recently Deleted for ${TOMBSTONE_RETENTION_DAYS} days.`,
       duration: 7000,
       action: {
         label: 'Delete',
         onClick: () => {
           haptic('medium');
-          let next = trades;
-          selectedTrades.forEach((id) => {
-            next = next.filter((trade) => trade.id !== id);
-          });
-          tradeRepo.saveTrades(next);
-          setTrades(next);
+          setTrades(tradeRepo.deleteTrades(selectedTrades));
           setSelectedTrades([]);
           setBulkSelectMode(false);
           pushToast('success', 'Trades Deleted', `${selectedTrades.length} trade${selectedTrades.length === 1 ? '' : 's'} removed.`);
@@ -2528,6 +2821,11 @@ export default function App() {
       if (event.key === 'Escape') {
         setShowForm(false);
         setManageTrade(null);
+        setAddToPositionTrade(null);
+        setShowImportModal(false);
+        setShowRestoreModal(false);
+        setRecentlyDeleted(null);
+        setShowSyncConflicts(false);
         setShowShortcuts(false);
         return;
       }
@@ -2551,7 +2849,17 @@ export default function App() {
     return () => window.removeEventListener('keydown', onKeyDown);
   }, [filteredTrades, handleExportTrades, handleRefreshClick]);
 
-  const analytics = useMemo(() => buildAnalyticsSummary(trades, useUnrealized), [trades, useUnrealized]);
+  const analytics = useMemo(
+    () => buildAnalyticsSummary(trades, useUnrealized, portfolioValue),
+    [portfolioValue, trades, useUnrealized]
+  );
+
+  const symbolPerformance = useMemo(() => buildSymbolPerformance(trades, useUnrealized), [trades, useUnrealized]);
+  const selectedSymbolSummary = selectedSymbol ? symbolPerformance.find((entry) => entry.symbol === selectedSymbol) : undefined;
+  const selectedSymbolTrades = useMemo(
+    () => (selectedSymbol ? trades.filter((trade) => trade.symbol.trim().toUpperCase() === selectedSymbol) : []),
+    [selectedSymbol, trades]
+  );
 
   const lineData = useMemo(() => {
     return [...trades]
@@ -2564,6 +2872,12 @@ export default function App() {
         return acc;
       }, []);
   }, [trades]);
+  const drawdownAnalysis = useMemo(
+    () => buildDrawdownAnalysis(trades, portfolioValue, useUnrealized),
+    [portfolioValue, trades, useUnrealized]
+  );
+  const excursionPoints = useMemo(() => buildExcursionPoints(trades), [trades]);
+  const pendingExcursionCount = useMemo(() => trades.filter(needsExcursion).length, [trades]);
   const pnlSparkline = useMemo(
     () => lineData.slice(-18).map((item) => ({ date: item.date, pnl: item.provisional })),
     [lineData]
@@ -2663,6 +2977,7 @@ export default function App() {
       {!isOnline ? (
         <div className="bg-[var(--negative)] px-4 py-2 text-center text-sm font-medium text-white">
           {'\u26A0\uFE0F'} No internet connection - Price updates unavailable
+          {pendingCloudWrites > 0 ? ` - ${pendingCloudWrites} change${pendingCloudWrites === 1 ? '' : 's'} will sync when you reconnect` : ''}
         </div>
       ) : null}
       <div className="mx-auto max-w-7xl space-y-4 px-4 py-4">
@@ -2915,6 +3230,20 @@ export default function App() {
                 />
               )}
 
+              {trades.length > 0 ? (
+                <PnlCalendar
+                  trades={trades}
+                  includeUnrealized={useUnrealized}
+                  formatCurrency={formatCurrency}
+                  onSelectDate={(date) => {
+                    setFrom(date);
+                    setTo(date);
+                    setFlt('all');
+                    setTab('trades');
+                  }}
+                />
+              ) : null}
+
               {reminders.length > 0 ? (
                 <div className="space-y-2">
                   {reminders.map((reminder) => (
@@ -3179,7 +3508,11 @@ export default function App() {
                   </div>
                 </div>
                 <div className="flex flex-wrap items-center gap-2">
-                  {!isMarketOpenNow ? <span className="text-xs text-[var(--muted)]">Market closed • Prices may be stale</span> : null}
+                  {!isMarketOpenNow ? (
+                    <span className="text-xs text-[var(--muted)]">
+                      Market closed{nextMarketOpenLabel ? ` • ${nextMarketOpenLabel}` : ''} • Prices may be stale
+                    </span>
+                  ) : null}
                   <button
                     type="button"
                     onClick={handleRefreshClick}
@@ -3190,6 +3523,14 @@ export default function App() {
                     <RefreshCw size={13} className={`mr-1 inline ${isRefreshingMarks ? 'animate-spin' : ''}`} />
                     {isRefreshingMarks ? 'Refreshing...' : 'Refresh Marks'}
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowPriceAlerts(true)}
+                    title="Price alerts"
+                    className="min-h-11 rounded-lg border border-[var(--border)] bg-[var(--surface)] px-2.5 py-1.5 text-xs"
+                  >
+                    <Bell size={13} className="mr-1 inline" /> Alerts{activeAlertCount > 0 ? ` (${activeAlertCount})` : ''}
+                  </button>
                   <button
                     type="button"
                     onClick={() => handleExportTrades(filteredTrades)}
@@ -3273,8 +3614,8 @@ export default function App() {
               ) : tradeViewMode === 'compact' ? (
                 <div className="overflow-hidden rounded-xl border border-[var(--border)] bg-[var(--surface-2)] shadow-[var(--shadow-card)]">
                   <div className="overflow-x-auto">
-                    <div className="min-w-[900px]">
-                      <div className={`grid ${bulkSelectMode ? 'grid-cols-[44px_92px_72px_62px_92px_70px_120px_100px_132px]' : 'grid-cols-[92px_72px_62px_92px_70px_120px_100px_132px]'} gap-2 border-b border-[var(--border)] px-2 py-2`}>
+                    <div className="min-w-[950px]">
+                      <div className={`grid ${bulkSelectMode ? 'grid-cols-[44px_92px_72px_62px_92px_70px_120px_100px_180px]' : 'grid-cols-[92px_72px_62px_92px_70px_120px_100px_180px]'} gap-2 border-b border-[var(--border)] px-2 py-2`}>
                         {bulkSelectMode ? <p className="ui-label">Select</p> : null}
                         <p className="ui-label">Symbol</p>
                         <p className="ui-label">Status</p>
@@ -3282,7 +3623,7 @@ export default function App() {
                         <p className="ui-label">Entry</p>
                         <p className="ui-label">Qty</p>
                         <p className="ui-label">P&amp;L</p>
-                        <p className="ui-label">% / Delta</p>
+                        <p className="ui-label">% / R / Delta</p>
                         <p className="ui-label text-right">Actions</p>
                       </div>
                       {filteredTrades.map((trade) => {
@@ -3290,7 +3631,7 @@ export default function App() {
                         return (
                           <div
                             key={trade.id}
-                            className={`grid ${bulkSelectMode ? 'grid-cols-[44px_92px_72px_62px_92px_70px_120px_100px_132px]' : 'grid-cols-[92px_72px_62px_92px_70px_120px_100px_132px]'} items-center gap-2 border-b border-[var(--border)] px-2 py-1.5 last:border-b-0 ${
+                            className={`grid ${bulkSelectMode ? 'grid-cols-[44px_92px_72px_62px_92px_70px_120px_100px_180px]' : 'grid-cols-[92px_72px_62px_92px_70px_120px_100px_180px]'} items-center gap-2 border-b border-[var(--border)] px-2 py-1.5 last:border-b-0 ${
                               trade.totalPnl >= 0 ? 'border-l-2 border-l-[var(--positive)]' : 'border-l-2 border-l-[var(--negative)]'
                             } ${recentlyUpdatedTradeIds.includes(trade.id) ? 'pulse-update' : ''}`}
                           >
@@ -3316,6 +3657,9 @@ export default function App() {
                             <p className={`text-secondary-sm text-numeric ${pnlClass(trade.totalPnl)}`}>{pnl(trade.totalPnl)}</p>
                             <div>
                               <p className={`text-tertiary-sm text-numeric ${pnlClass(trade.totalPnl)}`}>{trade.totalPnlPercent.toFixed(2)}%</p>
+                              {trade.totalR != null ? (
+                                <p className={`text-tertiary-sm text-numeric ${pnlClass(trade.totalR)}`}>{formatR(trade.totalR)}</p>
+                              ) : null}
                               {priceChange ? (
                                 <p className={`text-tertiary-sm text-numeric ${priceChange.change >= 0 ? 'text-[var(--positive)]' : 'text-[var(--negative)]'}`}>
                                   {priceChange.change >= 0 ? '\u2191' : '\u2193'} {formatCurrency(Math.abs(priceChange.change))} ({Math.abs(priceChange.changePercent).toFixed(2)}%)
@@ -3332,6 +3676,15 @@ export default function App() {
                                   Manage
                                 </button>
                               ) : null}
+                              {trade.status === 'open' ? (
+                                <button
+                                  type="button"
+                                  onClick={() => setAddToPositionTrade(trade)}
+                                  className="h-11 rounded-full bg-[color:rgba(52,211,153,0.16)] px-2.5 text-[10px] font-medium text-[var(--positive)] transition hover:brightness-110"
+                                >
+                                  Add
+                                </button>
+                              ) : null}
                               <button
                                 type="button"
                                 onClick={() => {
@@ -3373,7 +3726,10 @@ export default function App() {
                         setSelectedTrades((prev) => checked ? [...prev, tradeId] : prev.filter((id) => id !== tradeId));
                       }}
                       isRecentlyUpdated={recentlyUpdatedTradeIds.includes(trade.id)}
+                      isUpdatedRemotely={remoteUpdatedTradeIds.includes(trade.id)}
                       priceChange={priceChangesByTradeId[trade.id]}
+                      markAgeLabel={markAgeByTradeId[trade.id]?.label}
+                      isMarkStale={markAgeByTradeId[trade.id]?.isStale}
                       onHaptic={haptic}
                       onToggle={(tradeId) => setExpandedTradeId((prev) => (prev === tradeId ? null : tradeId))}
                       onEdit={(tradeId) => {
@@ -3399,6 +3755,15 @@ export default function App() {
                           setManageTrade(selected);
                         }
                         : undefined}
+                      onAddToPosition={trade.status === 'open'
+                        ? (tradeId) => {
+                          const selected = filteredTrades.find((item) => item.id === tradeId && item.status === 'open');
+                          if (!selected) {
+                            return;
+                          }
+                          setAddToPositionTrade(selected);
+                        }
+                        : undefined}
                     />
                   ))}
                 </div>
@@ -3473,6 +3838,74 @@ export default function App() {
                     </ResponsiveContainer>
                   </div>
 
+                  <div className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)] p-3">
+                    <p className="mb-2 text-xs uppercase text-[var(--muted)]">Equity Curve &amp; Drawdowns</p>
+                    <div className="mb-3 grid grid-cols-2 gap-2 sm:grid-cols-4">
+                      <div>
+                        <p className="text-xs text-[var(--muted)]">Max Drawdown</p>
+                        <p className={`font-semibold ${drawdownAnalysis.maxDrawdown > 0 ? 'text-[var(--negative)]' : ''}`}>
+                          {formatCurrency(-drawdownAnalysis.maxDrawdown)}
+                        </p>
+                        {portfolioValue > 0 ? <p className="text-xs text-[var(--muted)]">{drawdownAnalysis.maxDrawdownPct.toFixed(1)}% from peak</p> : null}
+                      </div>
+                      <div>
+                        <p className="text-xs text-[var(--muted)]">Current Drawdown</p>
+                        <p className={`font-semibold ${drawdownAnalysis.currentDrawdown > 0 ? 'text-[var(--negative)]' : 'text-[var(--positive)]'}`}>
+                          {drawdownAnalysis.currentDrawdown > 0 ? formatCurrency(-drawdownAnalysis.currentDrawdown) : 'At peak'}
+                        </p>
+                        {portfolioValue > 0 && drawdownAnalysis.currentDrawdown > 0 ? (
+                          <p className="text-xs text-[var(--muted)]">{drawdownAnalysis.currentDrawdownPct.toFixed(1)}% below peak</p>
+                        ) : null}
+                      </div>
+                      <div>
+                        <p className="text-xs text-[var(--muted)]">Longest Underwater</p>
+                        <p className="font-semibold">{drawdownAnalysis.longestDrawdownDays} days</p>
+                        <p className="text-xs text-[var(--muted)]">{drawdownAnalysis.periods.length} drawdown period{drawdownAnalysis.periods.length === 1 ? '' : 's'}</p>
+                      </div>
+                      <div>
+                        <p className="text-xs text-[var(--muted)]">Longest Recovery</p>
+                        <p className="font-semibold">{drawdownAnalysis.longestRecoveryDays != null ? `${drawdownAnalysis.longestRecoveryDays} days` : '—'}</p>
+                        {drawdownAnalysis.maxDrawdownPeriod ? (
+                          <p className="text-xs text-[var(--muted)]">
+                            {drawdownAnalysis.maxDrawdownPeriod.end ? `Deepest recovered ${drawdownAnalysis.maxDrawdownPeriod.end}` : 'Deepest not yet recovered'}
+                          </p>
+                        ) : null}
+                      </div>
+                    </div>
+                    <ResponsiveContainer width="100%" height={240}>
+                      <LineChart data={drawdownAnalysis.curve}>
+                        <CartesianGrid stroke={C.grid} strokeDasharray="3 3" />
+                        <XAxis dataKey="date" stroke={C.text} />
+                        <YAxis stroke={C.text} domain={['auto', 'auto']} />
+                        <Tooltip
+                          contentStyle={CHART_TOOLTIP_STYLE}
+                          labelStyle={CHART_LABEL_STYLE}
+                          itemStyle={CHART_ITEM_STYLE}
+                        />
+                        {drawdownAnalysis.periods.map((period) => (
+                          <ReferenceArea
+                            key={period.start}
+                            x1={period.start}
+                            x2={period.end ?? drawdownAnalysis.curve.at(-1)?.date}
+                            fill={C.neg}
+                            fillOpacity={0.12}
+                            strokeOpacity={0}
+                          />
+                        ))}
+                        <Line dataKey="peak" stroke={C.text} strokeDasharray="4 4" strokeWidth={1} dot={false} />
+                        <Line dataKey="equity" stroke={C.realized} strokeWidth={2} dot={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+
+                  <ExcursionScatterCard
+                    points={excursionPoints}
+                    pendingCount={pendingExcursionCount}
+                    isMeasuring={isMeasuringExcursions}
+                    isOnline={isOnline}
+                    formatCurrency={formatCurrency}
+                  />
+
                   {winRateInsight ? (
                     <InsightCard
                       {...winRateInsight}
@@ -3593,6 +4026,10 @@ export default function App() {
                     />
                   </div>
 
+                  <PerformanceStatsTable summary={analytics} hasPortfolioValue={portfolioValue > 0} formatCurrency={formatCurrency} />
+
+                  <SymbolPerformanceTable rows={symbolPerformance} formatCurrency={formatCurrency} onSelectSymbol={setSelectedSymbol} />
+
                   <div className="grid gap-3 md:grid-cols-3">
                     <div className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)] p-3">
                       <p className="text-xs text-[var(--muted)]">Best Setup (&gt;=3)</p>
@@ -3600,6 +4037,9 @@ export default function App() {
                       <p className={pnlClass(analytics.bestSetup?.pnl ?? 0)}>
                         {analytics.bestSetup ? pnl(analytics.bestSetup.pnl) : '-'}
                       </p>
+                      {analytics.bestSetup?.avgR != null ? (
+                        <p className="text-xs text-[var(--muted)]">Avg {formatR(analytics.bestSetup.avgR)} per trade</p>
+                      ) : null}
                     </div>
                     <div className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)] p-3">
                       <p className="text-xs text-[var(--muted)]">Worst Setup (&gt;=3)</p>
@@ -3607,6 +4047,9 @@ export default function App() {
                       <p className={pnlClass(analytics.worstSetup?.pnl ?? 0)}>
                         {analytics.worstSetup ? pnl(analytics.worstSetup.pnl) : '-'}
                       </p>
+                      {analytics.worstSetup?.avgR != null ? (
+                        <p className="text-xs text-[var(--muted)]">Avg {formatR(analytics.worstSetup.avgR)} per trade</p>
+                      ) : null}
                     </div>
                     <div className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)] p-3">
                       <p className="text-xs text-[var(--muted)]">Emotion Groups</p>
@@ -3616,6 +4059,29 @@ export default function App() {
                       </p>
                     </div>
                   </div>
+
+                  <div className="grid gap-3 md:grid-cols-2">
+                    <div className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)] p-3">
+                      <p className="text-xs text-[var(--muted)]">Best Setup by Avg R (&gt;=3)</p>
+                      <p className="font-semibold">{analytics.bestSetupByR?.key ?? 'N/A'}</p>
+                      <p className={pnlClass(analytics.bestSetupByR?.avgR ?? 0)}>
+                        {analytics.bestSetupByR?.avgR != null ? formatR(analytics.bestSetupByR.avgR) : '-'}
+                      </p>
+                      {analytics.bestSetupByR ? (
+                        <p className="text-xs text-[var(--muted)]">Total {formatR(analytics.bestSetupByR.totalR)} over {analytics.bestSetupByR.rTrades} trades</p>
+                      ) : null}
+                    </div>
+                    <div className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)] p-3">
+                      <p className="text-xs text-[var(--muted)]">Worst Setup by Avg R (&gt;=3)</p>
+                      <p className="font-semibold">{analytics.worstSetupByR?.key ?? 'N/A'}</p>
+                      <p className={pnlClass(analytics.worstSetupByR?.avgR ?? 0)}>
+                        {analytics.worstSetupByR?.avgR != null ? formatR(analytics.worstSetupByR.avgR) : '-'}
+                      </p>
+                      {analytics.worstSetupByR ? (
+                        <p className="text-xs text-[var(--muted)]">Total {formatR(analytics.worstSetupByR.totalR)} over {analytics.worstSetupByR.rTrades} trades</p>
+                      ) : null}
+                    </div>
+                  </div>
                 </>
               )}
             </div>
@@ -3653,6 +4119,15 @@ export default function App() {
                     {isSyncingSettings || isSyncingCloudData ? (
                       <p className="mb-2 text-xs text-[var(--accent)]">Syncing cloud data...</p>
                     ) : null}
+                    {pendingCloudWrites > 0 ? (
+                      <p className="mb-2 text-xs text-[var(--accent)]">
+                        {pendingCloudWrites} change{pendingCloudWrites === 1 ? '' : 's'} waiting to sync
+                        {!isOnline ? ' - offline' : outboxStatus?.lastFailedAt && outboxStatus.lastFailedAt > (outboxStatus.lastSyncedAt ?? '') ? ' - retrying' : ''}
+                      </p>
+                    ) : null}
+                    {outboxStatus?.lastSyncedAt ? (
+                      <p className="mb-2 text-xs text-[var(--muted)]">Last synced {formatTimeAgo(new Date(outboxStatus.lastSyncedAt))}</p>
+                    ) : null}
                     <button
                       type="button"
                       onClick={() => {
@@ -3679,6 +4154,15 @@ export default function App() {
                   </div>
                 )}
                 <p className="mt-2 text-xs text-[var(--muted)]">{authNotice}</p>
+                {activeSyncConflicts.length > 0 ? (
+                  <button
+                    type="button"
+                    onClick={() => setShowSyncConflicts(true)}
+                    className="mt-2 min-h-11 w-full rounded-lg border border-[var(--accent)] px-3 py-2 text-sm text-[var(--accent)]"
+                  >
+                    Resolve {activeSyncConflicts.length} sync conflict{activeSyncConflicts.length === 1 ? '' : 's'}
+                  </button>
+                ) : null}
               </div>
 
               <div className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)] p-3">
@@ -3714,6 +4198,36 @@ export default function App() {
                 >
                   <Download size={14} className="mr-1 inline" /> Export CSV
                 </button>
+                <button
+                  type="button"
+                  onClick={() => setShowImportModal(true)}
+                  className="mb-2 min-h-11 w-full rounded-lg border border-[var(--border)] px-3 py-2 text-sm"
+                >
+                  <Upload size={14} className="mr-1 inline" /> Import CSV
+                </button>
+                <div className="mb-2 grid grid-cols-2 gap-2">
+                  <button
+                    type="button"
+                    onClick={handleDownloadBackup}
+                    className="min-h-11 w-full rounded-lg border border-[var(--border)] px-3 py-2 text-sm"
+                  >
+                    <Download size={14} className="mr-1 inline" /> Backup JSON
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowRestoreModal(true)}
+                    className="min-h-11 w-full rounded-lg border border-[var(--border)] px-3 py-2 text-sm"
+                  >
+                    <Upload size={14} className="mr-1 inline" /> Restore
+                  </button>
+                </div>
+                <button
+                  type="button"
+                  onClick={openRecentlyDeleted}
+                  className="mb-2 min-h-11 w-full rounded-lg border border-[var(--border)] px-3 py-2 text-sm"
+                >
+                  <RotateCcw size={14} className="mr-1 inline" /> Recently Deleted
+                </button>
                 <button
                   type="button"
                   onClick={handleClearAllData}
@@ -3897,6 +4411,80 @@ export default function App() {
         />
       ) : null}
 
+      {addToPositionTrade ? (
+        <AddToPositionModal
+          key={addToPositionTrade.id}
+          trade={addToPositionTrade}
+          currency={currency}
+          formatCurrency={formatCurrency}
+          onClose={() => setAddToPositionTrade(null)}
+          onConfirmEntry={addEntry}
+        />
+      ) : null}
+
+      {showImportModal ? (
+        <ImportTradesModal
+          existingTrades={trades}
+          formatCurrency={formatCurrency}
+          onClose={() => setShowImportModal(false)}
+          onImport={handleImportTrades}
+        />
+      ) : null}
+
+      {showRestoreModal ? <RestoreBackupModal onClose={() => setShowRestoreModal(false)} onRestore={handleRestoreBackup} /> : null}
+
+      {showSyncConflicts && activeSyncConflicts.length > 0 ? (
+        <SyncConflictModal
+          conflicts={activeSyncConflicts}
+          formatCurrency={formatCurrency}
+          onClose={() => setShowSyncConflicts(false)}
+          onResolve={handleResolveSyncConflict}
+        />
+      ) : null}
+
+      {recentlyDeleted ? (
+        <RecentlyDeletedModal
+          trades={recentlyDeleted.trades}
+          goals={recentlyDeleted.goals}
+          formatCurrency={formatCurrency}
+          describeGoal={(goal) => `${GOAL_LABELS[goal.type]} · ${goal.target}`}
+          onClose={() => setRecentlyDeleted(null)}
+          onRestoreTrade={handleRestoreDeletedTrade}
+          onRestoreGoal={handleRestoreDeletedGoal}
+        />
+      ) : null}
+
+      {showPriceAlerts ? (
+        <PriceAlertsModal
+          alerts={priceAlerts}
+          trades={trades}
+          openTrades={activeTrades.filter((trade) => !isDerivative(trade.instrument))}
+          notificationPermission={notificationPermission}
+          onClose={() => setShowPriceAlerts(false)}
+          onCreateAlert={(input) => void handleCreatePriceAlert(input)}
+          onDeleteAlert={(alertId) => setPriceAlerts(alertRepo.deleteAlert(alertId))}
+          onRearmAlert={(alertId) => setPriceAlerts(alertRepo.rearmAlert(alertId))}
+          onClearHistory={() => setPriceAlerts(alertRepo.clearTriggered())}
+          onEnableNotifications={() => void handleEnableNotifications()}
+        />
+      ) : null}
+
+      {selectedSymbolSummary ? (
+        <SymbolDetailDrawer
+          summary={selectedSymbolSummary}
+          trades={selectedSymbolTrades}
+          includeUnrealized={useUnrealized}
+          formatCurrency={formatCurrency}
+          onSelectTrade={(tradeId) => {
+            setSelectedSymbol(null);
+            setTab('trades');
+            setTradeViewMode('card');
+            setExpandedTradeId(tradeId);
+          }}
+          onClose={() => setSelectedSymbol(null)}
+        />
+      ) : null}
+
       {showPortfolioNudgeModal ? (
         <PortfolioValueNudgeModal
           currentPnL={summary.realized + summary.unrealized}
@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { Bell, RotateCcw, Trash2, X } from 'lucide-react';
+import { ALERT_KIND_LABELS, describeAlert, isAlertActive, TRADE_ONLY_ALERT_KINDS } from '../services/alertService';
+import type { AlertNotificationPermission } from '../services/alertNotifications';
+import type { CreatePriceAlertInput, PriceAlert, PriceAlertKind } from '../../../shared/types/alert';
+import type { Trade } from '../../../shared/types/trade';
+
+interface PriceAlertsModalProps {
+  alerts: PriceAlert[];
+  trades: Trade[];
+  openTrades: Trade[];
+  notificationPermission: AlertNotificationPermission;
+  onClose: () => void;
+  onCreateAlert: (input: CreatePriceAlertInput) => void;
+  onDeleteAlert: (alertId: string) => void;
+  onRearmAlert: (alertId: string) => void;
+  onClearHistory: () => void;
+  onEnableNotifications: () => void;
+}
+
+const FREE_SYMBOL = '';
+const FIELD_CLASS =
+  'h-11 w-full rounded-lg border border-[var(--border)] bg-[var(--surface-2)] px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]';
+
+function tradeLabel(trade: Trade): string {
+  return `${trade.symbol} ${trade.direction.toUpperCase()} · ${trade.date}`;
+}
+
+export default function PriceAlertsModal({
+  alerts,
+  trades,
+  openTrades,
+  notificationPermission,
+  onClose,
+  onCreateAlert,
+  onDeleteAlert,
+  onRearmAlert,
+  onClearHistory,
+  onEnableNotifications,
+}: PriceAlertsModalProps) {
+  const [tradeId, setTradeId] = useState(FREE_SYMBOL);
+  const [symbol, setSymbol] = useState('');
+  const [kind, setKind] = useState<PriceAlertKind>('price_above');
+  const [threshold, setThreshold] = useState('');
+
+  const tradesById = new Map(trades.map((trade) => [trade.id, trade]));
+  const selectedTrade = tradeId ? openTrades.find((trade) => trade.id === tradeId) : undefined;
+  const kinds = (Object.keys(ALERT_KIND_LABELS) as PriceAlertKind[]).filter(
+    (item) => selectedTrade || !TRADE_ONLY_ALERT_KINDS.includes(item)
+  );
+  const needsThreshold = !TRADE_ONLY_ALERT_KINDS.includes(kind);
+  const activeAlerts = alerts.filter(isAlertActive);
+  const triggeredAlerts = alerts
+    .filter((alert) => !isAlertActive(alert))
+    .sort((a, b) => (b.triggeredAt ?? '').localeCompare(a.triggeredAt ?? ''));
+
+  const handleSubmit = () => {
+    const alertSymbol = (selectedTrade?.symbol ?? symbol).trim().toUpperCase();
+    if (!alertSymbol) {
+      alert('Enter a symbol or pick an open position.');
+      return;
+    }
+    if (kind === 'stop_hit' && selectedTrade?.stopLoss == null) {
+      alert('This position has no stop loss set.');
+      return;
+    }
+    if (kind === 'target_hit' && selectedTrade?.targetPrice == null) {
+      alert('This position has no target set.');
+      return;
+    }
+    let value: number | undefined;
+    if (needsThreshold) {
+      value = Number.parseFloat(threshold);
+      if (!Number.isFinite(value) || value <= 0) {
+        alert(kind === 'percent_move' ? 'Percent move must be greater than zero.' : 'Price must be greater than zero.');
+        return;
+      }
+    }
+    onCreateAlert({ kind, symbol: alertSymbol, tradeId: selectedTrade?.id, threshold: value });
+    setThreshold('');
+  };
+
+  return (
+    <div className="modal-backdrop fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-3 sm:p-4">
+      <div className="modal-panel max-h-[92vh] w-full max-w-lg overflow-y-auto rounded-2xl border border-[var(--border)] bg-[var(--surface)]">
+        <div className="flex items-center justify-between border-b border-[var(--border)] px-4 py-3">
+          <h2 className="text-secondary">Price Alerts</h2>
+          <button
+            type="button"
+            className="flex h-11 w-11 items-center justify-center rounded-lg text-[var(--muted)] transition hover:bg-[var(--surface-2)] hover:text-[var(--text)]"
+            onClick={onClose}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-4 px-4 py-4">
+          <p className="text-tertiary-sm">Alerts are checked whenever marks refresh or stream in, and fire once until re-armed.</p>
+
+          {notificationPermission === 'default' ? (
+            <button
+              type="button"
+              onClick={onEnableNotifications}
+              className="flex min-h-11 w-full items-center justify-center gap-1 rounded-lg border border-[var(--border)] px-3 text-sm text-[var(--text)] transition hover:bg-[var(--surface-2)]"
+            >
+              <Bell size={14} /> Enable browser notifications
+            </button>
+          ) : null}
+          {notificationPermission === 'denied' ? (
+            <p className="text-tertiary-sm">Browser notifications are blocked for this site, so alerts only show in the app.</p>
+          ) : null}
+
+          <div className="space-y-2 rounded-lg border border-[var(--border)] bg-[var(--surface-2)] p-3">
+            <label className="text-label block">Alert on</label>
+            <select
+              value={tradeId}
+              onChange={(event) => {
+                setTradeId(event.target.value);
+                if (!event.target.value && TRADE_ONLY_ALERT_KINDS.includes(kind)) {
+                  setKind('price_above');
+                }
+              }}
+              className={FIELD_CLASS}
+            >
+              <option value={FREE_SYMBOL}>Any symbol</option>
+              {openTrades.map((trade) => (
+                <option key={trade.id} value={trade.id}>
+                  {tradeLabel(trade)}
+                </option>
+              ))}
+            </select>
+            {!selectedTrade ? (
+              <input
+                value={symbol}
+                onChange={(event) => setSymbol(event.target.value)}
+                className={FIELD_CLASS}
+                placeholder="Symbol, e.g. RELIANCE"
+              />
+            ) : null}
+            <div className="grid grid-cols-2 gap-2">
+              <select value={kind} onChange={(event) => setKind(event.target.value as PriceAlertKind)} className={FIELD_CLASS}>
+                {kinds.map((item) => (
+                  <option key={item} value={item}>
+                    {ALERT_KIND_LABELS[item]}
+                  </option>
+                ))}
+              </select>
+              {needsThreshold ? (
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={threshold}
+                  onChange={(event) => setThreshold(event.target.value)}
+                  className={`text-numeric ${FIELD_CLASS}`}
+                  placeholder={kind === 'percent_move' ? 'Percent' : 'Price'}
+                />
+              ) : null}
+            </div>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              className="min-h-11 w-full rounded-lg bg-[var(--accent)] px-3 py-2 text-secondary-sm text-black transition hover:brightness-110"
+            >
+              Add Alert
+            </button>
+          </div>
+
+          <div>
+            <h3 className="mb-2 text-label">Active</h3>
+            {activeAlerts.length === 0 ? <p className="text-tertiary-sm">No active alerts.</p> : null}
+            <ul className="space-y-2">
+              {activeAlerts.map((item) => (
+                <li key={item.id} className="flex items-center justify-between gap-3 rounded-lg border border-[var(--border)] bg-[var(--surface-2)] px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-secondary-sm">{describeAlert(item, item.tradeId ? tradesById.get(item.tradeId) : undefined)}</p>
+                    <p className="text-tertiary-sm">
+                      {ALERT_KIND_LABELS[item.kind]}
+                      {item.tradeId ? ' · Position' : ''}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => onDeleteAlert(item.id)}
+                    title="Delete alert"
+                    className="flex h-11 w-11 shrink-0 items-center justify-center rounded-lg text-[var(--muted)] transition hover:text-[var(--negative)]"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <div className="mb-2 flex items-center justify-between">
+              <h3 className="text-label">Triggered</h3>
+              {triggeredAlerts.length > 0 ? (
+                <button type="button" onClick={onClearHistory} className="text-tertiary-sm transition hover:text-[var(--negative)]">
+                  Clear history
+                </button>
+              ) : null}
+            </div>
+            {triggeredAlerts.length === 0 ? <p className="text-tertiary-sm">Nothing has triggered yet.</p> : null}
+            <ul className="space-y-2">
+              {triggeredAlerts.map((item) => (
+                <li key={item.id} className="flex items-center justify-between gap-3 rounded-lg border border-[var(--border)] bg-[var(--surface-2)] px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-secondary-sm">{describeAlert(item, item.tradeId ? tradesById.get(item.tradeId) : undefined)}</p>
+                    <p className="text-tertiary-sm">
+                      {item.triggeredAt ? new Date(item.triggeredAt).toLocaleString() : ''}
+                      {item.triggeredPrice != null ? ` · at ${item.triggeredPrice.toFixed(2)}` : ''}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => onRearmAlert(item.id)}
+                      className="flex min-h-11 items-center gap-1 rounded-lg border border-[var(--border)] px-3 text-sm text-[var(--text)] transition hover:bg-[var(--surface)]"
+                    >
+                      <RotateCcw size={14} /> Re-arm
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDeleteAlert(item.id)}
+                      title="Delete alert"
+                      className="flex h-11 w-11 items-center justify-center rounded-lg text-[var(--muted)] transition hover:text-[var(--negative)]"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { PRICE_ALERTS_STORAGE_KEY } from '../../../shared/config/storageKeys';
+import type { CreatePriceAlertInput, PriceAlert, PriceAlertKind } from '../../../shared/types/alert';
+
+export interface AlertRepository {
+  listAlerts(): PriceAlert[];
+  saveAlerts(alerts: PriceAlert[]): void;
+  createAlert(input: CreatePriceAlertInput): PriceAlert[];
+  deleteAlert(alertId: string): PriceAlert[];
+  rearmAlert(alertId: string): PriceAlert[];
+  markTriggered(triggers: Array<{ alertId: string; price: number }>): PriceAlert[];
+  updateReferencePrices(updates: Array<{ alertId: string; price: number }>): PriceAlert[];
+  clearTriggered(): PriceAlert[];
+}
+
+const ALERT_KINDS: PriceAlertKind[] = ['price_above', 'price_below', 'percent_move', 'stop_hit', 'target_hit'];
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function randomId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+export function normalizeAlert(raw: unknown): PriceAlert | null {
+  if (!isObject(raw) || typeof raw.id !== 'string' || typeof raw.symbol !== 'string') {
+    return null;
+  }
+  if (!ALERT_KINDS.includes(raw.kind as PriceAlertKind)) {
+    return null;
+  }
+
+  return {
+    id: raw.id,
+    kind: raw.kind as PriceAlertKind,
+    symbol: raw.symbol.trim().toUpperCase(),
+    tradeId: typeof raw.tradeId === 'string' ? raw.tradeId : undefined,
+    threshold: toOptionalNumber(raw.threshold),
+    referencePrice: toOptionalNumber(raw.referencePrice),
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : nowIso(),
+    triggeredAt: typeof raw.triggeredAt === 'string' ? raw.triggeredAt : undefined,
+    triggeredPrice: toOptionalNumber(raw.triggeredPrice),
+  };
+}
+
+export class LocalAlertRepository implements AlertRepository {
+  listAlerts(): PriceAlert[] {
+    const raw = localStorage.getItem(PRICE_ALERTS_STORAGE_KEY);
+    if (!raw) {
+      return [];
+    }
+    try {
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) {
+        return [];
+      }
+      return parsed.map(normalizeAlert).filter((alert): alert is PriceAlert => alert !== null);
+    } catch {
+      return [];
+    }
+  }
+
+  saveAlerts(alerts: PriceAlert[]): void {
+    localStorage.setItem(PRICE_ALERTS_STORAGE_KEY, JSON.stringify(alerts));
+  }
+
+  createAlert(input: CreatePriceAlertInput): PriceAlert[] {
+    const next = [
+      ...this.listAlerts(),
+      {
+        id: randomId('alert'),
+        kind: input.kind,
+        symbol: input.symbol.trim().toUpperCase(),
+        tradeId: input.tradeId,
+        threshold: input.threshold,
+        referencePrice: input.referencePrice,
+        createdAt: nowIso(),
+      },
+    ];
+    this.saveAlerts(next);
+    return next;
+  }
+
+  deleteAlert(alertId: string): PriceAlert[] {
+    const next = this.listAlerts().filter((alert) => alert.id !== alertId);
+    this.saveAlerts(next);
+    return next;
+  }
+
+  rearmAlert(alertId: string): PriceAlert[] {
+    const next = this.listAlerts().map((alert) =>
+      alert.id === alertId
+        ? {
+            ...alert,
+            // A re-armed alert measures the next move or crossing from where the last one fired.
+            referencePrice: alert.triggeredPrice ?? alert.referencePrice,
+            triggeredAt: undefined,
+            triggeredPrice: undefined,
+          }
+        : alert
+    );
+    this.saveAlerts(next);
+    return next;
+  }
+
+  // Alerts fire once; an alert another tab already marked as triggered is left as it is.
+  markTriggered(triggers: Array<{ alertId: string; price: number }>): PriceAlert[] {
+    const now = nowIso();
+    const priceById = new Map(triggers.map((trigger) => [trigger.alertId, trigger.price]));
+    const next = this.listAlerts().map((alert) => {
+      const price = priceById.get(alert.id);
+      return price != null && !alert.triggeredAt ? { ...alert, triggeredAt: now, triggeredPrice: price } : alert;
+    });
+    this.saveAlerts(next);
+    return next;
+  }
+
+  updateReferencePrices(updates: Array<{ alertId: string; price: number }>): PriceAlert[] {
+    const priceById = new Map(updates.map((update) => [update.alertId, update.price]));
+    const next = this.listAlerts().map((alert) => {
+      const price = priceById.get(alert.id);
+      return price != null && !alert.triggeredAt ? { ...alert, referencePrice: price } : alert;
+    });
+    this.saveAlerts(next);
+    return next;
+  }
+
+  clearTriggered(): PriceAlert[] {
+    const next = this.listAlerts().filter((alert) => !alert.triggeredAt);
+    this.saveAlerts(next);
+    return next;
+  }
+}
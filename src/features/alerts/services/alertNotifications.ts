@@ -0,0 +1,31 @@
+export type AlertNotificationPermission = NotificationPermission | 'unsupported';
+
+export function getNotificationPermission(): AlertNotificationPermission {
+  if (typeof window === 'undefined' || !('Notification' in window)) {
+    return 'unsupported';
+  }
+  return Notification.permission;
+}
+
+export async function requestNotificationPermission(): Promise<AlertNotificationPermission> {
+  if (getNotificationPermission() === 'unsupported') {
+    return 'unsupported';
+  }
+  try {
+    return await Notification.requestPermission();
+  } catch {
+    return Notification.permission;
+  }
+}
+
+// Tagged by alert id so the same alert raised in several open tabs shows one notification.
+export function showAlertNotification(alertId: string, title: string, body: string): void {
+  if (getNotificationPermission() !== 'granted') {
+    return;
+  }
+  try {
+    new Notification(title, { body, tag: alertId });
+  } catch {
+    // Some mobile browsers only allow notifications from a service worker; the in-app toast still shows.
+  }
+}
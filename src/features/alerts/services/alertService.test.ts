@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { PriceAlert } from '../../../shared/types/alert';
+import { evaluateAlerts, levelAlertReferenceUpdates } from './alertService';
+
+function alert(overrides: Partial<PriceAlert> & Pick<PriceAlert, 'kind'>): PriceAlert {
+  return { id: 'alert_1', symbol: 'INFY', createdAt: '2026-09-01T04:00:00.000Z', ...overrides };
+}
+
+describe('evaluateAlerts', () => {
+  it('fires a level alert only when the price crosses from the reference side', () => {
+    const above = alert({ kind: 'price_above', threshold: 2000, referencePrice: 1950 });
+    expect(evaluateAlerts([above], { INFY: 1990 }, [])).toEqual([]);
+    expect(evaluateAlerts([above], { INFY: 2005 }, [])).toEqual([
+      { alert: above, price: 2005, message: 'INFY above 2000.00 at 2005.00' },
+    ]);
+
+    const below = alert({ kind: 'price_below', threshold: 1800, referencePrice: 1850 });
+    expect(evaluateAlerts([below], { INFY: 1800 }, [])).toHaveLength(1);
+  });
+
+  it('does not fire a level alert created beyond its level', () => {
+    const above = alert({ kind: 'price_above', threshold: 2000, referencePrice: 2050 });
+    expect(evaluateAlerts([above], { INFY: 2100 }, [])).toEqual([]);
+    expect(evaluateAlerts([alert({ kind: 'price_above', threshold: 2000 })], { INFY: 2100 }, [])).toEqual([]);
+  });
+
+  it('measures percent moves from the reference price', () => {
+    const move = alert({ kind: 'percent_move', threshold: 5, referencePrice: 100 });
+    expect(evaluateAlerts([move], { INFY: 104 }, [])).toEqual([]);
+    expect(evaluateAlerts([move], { INFY: 95 }, [])).toHaveLength(1);
+  });
+});
+
+describe('levelAlertReferenceUpdates', () => {
+  it('moves the reference once the price returns to the near side of the level', () => {
+    const above = alert({ kind: 'price_above', threshold: 2000, referencePrice: 2050 });
+    expect(levelAlertReferenceUpdates([above], { INFY: 2010 })).toEqual([]);
+    expect(levelAlertReferenceUpdates([above], { INFY: 1990 })).toEqual([{ alertId: 'alert_1', price: 1990 }]);
+    expect(levelAlertReferenceUpdates([{ ...above, referencePrice: 1990 }], { INFY: 1980 })).toEqual([]);
+  });
+
+  it('seeds a missing reference and skips triggered and percent alerts', () => {
+    expect(levelAlertReferenceUpdates([alert({ kind: 'price_below', threshold: 1800 })], { INFY: 1700 })).toEqual([
+      { alertId: 'alert_1', price: 1700 },
+    ]);
+    const triggered = alert({ kind: 'price_above', threshold: 2000, triggeredAt: '2026-09-02T04:00:00.000Z' });
+    const move = alert({ kind: 'percent_move', threshold: 5 });
+    expect(levelAlertReferenceUpdates([triggered, move], { INFY: 1900 })).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import type { PriceAlert, PriceAlertKind, PriceAlertTrigger } from '../../../shared/types/alert';
+import type { Trade } from '../../../shared/types/trade';
+
+export const ALERT_KIND_LABELS: Record<PriceAlertKind, string> = {
+  price_above: 'Price above',
+  price_below: 'Price below',
+  percent_move: 'Moves by %',
+  stop_hit: 'Stop hit',
+  target_hit: 'Target hit',
+};
+
+// Stop and target alerts only make sense on a trade that has those levels.
+export const TRADE_ONLY_ALERT_KINDS: PriceAlertKind[] = ['stop_hit', 'target_hit'];
+
+function formatPrice(value: number): string {
+  return value.toFixed(2);
+}
+
+export function isAlertActive(alert: PriceAlert): boolean {
+  return !alert.triggeredAt;
+}
+
+export function activeAlertSymbols(alerts: PriceAlert[]): string[] {
+  return Array.from(new Set(alerts.filter(isAlertActive).map((alert) => alert.symbol)));
+}
+
+export function describeAlert(alert: PriceAlert, trade?: Trade): string {
+  if (alert.kind === 'price_above') {
+    return `${alert.symbol} above ${formatPrice(alert.threshold ?? 0)}`;
+  }
+  if (alert.kind === 'price_below') {
+    return `${alert.symbol} below ${formatPrice(alert.threshold ?? 0)}`;
+  }
+  if (alert.kind === 'percent_move') {
+    return `${alert.symbol} moves ${alert.threshold ?? 0}% from ${formatPrice(alert.referencePrice ?? 0)}`;
+  }
+  if (alert.kind === 'stop_hit') {
+    return trade?.stopLoss != null ? `${alert.symbol} stop ${formatPrice(trade.stopLoss)} hit` : `${alert.symbol} stop hit`;
+  }
+  return trade?.targetPrice != null ? `${alert.symbol} target ${formatPrice(trade.targetPrice)} hit` : `${alert.symbol} target hit`;
+}
+
+function isLevelAlert(alert: PriceAlert): boolean {
+  return alert.kind === 'price_above' || alert.kind === 'price_below';
+}
+
+function isPastLevel(alert: PriceAlert, price: number, level: number): boolean {
+  return alert.kind === 'price_above' ? price >= level : price <= level;
+}
+
+function isTriggered(alert: PriceAlert, price: number, trade?: Trade): boolean {
+  // Level alerts fire when the price crosses from the reference's side of the level to the other.
+  if (isLevelAlert(alert)) {
+    if (alert.threshold == null || alert.referencePrice == null) {
+      return false;
+    }
+    return !isPastLevel(alert, alert.referencePrice, alert.threshold) && isPastLevel(alert, price, alert.threshold);
+  }
+  if (alert.kind === 'percent_move') {
+    if (alert.threshold == null || !alert.referencePrice) {
+      return false;
+    }
+    return (Math.abs(price - alert.referencePrice) / alert.referencePrice) * 100 >= alert.threshold;
+  }
+  // Trade alerts stop firing once the position is closed.
+  if (!trade || trade.status !== 'open') {
+    return false;
+  }
+  const isLong = trade.direction === 'long';
+  if (alert.kind === 'stop_hit') {
+    if (trade.stopLoss == null) {
+      return false;
+    }
+    return isLong ? price <= trade.stopLoss : price >= trade.stopLoss;
+  }
+  if (trade.targetPrice == null) {
+    return false;
+  }
+  return isLong ? price >= trade.targetPrice : price <= trade.targetPrice;
+}
+
+// `pricesBySymbol` is keyed by upper-case symbol, as the pricing service returns it.
+export function evaluateAlerts(alerts: PriceAlert[], pricesBySymbol: Record<string, number>, trades: Trade[]): PriceAlertTrigger[] {
+  const tradesById = new Map(trades.map((trade) => [trade.id, trade]));
+  const triggers: PriceAlertTrigger[] = [];
+  alerts.filter(isAlertActive).forEach((alert) => {
+    const price = pricesBySymbol[alert.symbol];
+    if (price == null) {
+      return;
+    }
+    const trade = alert.tradeId ? tradesById.get(alert.tradeId) : undefined;
+    if (isTriggered(alert, price, trade)) {
+      triggers.push({ alert, price, message: `${describeAlert(alert, trade)} at ${formatPrice(price)}` });
+    }
+  });
+  return triggers;
+}
+
+// A level alert created or re-armed beyond its level waits for the price to come back before it can cross again,
+// and one saved without a reference takes the first price seen.
+export function levelAlertReferenceUpdates(
+  alerts: PriceAlert[],
+  pricesBySymbol: Record<string, number>
+): Array<{ alertId: string; price: number }> {
+  return alerts.filter(isAlertActive).filter(isLevelAlert).flatMap((alert) => {
+    const price = pricesBySymbol[alert.symbol];
+    if (price == null || alert.threshold == null) {
+      return [];
+    }
+    const needsReference =
+      alert.referencePrice == null ||
+      (isPastLevel(alert, alert.referencePrice, alert.threshold) && !isPastLevel(alert, price, alert.threshold));
+    return needsReference ? [{ alertId: alert.id, price }] : [];
+  });
+}
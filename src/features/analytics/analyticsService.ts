@@ -1,30 +1,150 @@
+import { minutesOfDay, NSE_SESSION_WINDOWS, nseSessionForTime, OUTSIDE_MARKET_HOURS_LABEL } from '../../shared/services/marketHours';
 import type { Trade } from '../../shared/types/trade';
 
+export interface PerformanceRatios {
+  trades: number;
+  wins: number;
+  losses: number;
+  expectancy: number;
+  profitFactor?: number;
+  payoffRatio?: number;
+  avgWin: number;
+  avgLoss: number;
+  largestWin: number;
+  largestLoss: number;
+  sharpe?: number;
+  sortino?: number;
+  sqn?: number;
+}
+
 export interface GroupPerformance {
   key: string;
   trades: number;
   winRate: number;
   pnl: number;
+  rTrades: number;
+  totalR: number;
+  avgR?: number;
+  ratios: PerformanceRatios;
+}
+
+export interface SymbolPerformance {
+  symbol: string;
+  trades: number;
+  openTrades: number;
+  winRate: number;
+  pnl: number;
+  expectancy: number;
+  avgHoldDays?: number;
+  lastTraded: string;
 }
 
 export interface AnalyticsSummary {
+  overall: PerformanceRatios;
   setupPerformance: GroupPerformance[];
   emotionPerformance: GroupPerformance[];
   weekdayPerformance: GroupPerformance[];
+  holdingPeriodPerformance: GroupPerformance[];
+  sessionPerformance: GroupPerformance[];
+  entryHourPerformance: GroupPerformance[];
   bestSetup?: GroupPerformance;
   worstSetup?: GroupPerformance;
+  bestSetupByR?: GroupPerformance;
+  worstSetupByR?: GroupPerformance;
 }
 
 function scoreTrade(trade: Trade, includeUnrealized: boolean): number {
   return includeUnrealized ? trade.totalPnl : trade.realizedPnl;
 }
 
+function scoreTradeR(trade: Trade, includeUnrealized: boolean): number | undefined {
+  return includeUnrealized ? trade.totalR : trade.realizedR;
+}
+
+function roundTo2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function sampleStdDev(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+// Daily returns are measured against equity at the start of each trading day, seeded with the portfolio value.
+function dailyReturns(trades: Trade[], includeUnrealized: boolean, portfolioValue: number): number[] {
+  const pnlByDate = new Map<string, number>();
+  trades.forEach((trade) => {
+    pnlByDate.set(trade.date, (pnlByDate.get(trade.date) ?? 0) + scoreTrade(trade, includeUnrealized));
+  });
+
+  let equity = portfolioValue;
+  const returns: number[] = [];
+  [...pnlByDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([, pnl]) => {
+      if (equity > 0) {
+        returns.push(pnl / equity);
+      }
+      equity += pnl;
+    });
+  return returns;
+}
+
+// Realized mode only counts trades with a booked outcome; open trades would skew averages toward zero.
+export function calculatePerformanceRatios(trades: Trade[], includeUnrealized = true, portfolioValue = 0): PerformanceRatios {
+  const scored = includeUnrealized ? trades : trades.filter((trade) => trade.status === 'closed');
+  const outcomes = scored.map((trade) => scoreTrade(trade, includeUnrealized));
+  const wins = outcomes.filter((value) => value > 0);
+  const losses = outcomes.filter((value) => value < 0);
+  const grossWin = wins.reduce((sum, value) => sum + value, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, value) => sum + value, 0));
+  const avgWin = wins.length > 0 ? grossWin / wins.length : 0;
+  const avgLoss = losses.length > 0 ? -grossLoss / losses.length : 0;
+
+  const returns = portfolioValue > 0 ? dailyReturns(scored, includeUnrealized, portfolioValue) : [];
+  const returnStdDev = sampleStdDev(returns);
+  const downsideDeviation = Math.sqrt(mean(returns.map((value) => Math.min(0, value) ** 2)));
+  const annualization = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  const rMultiples = scored
+    .map((trade) => scoreTradeR(trade, includeUnrealized))
+    .filter((value): value is number => value != null);
+  const rStdDev = sampleStdDev(rMultiples);
+
+  return {
+    trades: scored.length,
+    wins: wins.length,
+    losses: losses.length,
+    expectancy: roundTo2(mean(outcomes)),
+    profitFactor: grossLoss > 0 ? roundTo2(grossWin / grossLoss) : undefined,
+    payoffRatio: avgLoss < 0 && wins.length > 0 ? roundTo2(avgWin / Math.abs(avgLoss)) : undefined,
+    avgWin: roundTo2(avgWin),
+    avgLoss: roundTo2(avgLoss),
+    largestWin: roundTo2(wins.length > 0 ? Math.max(...wins) : 0),
+    largestLoss: roundTo2(losses.length > 0 ? Math.min(...losses) : 0),
+    sharpe: returnStdDev > 0 ? roundTo2((mean(returns) / returnStdDev) * annualization) : undefined,
+    sortino: downsideDeviation > 0 ? roundTo2((mean(returns) / downsideDeviation) * annualization) : undefined,
+    // Van Tharp's System Quality Number, on R multiples for trades with a defined risk.
+    sqn: rStdDev > 0 ? roundTo2((Math.sqrt(rMultiples.length) * mean(rMultiples)) / rStdDev) : undefined,
+  };
+}
+
 function calculateGroupedPerformance(
   trades: Trade[],
   groupBy: (trade: Trade) => string | undefined,
-  includeUnrealized: boolean
+  includeUnrealized: boolean,
+  portfolioValue: number
 ): GroupPerformance[] {
-  const groups = new Map<string, { pnl: number; trades: number; wins: number }>();
+  const groups = new Map<string, { pnl: number; trades: number; wins: number; totalR: number; rTrades: number; members: Trade[] }>();
 
   trades.forEach((trade) => {
     const key = groupBy(trade);
@@ -32,25 +152,116 @@ function calculateGroupedPerformance(
       return;
     }
     const value = scoreTrade(trade, includeUnrealized);
-    const group = groups.get(key) ?? { pnl: 0, trades: 0, wins: 0 };
+    const group = groups.get(key) ?? { pnl: 0, trades: 0, wins: 0, totalR: 0, rTrades: 0, members: [] };
     group.pnl += value;
     group.trades += 1;
+    group.members.push(trade);
     if (value > 0) {
       group.wins += 1;
     }
+    const rValue = scoreTradeR(trade, includeUnrealized);
+    if (rValue != null) {
+      group.totalR += rValue;
+      group.rTrades += 1;
+    }
     groups.set(key, group);
   });
 
   return Array.from(groups.entries())
     .map(([key, value]) => ({
       key,
-      pnl: Math.round((value.pnl + Number.EPSILON) * 100) / 100,
+      pnl: roundTo2(value.pnl),
       trades: value.trades,
       winRate: value.trades > 0 ? (value.wins / value.trades) * 100 : 0,
+      rTrades: value.rTrades,
+      totalR: roundTo2(value.totalR),
+      avgR: value.rTrades > 0 ? roundTo2(value.totalR / value.rTrades) : undefined,
+      ratios: calculatePerformanceRatios(value.members, includeUnrealized, portfolioValue),
     }))
     .sort((a, b) => b.pnl - a.pnl);
 }
 
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+function lastActivityDate(trade: Trade): string {
+  return trade.exitLegs.reduce((latest, leg) => (leg.date > latest ? leg.date : latest), trade.date);
+}
+
+function finalExit(trade: Trade): Trade['exitLegs'][number] | undefined {
+  return trade.exitLegs.reduce<Trade['exitLegs'][number] | undefined>((latest, leg) => {
+    if (!latest) {
+      return leg;
+    }
+    const byDate = leg.date.localeCompare(latest.date);
+    return byDate > 0 || (byDate === 0 && (leg.time ?? '') > (latest.time ?? '')) ? leg : latest;
+  }, undefined);
+}
+
+// Holding period runs from the trade date to the final exit; open trades are still being held.
+// Times refine the span when both ends have one, otherwise it is counted in whole days.
+function holdDays(trade: Trade): number | undefined {
+  const exit = finalExit(trade);
+  if (trade.status !== 'closed' || !exit) {
+    return undefined;
+  }
+  const hasTimes = Boolean(trade.entryTime && exit.time);
+  const opened = Date.parse(`${trade.date}T${hasTimes ? trade.entryTime : '00:00'}:00Z`);
+  const closed = Date.parse(`${exit.date}T${hasTimes ? exit.time : '00:00'}:00Z`);
+  if (Number.isNaN(opened) || Number.isNaN(closed)) {
+    return undefined;
+  }
+  return Math.max(0, (closed - opened) / MS_PER_DAY);
+}
+
+const HOLDING_PERIODS = ['Intraday', '1-5 days', 'Swing (6-20 days)', 'Positional (21+ days)'];
+
+function holdingPeriodOf(trade: Trade): string | undefined {
+  const exit = finalExit(trade);
+  if (trade.status !== 'closed' || !exit) {
+    return undefined;
+  }
+  if (exit.date === trade.date) {
+    return HOLDING_PERIODS[0];
+  }
+  const days = Math.round(holdDays(trade) ?? 0);
+  if (days <= 5) {
+    return HOLDING_PERIODS[1];
+  }
+  return days <= 20 ? HOLDING_PERIODS[2] : HOLDING_PERIODS[3];
+}
+
+function entryHourOf(trade: Trade): string | undefined {
+  return trade.entryTime ? `${trade.entryTime.slice(0, 2)}:00` : undefined;
+}
+
+export function buildSymbolPerformance(trades: Trade[], includeUnrealized = true): SymbolPerformance[] {
+  const bySymbol = new Map<string, Trade[]>();
+  trades.forEach((trade) => {
+    const symbol = trade.symbol.trim().toUpperCase();
+    if (!symbol) {
+      return;
+    }
+    bySymbol.set(symbol, [...(bySymbol.get(symbol) ?? []), trade]);
+  });
+
+  return Array.from(bySymbol.entries())
+    .map(([symbol, members]) => {
+      const ratios = calculatePerformanceRatios(members, includeUnrealized);
+      const holds = members.map(holdDays).filter((days): days is number => days != null);
+      return {
+        symbol,
+        trades: members.length,
+        openTrades: members.filter((trade) => trade.status === 'open').length,
+        winRate: ratios.trades > 0 ? (ratios.wins / ratios.trades) * 100 : 0,
+        pnl: roundTo2(members.reduce((sum, trade) => sum + scoreTrade(trade, includeUnrealized), 0)),
+        expectancy: ratios.expectancy,
+        avgHoldDays: holds.length > 0 ? roundTo2(mean(holds)) : undefined,
+        lastTraded: members.map(lastActivityDate).reduce((latest, date) => (date > latest ? date : latest), ''),
+      };
+    })
+    .sort((a, b) => b.pnl - a.pnl);
+}
+
 const WEEK_DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
 function weekdayFromIsoDate(date: string): string {
@@ -61,31 +272,67 @@ function weekdayFromIsoDate(date: string): string {
   return WEEK_DAYS[parsed.getDay()];
 }
 
-export function buildAnalyticsSummary(trades: Trade[], includeUnrealized = true): AnalyticsSummary {
+export function buildAnalyticsSummary(trades: Trade[], includeUnrealized = true, portfolioValue = 0): AnalyticsSummary {
   const setupPerformance = calculateGroupedPerformance(
     trades,
     (trade) => trade.setup?.trim() || undefined,
-    includeUnrealized
+    includeUnrealized,
+    portfolioValue
   );
 
   const emotionPerformance = calculateGroupedPerformance(
     trades,
     (trade) => trade.emotion?.trim() || undefined,
-    includeUnrealized
+    includeUnrealized,
+    portfolioValue
   );
 
-  const weekdayRaw = calculateGroupedPerformance(trades, (trade) => weekdayFromIsoDate(trade.date), includeUnrealized);
+  const weekdayRaw = calculateGroupedPerformance(
+    trades,
+    (trade) => weekdayFromIsoDate(trade.date),
+    includeUnrealized,
+    portfolioValue
+  );
   const weekdayPerformance = WEEK_DAYS
     .map((day) => weekdayRaw.find((entry) => entry.key === day))
     .filter((entry): entry is GroupPerformance => Boolean(entry));
 
+  const holdingRaw = calculateGroupedPerformance(trades, holdingPeriodOf, includeUnrealized, portfolioValue);
+  const holdingPeriodPerformance = HOLDING_PERIODS
+    .map((period) => holdingRaw.find((entry) => entry.key === period))
+    .filter((entry): entry is GroupPerformance => Boolean(entry));
+
+  // Trades logged without an entry time are left out of the intraday breakdowns.
+  const sessionRaw = calculateGroupedPerformance(
+    trades,
+    (trade) => (trade.entryTime ? nseSessionForTime(trade.entryTime) : undefined),
+    includeUnrealized,
+    portfolioValue
+  );
+  const sessionPerformance = [...NSE_SESSION_WINDOWS.map((window) => window.label), OUTSIDE_MARKET_HOURS_LABEL]
+    .map((label) => sessionRaw.find((entry) => entry.key === label))
+    .filter((entry): entry is GroupPerformance => Boolean(entry));
+
+  const entryHourPerformance = calculateGroupedPerformance(trades, entryHourOf, includeUnrealized, portfolioValue).sort(
+    (a, b) => minutesOfDay(a.key) - minutesOfDay(b.key)
+  );
+
   const eligibleSetups = setupPerformance.filter((entry) => entry.trades >= 3);
+  const eligibleSetupsByR = setupPerformance
+    .filter((entry) => entry.rTrades >= 3 && entry.avgR != null)
+    .sort((a, b) => (b.avgR ?? 0) - (a.avgR ?? 0));
 
   return {
+    overall: calculatePerformanceRatios(trades, includeUnrealized, portfolioValue),
     setupPerformance,
     emotionPerformance,
     weekdayPerformance,
+    holdingPeriodPerformance,
+    sessionPerformance,
+    entryHourPerformance,
     bestSetup: eligibleSetups.at(0),
     worstSetup: eligibleSetups.at(-1),
+    bestSetupByR: eligibleSetupsByR.at(0),
+    worstSetupByR: eligibleSetupsByR.at(-1),
   };
 }
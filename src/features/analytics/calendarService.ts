@@ -0,0 +1,72 @@
+import type { Trade } from '../../shared/types/trade';
+
+export interface DailyPnl {
+  date: string;
+  pnl: number;
+  trades: number;
+}
+
+export interface CalendarWeek {
+  // Monday-first; null pads days that fall outside the month.
+  days: Array<string | null>;
+  pnl: number;
+  trades: number;
+}
+
+export interface CalendarMonth {
+  year: number;
+  month: number;
+  weeks: CalendarWeek[];
+  pnl: number;
+  trades: number;
+}
+
+function roundTo2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function toIsoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export function buildDailyPnl(trades: Trade[], includeUnrealized = true): Map<string, DailyPnl> {
+  const daily = new Map<string, DailyPnl>();
+  trades.forEach((trade) => {
+    const entry = daily.get(trade.date) ?? { date: trade.date, pnl: 0, trades: 0 };
+    entry.pnl = roundTo2(entry.pnl + (includeUnrealized ? trade.totalPnl : trade.realizedPnl));
+    entry.trades += 1;
+    daily.set(trade.date, entry);
+  });
+  return daily;
+}
+
+export function buildCalendarMonth(year: number, month: number, daily: Map<string, DailyPnl>): CalendarMonth {
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const leadingBlanks = (new Date(year, month, 1).getDay() + 6) % 7;
+  const cells: Array<string | null> = [
+    ...Array.from({ length: leadingBlanks }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, index) => toIsoDate(year, month, index + 1)),
+  ];
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+
+  const weeks: CalendarWeek[] = [];
+  for (let index = 0; index < cells.length; index += 7) {
+    const days = cells.slice(index, index + 7);
+    const entries = days.map((date) => (date ? daily.get(date) : undefined)).filter((entry): entry is DailyPnl => Boolean(entry));
+    weeks.push({
+      days,
+      pnl: roundTo2(entries.reduce((sum, entry) => sum + entry.pnl, 0)),
+      trades: entries.reduce((sum, entry) => sum + entry.trades, 0),
+    });
+  }
+
+  return {
+    year,
+    month,
+    weeks,
+    pnl: roundTo2(weeks.reduce((sum, week) => sum + week.pnl, 0)),
+    trades: weeks.reduce((sum, week) => sum + week.trades, 0),
+  };
+}
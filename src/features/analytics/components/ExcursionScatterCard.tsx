@@ -0,0 +1,103 @@
+import { CartesianGrid, ReferenceLine, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis } from 'recharts';
+import type { ExcursionPoint } from '../excursionService';
+
+interface ExcursionScatterCardProps {
+  points: ExcursionPoint[];
+  pendingCount: number;
+  isMeasuring: boolean;
+  isOnline: boolean;
+  formatCurrency: (value: number) => string;
+}
+
+const CHART_GRID = '#283243';
+const CHART_TEXT = '#9ca3af';
+const CHART_POSITIVE = '#34d399';
+const CHART_NEGATIVE = '#f87171';
+const CHART_TOOLTIP_STYLE = {
+  backgroundColor: '#0f172a',
+  border: '1px solid rgba(118, 144, 180, 0.35)',
+  borderRadius: '10px',
+  color: '#e7eefb',
+  padding: '8px 10px',
+};
+const CHART_ITEM_STYLE = { color: '#e7eefb', fontSize: 12 };
+
+function ExcursionChart({
+  title,
+  hint,
+  dataKey,
+  points,
+  formatCurrency,
+}: {
+  title: string;
+  hint: string;
+  dataKey: 'mae' | 'mfe';
+  points: ExcursionPoint[];
+  formatCurrency: (value: number) => string;
+}) {
+  const winners = points.filter((point) => point.pnl >= 0);
+  const losers = points.filter((point) => point.pnl < 0);
+
+  return (
+    <div>
+      <p className="text-sm font-semibold">{title}</p>
+      <p className="mb-2 text-xs text-[var(--muted)]">{hint}</p>
+      <ResponsiveContainer width="100%" height={220}>
+        <ScatterChart margin={{ top: 8, right: 8, bottom: 8, left: 8 }}>
+          <CartesianGrid stroke={CHART_GRID} strokeDasharray="3 3" />
+          <XAxis type="number" dataKey={dataKey} name={dataKey.toUpperCase()} stroke={CHART_TEXT} tick={{ fontSize: 11 }} />
+          <YAxis type="number" dataKey="pnl" name="P&L" stroke={CHART_TEXT} tick={{ fontSize: 11 }} width={56} />
+          <ReferenceLine y={0} stroke={CHART_TEXT} strokeDasharray="4 4" />
+          <Tooltip
+            cursor={{ strokeDasharray: '3 3' }}
+            contentStyle={CHART_TOOLTIP_STYLE}
+            itemStyle={CHART_ITEM_STYLE}
+            formatter={(value, name) => [formatCurrency(Number(value)), name]}
+          />
+          <Scatter name="Winners" data={winners} fill={CHART_POSITIVE} />
+          <Scatter name="Losers" data={losers} fill={CHART_NEGATIVE} />
+        </ScatterChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export default function ExcursionScatterCard({ points, pendingCount, isMeasuring, isOnline, formatCurrency }: ExcursionScatterCardProps) {
+  let status = '';
+  if (isMeasuring) {
+    status = `Measuring excursions for ${pendingCount} closed trade${pendingCount === 1 ? '' : 's'}...`;
+  } else if (pendingCount > 0) {
+    status = isOnline
+      ? `${pendingCount} closed trade${pendingCount === 1 ? '' : 's'} could not be measured from price history.`
+      : `${pendingCount} closed trade${pendingCount === 1 ? '' : 's'} will be measured when you are back online.`;
+  }
+
+  return (
+    <div className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)] p-3">
+      <p className="mb-2 text-xs uppercase text-[var(--muted)]">Trade Excursions (MAE / MFE)</p>
+      {points.length > 0 ? (
+        <div className="grid gap-4 md:grid-cols-2">
+          <ExcursionChart
+            title="Max Adverse Excursion vs P&L"
+            hint="Winners that dipped close to your stop distance suggest stops that are too tight."
+            dataKey="mae"
+            points={points}
+            formatCurrency={formatCurrency}
+          />
+          <ExcursionChart
+            title="Max Favorable Excursion vs P&L"
+            hint="A large MFE with a small final P&L points to exits that came too early or gave back open profit."
+            dataKey="mfe"
+            points={points}
+            formatCurrency={formatCurrency}
+          />
+        </div>
+      ) : (
+        <p className="py-6 text-center text-sm text-[var(--muted)]">
+          {isMeasuring ? 'Loading price history...' : 'Close equity trades to see how far they moved for and against you.'}
+        </p>
+      )}
+      {status ? <p className="mt-2 text-xs text-[var(--muted)]">{status}</p> : null}
+    </div>
+  );
+}
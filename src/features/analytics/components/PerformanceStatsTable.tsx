@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import type { AnalyticsSummary, GroupPerformance, PerformanceRatios } from '../analyticsService';
+
+type GroupBy = 'setup' | 'emotion' | 'weekday' | 'holding' | 'session' | 'hour';
+
+interface PerformanceStatsTableProps {
+  summary: AnalyticsSummary;
+  hasPortfolioValue: boolean;
+  formatCurrency: (value: number) => string;
+}
+
+const GROUP_OPTIONS: Array<{ value: GroupBy; label: string }> = [
+  { value: 'setup', label: 'Setup' },
+  { value: 'emotion', label: 'Emotion' },
+  { value: 'weekday', label: 'Weekday' },
+  { value: 'holding', label: 'Hold Time' },
+  { value: 'session', label: 'Session' },
+  { value: 'hour', label: 'Entry Hour' },
+];
+
+const GROUPS: Record<GroupBy, (summary: AnalyticsSummary) => GroupPerformance[]> = {
+  setup: (summary) => summary.setupPerformance,
+  emotion: (summary) => summary.emotionPerformance,
+  weekday: (summary) => summary.weekdayPerformance,
+  holding: (summary) => summary.holdingPeriodPerformance,
+  session: (summary) => summary.sessionPerformance,
+  hour: (summary) => summary.entryHourPerformance,
+};
+
+function formatRatio(value: number | undefined): string {
+  return value == null ? '—' : value.toFixed(2);
+}
+
+function toneClass(value: number): string {
+  if (value > 0) {
+    return 'text-[var(--positive)]';
+  }
+  if (value < 0) {
+    return 'text-[var(--negative)]';
+  }
+  return '';
+}
+
+export default function PerformanceStatsTable({ summary, hasPortfolioValue, formatCurrency }: PerformanceStatsTableProps) {
+  const [groupBy, setGroupBy] = useState<GroupBy>('setup');
+  const groups = GROUPS[groupBy](summary);
+  const rows: Array<{ key: string; ratios: PerformanceRatios; isOverall?: boolean }> = [
+    { key: 'All trades', ratios: summary.overall, isOverall: true },
+    ...groups.map((group) => ({ key: group.key, ratios: group.ratios })),
+  ];
+
+  return (
+    <div className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)] p-3">
+      <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs uppercase text-[var(--muted)]">Performance Ratios</p>
+        <div className="inline-flex flex-wrap rounded-lg border border-[var(--border)] bg-[var(--surface)] p-0.5">
+          {GROUP_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setGroupBy(option.value)}
+              className={`flex min-h-11 items-center rounded-md px-3 text-tertiary ${
+                groupBy === option.value ? 'bg-[var(--surface-3)] text-[var(--text)]' : 'text-[var(--muted)]'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-[880px] text-right text-xs">
+          <thead className="text-[var(--muted)]">
+            <tr>
+              <th className="py-1 pr-2 text-left font-normal">Group</th>
+              <th className="px-2 py-1 font-normal">Trades</th>
+              <th className="px-2 py-1 font-normal">Win %</th>
+              <th className="px-2 py-1 font-normal">Expectancy</th>
+              <th className="px-2 py-1 font-normal">Profit Factor</th>
+              <th className="px-2 py-1 font-normal">Payoff</th>
+              <th className="px-2 py-1 font-normal">Avg Win</th>
+              <th className="px-2 py-1 font-normal">Avg Loss</th>
+              <th className="px-2 py-1 font-normal">Largest Win</th>
+              <th className="px-2 py-1 font-normal">Largest Loss</th>
+              <th className="px-2 py-1 font-normal">Sharpe</th>
+              <th className="px-2 py-1 font-normal">Sortino</th>
+              <th className="py-1 pl-2 font-normal">SQN</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ key, ratios, isOverall }) => (
+              <tr key={key} className={`border-t border-[var(--border)] ${isOverall ? 'font-semibold' : ''}`}>
+                <td className="max-w-[10rem] truncate py-1.5 pr-2 text-left">{key}</td>
+                <td className="px-2 py-1.5">{ratios.trades}</td>
+                <td className="px-2 py-1.5">{ratios.trades > 0 ? `${((ratios.wins / ratios.trades) * 100).toFixed(1)}%` : '—'}</td>
+                <td className={`px-2 py-1.5 ${toneClass(ratios.expectancy)}`}>{formatCurrency(ratios.expectancy)}</td>
+                <td className="px-2 py-1.5">{formatRatio(ratios.profitFactor)}</td>
+                <td className="px-2 py-1.5">{formatRatio(ratios.payoffRatio)}</td>
+                <td className="px-2 py-1.5 text-[var(--positive)]">{formatCurrency(ratios.avgWin)}</td>
+                <td className="px-2 py-1.5 text-[var(--negative)]">{formatCurrency(ratios.avgLoss)}</td>
+                <td className="px-2 py-1.5 text-[var(--positive)]">{formatCurrency(ratios.largestWin)}</td>
+                <td className="px-2 py-1.5 text-[var(--negative)]">{formatCurrency(ratios.largestLoss)}</td>
+                <td className="px-2 py-1.5">{formatRatio(ratios.sharpe)}</td>
+                <td className="px-2 py-1.5">{formatRatio(ratios.sortino)}</td>
+                <td className="py-1.5 pl-2">{formatRatio(ratios.sqn)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {(groupBy === 'session' || groupBy === 'hour') && groups.length === 0 ? (
+        <p className="py-3 text-center text-sm text-[var(--muted)]">Add entry times to your trades to see intraday performance.</p>
+      ) : null}
+
+      <p className="mt-2 text-xs text-[var(--muted)]">
+        {hasPortfolioValue
+          ? 'Sharpe and Sortino are annualized from daily returns on your portfolio value. SQN uses R multiples.'
+          : 'Set a portfolio value in Profile to see Sharpe and Sortino. SQN uses R multiples.'}
+      </p>
+    </div>
+  );
+}
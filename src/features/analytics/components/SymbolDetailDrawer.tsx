@@ -0,0 +1,126 @@
+import { useMemo } from 'react';
+import { X } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { buildEquityCurve } from '../drawdownService';
+import type { SymbolPerformance } from '../analyticsService';
+import type { Trade } from '../../../shared/types/trade';
+
+interface SymbolDetailDrawerProps {
+  summary: SymbolPerformance;
+  trades: Trade[];
+  includeUnrealized: boolean;
+  formatCurrency: (value: number) => string;
+  onSelectTrade: (tradeId: string) => void;
+  onClose: () => void;
+}
+
+const CHART_GRID = '#283243';
+const CHART_TEXT = '#9ca3af';
+const CHART_TOOLTIP_STYLE = {
+  backgroundColor: '#0f172a',
+  border: '1px solid rgba(118, 144, 180, 0.35)',
+  borderRadius: '10px',
+  color: '#e7eefb',
+  padding: '8px 10px',
+};
+
+function pnlClass(value: number): string {
+  return value >= 0 ? 'text-[var(--positive)]' : 'text-[var(--negative)]';
+}
+
+export default function SymbolDetailDrawer({
+  summary,
+  trades,
+  includeUnrealized,
+  formatCurrency,
+  onSelectTrade,
+  onClose,
+}: SymbolDetailDrawerProps) {
+  const sortedTrades = useMemo(() => [...trades].sort((a, b) => b.date.localeCompare(a.date)), [trades]);
+  const curve = useMemo(() => buildEquityCurve(trades, 0, includeUnrealized), [includeUnrealized, trades]);
+
+  return (
+    <div className="modal-backdrop fixed inset-0 z-50 flex justify-end bg-black/60" onClick={onClose}>
+      <aside
+        className="drawer-panel flex h-full w-full max-w-md flex-col border-l border-[var(--border)] bg-[var(--surface)]"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-[var(--border)] px-4 py-3">
+          <div>
+            <h2 className="text-secondary">{summary.symbol}</h2>
+            <p className="text-tertiary-sm">
+              {summary.trades} trade{summary.trades === 1 ? '' : 's'} · {summary.winRate.toFixed(1)}% wins ·{' '}
+              <span className={pnlClass(summary.pnl)}>{formatCurrency(summary.pnl)}</span>
+            </p>
+          </div>
+          <button
+            type="button"
+            className="flex h-11 w-11 items-center justify-center rounded-lg text-[var(--muted)] transition hover:bg-[var(--surface-2)] hover:text-[var(--text)]"
+            onClick={onClose}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-y-auto px-4 py-4">
+          <div className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)] p-3">
+            <p className="mb-2 text-xs uppercase text-[var(--muted)]">Cumulative P&amp;L</p>
+            <ResponsiveContainer width="100%" height={180}>
+              <LineChart data={curve}>
+                <CartesianGrid stroke={CHART_GRID} strokeDasharray="3 3" />
+                <XAxis dataKey="date" stroke={CHART_TEXT} tick={{ fontSize: 11 }} />
+                <YAxis stroke={CHART_TEXT} tick={{ fontSize: 11 }} width={56} />
+                <Tooltip
+                  contentStyle={CHART_TOOLTIP_STYLE}
+                  formatter={(value) => [formatCurrency(Number(value)), 'Cumulative']}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="equity"
+                  stroke={summary.pnl >= 0 ? '#34d399' : '#f87171'}
+                  strokeWidth={2}
+                  dot={curve.length <= 1}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <ul className="space-y-2">
+            {sortedTrades.map((trade) => {
+              const value = includeUnrealized ? trade.totalPnl : trade.realizedPnl;
+              return (
+                <li key={trade.id} className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)] p-3">
+                  <button type="button" onClick={() => onSelectTrade(trade.id)} className="flex w-full items-start justify-between gap-3 text-left">
+                    <div>
+                      <p className="text-secondary-sm">
+                        {trade.date} <span className="uppercase text-[var(--muted)]">{trade.direction}</span>
+                      </p>
+                      <p className="text-tertiary-sm">
+                        {trade.quantity} @ {formatCurrency(trade.entryPrice)}
+                        {trade.setup ? ` · ${trade.setup}` : ''}
+                        {trade.status === 'open' ? ' · Open' : ''}
+                      </p>
+                    </div>
+                    <span className={`text-sm font-semibold ${pnlClass(value)}`}>{formatCurrency(value)}</span>
+                  </button>
+                  {trade.exitLegs.length > 0 ? (
+                    <ul className="mt-2 space-y-1 border-t border-[var(--border)] pt-2">
+                      {trade.exitLegs.map((leg) => (
+                        <li key={leg.id} className="flex justify-between text-xs text-[var(--muted)]">
+                          <span>
+                            Exit {leg.date} · {leg.quantity} @ {formatCurrency(leg.exitPrice)}
+                          </span>
+                          {leg.fees ? <span>Fees {formatCurrency(leg.fees)}</span> : null}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </aside>
+    </div>
+  );
+}
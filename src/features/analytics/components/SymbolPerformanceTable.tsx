@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import type { SymbolPerformance } from '../analyticsService';
+
+type SortKey = 'symbol' | 'trades' | 'winRate' | 'pnl' | 'avgHoldDays' | 'expectancy' | 'lastTraded';
+
+interface SymbolPerformanceTableProps {
+  rows: SymbolPerformance[];
+  formatCurrency: (value: number) => string;
+  onSelectSymbol: (symbol: string) => void;
+}
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'symbol', label: 'Symbol' },
+  { key: 'trades', label: 'Trades' },
+  { key: 'winRate', label: 'Win %' },
+  { key: 'pnl', label: 'P&L' },
+  { key: 'avgHoldDays', label: 'Avg Hold' },
+  { key: 'expectancy', label: 'Expectancy' },
+  { key: 'lastTraded', label: 'Last Traded' },
+];
+
+function toneClass(value: number): string {
+  if (value > 0) {
+    return 'text-[var(--positive)]';
+  }
+  if (value < 0) {
+    return 'text-[var(--negative)]';
+  }
+  return '';
+}
+
+function formatHold(days: number | undefined): string {
+  if (days == null) {
+    return '—';
+  }
+  return days < 1 ? 'Same day' : `${days.toFixed(1)}d`;
+}
+
+function compareRows(a: SymbolPerformance, b: SymbolPerformance, key: SortKey): number {
+  if (key === 'symbol' || key === 'lastTraded') {
+    return a[key].localeCompare(b[key]);
+  }
+  // Symbols without a closed trade have no hold time and sort as shorter than any measured one.
+  return (a[key] ?? -1) - (b[key] ?? -1);
+}
+
+export default function SymbolPerformanceTable({ rows, formatCurrency, onSelectSymbol }: SymbolPerformanceTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('pnl');
+  const [isDescending, setIsDescending] = useState(true);
+
+  const sortedRows = useMemo(() => {
+    const sorted = [...rows].sort((a, b) => compareRows(a, b, sortKey));
+    return isDescending ? sorted.reverse() : sorted;
+  }, [isDescending, rows, sortKey]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setIsDescending((current) => !current);
+      return;
+    }
+    setSortKey(key);
+    setIsDescending(key !== 'symbol');
+  };
+
+  return (
+    <div className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)] p-3">
+      <p className="mb-2 text-xs uppercase text-[var(--muted)]">Performance by Symbol</p>
+
+      {rows.length === 0 ? (
+        <p className="py-4 text-center text-sm text-[var(--muted)]">No trades to group yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[640px] text-right text-xs">
+            <thead className="text-[var(--muted)]">
+              <tr>
+                {COLUMNS.map((column) => (
+                  <th key={column.key} className={`px-2 py-1 font-normal ${column.key === 'symbol' ? 'pl-0 text-left' : ''}`}>
+                    <button
+                      type="button"
+                      onClick={() => handleSort(column.key)}
+                      className={`inline-flex min-h-11 items-center gap-1 ${sortKey === column.key ? 'text-[var(--text)]' : ''}`}
+                    >
+                      {column.label}
+                      {sortKey === column.key ? isDescending ? <ArrowDown size={12} /> : <ArrowUp size={12} /> : null}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.map((row) => (
+                <tr
+                  key={row.symbol}
+                  onClick={() => onSelectSymbol(row.symbol)}
+                  className="cursor-pointer border-t border-[var(--border)] transition hover:bg-[var(--surface)]"
+                >
+                  <td className="py-1.5 pr-2 text-left font-semibold">
+                    {row.symbol}
+                    {row.openTrades > 0 ? <span className="ml-1 font-normal text-[var(--muted)]">({row.openTrades} open)</span> : null}
+                  </td>
+                  <td className="px-2 py-1.5">{row.trades}</td>
+                  <td className="px-2 py-1.5">{row.winRate.toFixed(1)}%</td>
+                  <td className={`px-2 py-1.5 ${toneClass(row.pnl)}`}>{formatCurrency(row.pnl)}</td>
+                  <td className="px-2 py-1.5">{formatHold(row.avgHoldDays)}</td>
+                  <td className={`px-2 py-1.5 ${toneClass(row.expectancy)}`}>{formatCurrency(row.expectancy)}</td>
+                  <td className="py-1.5 pl-2">{row.lastTraded}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
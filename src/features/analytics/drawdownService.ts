@@ -0,0 +1,140 @@
+import type { Trade } from '../../shared/types/trade';
+
+export interface EquityPoint {
+  date: string;
+  pnl: number;
+  equity: number;
+  peak: number;
+  drawdown: number;
+  drawdownPct: number;
+}
+
+export interface UnderwaterPeriod {
+  start: string;
+  trough: string;
+  end?: string;
+  depth: number;
+  depthPct: number;
+  durationDays: number;
+  recoveryDays?: number;
+}
+
+export interface DrawdownAnalysis {
+  startingBalance: number;
+  curve: EquityPoint[];
+  periods: UnderwaterPeriod[];
+  maxDrawdown: number;
+  maxDrawdownPct: number;
+  maxDrawdownPeriod?: UnderwaterPeriod;
+  longestDrawdownDays: number;
+  longestRecoveryDays?: number;
+  currentDrawdown: number;
+  currentDrawdownPct: number;
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+function roundTo2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function daysBetween(fromIso: string, toIso: string): number {
+  const from = Date.parse(`${fromIso}T00:00:00Z`);
+  const to = Date.parse(`${toIso}T00:00:00Z`);
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return 0;
+  }
+  return Math.max(0, Math.round((to - from) / MS_PER_DAY));
+}
+
+// One point per trading day, P&L booked on the trade date like the other insight charts.
+export function buildEquityCurve(trades: Trade[], startingBalance: number, includeUnrealized = true): EquityPoint[] {
+  const pnlByDate = new Map<string, number>();
+  trades.forEach((trade) => {
+    const value = includeUnrealized ? trade.totalPnl : trade.realizedPnl;
+    pnlByDate.set(trade.date, (pnlByDate.get(trade.date) ?? 0) + value);
+  });
+
+  let equity = startingBalance;
+  let peak = startingBalance;
+  return [...pnlByDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, pnl]) => {
+      equity += pnl;
+      peak = Math.max(peak, equity);
+      const drawdown = peak - equity;
+      return {
+        date,
+        pnl: roundTo2(pnl),
+        equity: roundTo2(equity),
+        peak: roundTo2(peak),
+        drawdown: roundTo2(drawdown),
+        drawdownPct: peak > 0 ? roundTo2((drawdown / peak) * 100) : 0,
+      };
+    });
+}
+
+// An underwater period runs from the last peak to the first day equity is back at or above it.
+export function findUnderwaterPeriods(curve: EquityPoint[]): UnderwaterPeriod[] {
+  const periods: UnderwaterPeriod[] = [];
+  let peakDate = curve[0]?.date;
+  let current: UnderwaterPeriod | null = null;
+
+  curve.forEach((point) => {
+    if (point.drawdown <= 0) {
+      if (current) {
+        current.end = point.date;
+        current.durationDays = daysBetween(current.start, point.date);
+        current.recoveryDays = daysBetween(current.trough, point.date);
+        periods.push(current);
+        current = null;
+      }
+      peakDate = point.date;
+      return;
+    }
+
+    if (!current) {
+      current = {
+        start: peakDate ?? point.date,
+        trough: point.date,
+        depth: point.drawdown,
+        depthPct: point.drawdownPct,
+        durationDays: 0,
+      };
+    } else if (point.drawdown > current.depth) {
+      current.trough = point.date;
+      current.depth = point.drawdown;
+      current.depthPct = point.drawdownPct;
+    }
+    current.durationDays = daysBetween(current.start, point.date);
+  });
+
+  if (current) {
+    periods.push(current);
+  }
+  return periods;
+}
+
+export function buildDrawdownAnalysis(trades: Trade[], startingBalance: number, includeUnrealized = true): DrawdownAnalysis {
+  const curve = buildEquityCurve(trades, startingBalance, includeUnrealized);
+  const periods = findUnderwaterPeriods(curve);
+  const maxDrawdownPeriod = periods.reduce<UnderwaterPeriod | undefined>(
+    (deepest, period) => (!deepest || period.depth > deepest.depth ? period : deepest),
+    undefined
+  );
+  const recoveries = periods.map((period) => period.recoveryDays).filter((days): days is number => days != null);
+  const last = curve.at(-1);
+
+  return {
+    startingBalance,
+    curve,
+    periods,
+    maxDrawdown: maxDrawdownPeriod?.depth ?? 0,
+    maxDrawdownPct: periods.reduce((max, period) => Math.max(max, period.depthPct), 0),
+    maxDrawdownPeriod,
+    longestDrawdownDays: periods.reduce((max, period) => Math.max(max, period.durationDays), 0),
+    longestRecoveryDays: recoveries.length > 0 ? Math.max(...recoveries) : undefined,
+    currentDrawdown: last?.drawdown ?? 0,
+    currentDrawdownPct: last?.drawdownPct ?? 0,
+  };
+}
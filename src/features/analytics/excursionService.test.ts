@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { PriceBar } from '../../shared/services/priceHistory';
+import type { Trade } from '../../shared/types/trade';
+import { calculateExcursion } from './excursionService';
+
+const scaledOut: Trade = {
+  id: 'trade_1',
+  date: '2026-09-01',
+  symbol: 'INFY',
+  direction: 'long',
+  entryPrice: 100,
+  quantity: 10,
+  status: 'closed',
+  entryLegs: [{ id: 'leg_1', date: '2026-09-01', quantity: 10, entryPrice: 100 }],
+  exitLegs: [
+    { id: 'leg_2', date: '2026-09-02', quantity: 8, exitPrice: 110 },
+    { id: 'leg_3', date: '2026-09-04', quantity: 2, exitPrice: 95 },
+  ],
+  realizedPnl: 70,
+  unrealizedPnl: 0,
+  totalPnl: 70,
+  realizedPnlPercent: 7,
+  totalPnlPercent: 7,
+  createdAt: '2026-09-01T04:00:00.000Z',
+  updatedAt: '2026-09-04T10:00:00.000Z',
+};
+
+function bar(date: string, low: number, high: number, time?: string): PriceBar {
+  return { date, time, open: low, high, low, close: high, volume: 0 };
+}
+
+describe('calculateExcursion', () => {
+  it('sizes each daily bar by the quantity still open that day', () => {
+    const excursion = calculateExcursion(scaledOut, [
+      bar('2026-09-01', 99, 104),
+      bar('2026-09-02', 101, 111),
+      bar('2026-09-03', 90, 112),
+      bar('2026-09-04', 94, 96),
+    ]);
+    // Only 2 shares were left when the price fell to 90 and rose to 112.
+    expect(excursion).toEqual({ mae: -20, mfe: 110 });
+  });
+
+  it('drops intraday exposure once a timed exit has filled', () => {
+    const intraday: Trade = {
+      ...scaledOut,
+      entryTime: '09:30',
+      exitLegs: [
+        { id: 'leg_2', date: '2026-09-01', time: '10:00', quantity: 8, exitPrice: 105 },
+        { id: 'leg_3', date: '2026-09-01', time: '11:00', quantity: 2, exitPrice: 99 },
+      ],
+    };
+    const excursion = calculateExcursion(intraday, [
+      bar('2026-09-01', 99, 105, '09:30'),
+      bar('2026-09-01', 97, 102, '10:15'),
+      bar('2026-09-01', 90, 120, '10:45'),
+    ]);
+    expect(excursion).toEqual({ mae: -20, mfe: 50 });
+  });
+
+  it('measures scale-ins against the average cost of the legs entered so far', () => {
+    const scaledIn: Trade = {
+      ...scaledOut,
+      quantity: 20,
+      entryLegs: [
+        { id: 'leg_1', date: '2026-09-01', quantity: 10, entryPrice: 100 },
+        { id: 'leg_4', date: '2026-09-02', quantity: 10, entryPrice: 110 },
+      ],
+      exitLegs: [{ id: 'leg_2', date: '2026-09-03', quantity: 20, exitPrice: 108 }],
+    };
+    const excursion = calculateExcursion(scaledIn, [bar('2026-09-01', 99, 101), bar('2026-09-02', 104, 112)]);
+    expect(excursion).toEqual({ mae: -20, mfe: 140 });
+  });
+});
@@ -0,0 +1,127 @@
+import { getContractMultiplier, getEntryLegs, getEntryQuantity, getWeightedAverageEntry, isDerivative } from '../../shared/services/tradeMath';
+import type { HistoryInterval, PriceBar } from '../../shared/services/priceHistory';
+import type { Trade, TradeExcursion } from '../../shared/types/trade';
+
+export interface ExcursionPoint {
+  id: string;
+  symbol: string;
+  mae: number;
+  mfe: number;
+  pnl: number;
+}
+
+export interface ExcursionHistoryRequest {
+  from: string;
+  to: string;
+  interval: HistoryInterval;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+// Intraday candles only go back about 60 days.
+const INTRADAY_LOOKBACK_DAYS = 55;
+const INTRADAY_INTERVAL: HistoryInterval = '15m';
+const INTRADAY_BAR_MINUTES = 15;
+
+function roundTo2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function finalExitDate(trade: Trade): string {
+  return trade.exitLegs.reduce((latest, leg) => (leg.date > latest ? leg.date : latest), trade.date);
+}
+
+function finalExitTime(trade: Trade): string | undefined {
+  const exitDate = finalExitDate(trade);
+  return trade.exitLegs
+    .filter((leg) => leg.date === exitDate)
+    .reduce<string | undefined>((latest, leg) => (leg.time && (!latest || leg.time > latest) ? leg.time : latest), undefined);
+}
+
+function stampMs(date: string, time: string): number {
+  return Date.parse(`${date}T${time}:00Z`);
+}
+
+// Recent trades with entry and exit times are measured on 15-minute candles, everything else on daily bars.
+export function excursionHistoryRequest(trade: Trade, today = new Date()): ExcursionHistoryRequest {
+  const to = finalExitDate(trade);
+  const exitTime = finalExitTime(trade);
+  const ageDays = (today.getTime() - Date.parse(`${trade.date}T00:00:00Z`)) / MS_PER_DAY;
+  const useIntraday = Boolean(trade.entryTime && exitTime) && ageDays <= INTRADAY_LOOKBACK_DAYS;
+  return { from: trade.date, to, interval: useIntraday ? INTRADAY_INTERVAL : '1d' };
+}
+
+// History is fetched for the traded symbol, which is the underlying for derivatives, so those are skipped.
+export function needsExcursion(trade: Trade): boolean {
+  return trade.status === 'closed' && !isDerivative(trade.instrument) && (trade.mae == null || trade.mfe == null);
+}
+
+// The most the position held during a bar: entries up to its date, less exits that completed before it began.
+// Each bar is measured against the average cost of the entries made so far.
+function exposureDuring(trade: Trade, bar: PriceBar): { quantity: number; averageCost: number } {
+  const entered = getEntryLegs(trade).filter((leg) => leg.date <= bar.date);
+  const barStart = bar.time ? stampMs(bar.date, bar.time) : undefined;
+  const exited = trade.exitLegs
+    .filter(
+      (leg) =>
+        leg.date < bar.date ||
+        (barStart != null && leg.date === bar.date && leg.time != null && stampMs(leg.date, leg.time) <= barStart)
+    )
+    .reduce((sum, leg) => sum + leg.quantity, 0);
+  return {
+    quantity: Math.max(0, getEntryQuantity(entered) - exited),
+    averageCost: entered.length > 0 ? getWeightedAverageEntry(entered) : trade.entryPrice,
+  };
+}
+
+// Daily bars include the whole entry and exit sessions, so excursions on those days are upper bounds.
+// Intraday bars are kept when any part of them overlaps the time the position was open.
+// Each bar is sized by the quantity still open then, so scaling out shrinks later excursions.
+export function calculateExcursion(trade: Trade, bars: PriceBar[]): TradeExcursion | null {
+  const exitDate = finalExitDate(trade);
+  const exitTime = finalExitTime(trade);
+  const openedAt = trade.entryTime ? stampMs(trade.date, trade.entryTime) : undefined;
+  const closedAt = exitTime ? stampMs(exitDate, exitTime) : undefined;
+  const held = bars.filter((bar) => {
+    if (bar.date < trade.date || bar.date > exitDate) {
+      return false;
+    }
+    if (!bar.time || openedAt == null || closedAt == null) {
+      return true;
+    }
+    const barStart = stampMs(bar.date, bar.time);
+    return barStart <= closedAt && barStart + INTRADAY_BAR_MINUTES * MS_PER_MINUTE > openedAt;
+  });
+  if (held.length === 0 || trade.entryPrice <= 0) {
+    return null;
+  }
+
+  const multiplier = getContractMultiplier(trade.instrument);
+  let mae = 0;
+  let mfe = 0;
+  held.forEach((bar) => {
+    const { quantity, averageCost } = exposureDuring(trade, bar);
+    const size = quantity * multiplier;
+    const adverseMove = trade.direction === 'long' ? bar.low - averageCost : averageCost - bar.high;
+    const favorableMove = trade.direction === 'long' ? bar.high - averageCost : averageCost - bar.low;
+    mae = Math.min(mae, adverseMove * size);
+    mfe = Math.max(mfe, favorableMove * size);
+  });
+
+  return {
+    mae: roundTo2(mae),
+    mfe: roundTo2(mfe),
+  };
+}
+
+export function buildExcursionPoints(trades: Trade[]): ExcursionPoint[] {
+  return trades
+    .filter((trade) => trade.status === 'closed' && trade.mae != null && trade.mfe != null)
+    .map((trade) => ({
+      id: trade.id,
+      symbol: trade.symbol,
+      mae: trade.mae ?? 0,
+      mfe: trade.mfe ?? 0,
+      pnl: trade.realizedPnl,
+    }));
+}
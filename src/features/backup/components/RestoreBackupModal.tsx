@@ -0,0 +1,133 @@
+import { useState, type ChangeEvent } from 'react';
+import { Upload, X } from 'lucide-react';
+import { parseBackup, type BackupParseResult, type JournalBackup, type RestoreMode } from '../services/backupService';
+
+interface RestoreBackupModalProps {
+  onClose: () => void;
+  onRestore: (backup: JournalBackup, mode: RestoreMode) => void;
+}
+
+const MODE_OPTIONS: Array<{ value: RestoreMode; label: string; description: string }> = [
+  {
+    value: 'merge',
+    label: 'Merge',
+    description: 'Keep current data. Trades and goals in both copies keep the most recently updated version; alerts missing here are added.',
+  },
+  {
+    value: 'replace',
+    label: 'Replace',
+    description: 'Use the backup instead of current data. Trades and goals it lacks move to Recently Deleted; alerts and settings are overwritten.',
+  },
+];
+
+export default function RestoreBackupModal({ onClose, onRestore }: RestoreBackupModalProps) {
+  const [fileName, setFileName] = useState('');
+  const [result, setResult] = useState<BackupParseResult | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    try {
+      setResult(parseBackup(await file.text()));
+      setFileName(file.name);
+    } catch {
+      alert('Could not read the selected file.');
+    }
+  };
+
+  const backup = result && 'backup' in result ? result.backup : null;
+
+  return (
+    <div className="modal-backdrop fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-3 sm:p-4">
+      <div className="modal-panel max-h-[92vh] w-full max-w-lg overflow-y-auto rounded-2xl border border-[var(--border)] bg-[var(--surface)]">
+        <div className="flex items-center justify-between border-b border-[var(--border)] px-4 py-3">
+          <h2 className="text-secondary">Restore Backup</h2>
+          <button
+            type="button"
+            className="flex h-11 w-11 items-center justify-center rounded-lg text-[var(--muted)] transition hover:bg-[var(--surface-2)] hover:text-[var(--text)]"
+            onClick={onClose}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-3 px-4 py-4">
+          <label className="block space-y-1 text-sm">
+            <span className="text-label">Backup File</span>
+            <span className="flex h-11 w-full cursor-pointer items-center gap-2 rounded-lg border border-dashed border-[var(--border)] bg-[var(--surface-2)] px-3 text-[var(--muted)]">
+              <Upload size={14} />
+              <span className="truncate">{fileName || 'Choose .json backup'}</span>
+            </span>
+            <input type="file" accept=".json,application/json" onChange={(event) => void handleFile(event)} className="hidden" />
+          </label>
+
+          {result && 'error' in result ? <p className="text-sm text-[var(--negative)]">{result.error}</p> : null}
+
+          {backup ? (
+            <div className="rounded-xl border border-[var(--border)] bg-[var(--surface-2)] p-3 text-sm">
+              <div className="grid grid-cols-2 gap-2 text-[var(--muted)]">
+                <span>Schema: v{backup.schemaVersion}</span>
+                <span>Created: {backup.exportedAt.slice(0, 10)}</span>
+                <span>Trades: {backup.trades.length}</span>
+                <span>Goals: {backup.goals.length}</span>
+                <span>Alerts: {backup.alerts.length}</span>
+                <span>Settings: {Object.keys(backup.settings).length}</span>
+                <span>Reminders: {Object.keys(backup.reminders).length}</span>
+              </div>
+              {result && 'migratedFrom' in result && result.migratedFrom != null ? (
+                <p className="mt-2 text-tertiary-sm">Upgraded from schema v{result.migratedFrom}.</p>
+              ) : null}
+            </div>
+          ) : null}
+
+          {backup ? (
+            <div className="space-y-2">
+              {MODE_OPTIONS.map((option) => (
+                <label
+                  key={option.value}
+                  className={`flex cursor-pointer gap-3 rounded-lg border p-3 text-sm transition ${
+                    mode === option.value ? 'border-[var(--accent)] bg-[var(--surface-2)]' : 'border-[var(--border)]'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="restore-mode"
+                    value={option.value}
+                    checked={mode === option.value}
+                    onChange={() => setMode(option.value)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block font-semibold text-[var(--text)]">{option.label}</span>
+                    <span className="text-tertiary-sm">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          ) : null}
+
+          <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+            <button
+              type="button"
+              onClick={onClose}
+              className="min-h-11 rounded-lg border border-[var(--border)] px-4 py-2 text-sm text-[var(--text)] transition hover:bg-[var(--surface-2)]"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              disabled={!backup}
+              onClick={() => backup && onRestore(backup, mode)}
+              className="min-h-11 rounded-lg bg-[var(--accent)] px-4 py-2 text-secondary-sm text-black transition hover:brightness-110 disabled:opacity-50"
+            >
+              {mode === 'replace' ? 'Replace Data' : 'Merge Backup'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
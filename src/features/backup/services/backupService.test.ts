@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocalAlertRepository } from '../../alerts/repository/alertRepository';
+import { LocalGoalRepository } from '../../goals/repository/goalRepository';
+import { LocalTradeRepository } from '../../trades/repository/tradeRepository';
+import { BACKUP_APP_ID, BACKUP_SCHEMA_VERSION, restoreBackup } from './backupService';
+
+function memoryStorage(): Storage {
+  const values = new Map<string, string>();
+  return {
+    get length() {
+      return values.size;
+    },
+    clear: () => values.clear(),
+    getItem: (key) => values.get(key) ?? null,
+    key: (index) => Array.from(values.keys())[index] ?? null,
+    removeItem: (key) => {
+      values.delete(key);
+    },
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+  };
+}
+
+describe('restoreBackup', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+
+  it('moves trades and goals missing from the backup to recently deleted when replacing', () => {
+    const tradeRepo = new LocalTradeRepository();
+    const goalRepo = new LocalGoalRepository();
+    tradeRepo.createOpenTrade({ date: '2026-09-01', symbol: 'INFY', direction: 'long', entryPrice: 1850, quantity: 10 });
+    const [kept, displaced] = tradeRepo.createOpenTrade({
+      date: '2026-09-02',
+      symbol: 'TCS',
+      direction: 'long',
+      entryPrice: 4000,
+      quantity: 5,
+    }).sort((a, b) => a.symbol.localeCompare(b.symbol));
+    const [goal] = goalRepo.upsertGoal({ type: 'monthly_pnl', period: '2026-09', target: 50000 });
+
+    const result = restoreBackup(
+      {
+        app: BACKUP_APP_ID,
+        schemaVersion: BACKUP_SCHEMA_VERSION,
+        exportedAt: '2026-09-03T04:00:00.000Z',
+        trades: [kept],
+        goals: [],
+        alerts: [],
+        settings: {},
+        reminders: {},
+        preferences: {},
+      },
+      'replace',
+      tradeRepo,
+      goalRepo,
+      new LocalAlertRepository()
+    );
+
+    expect(result.trades.map((trade) => trade.id)).toEqual([kept.id]);
+    expect(tradeRepo.listTrades().map((trade) => trade.id)).toEqual([kept.id]);
+    expect(tradeRepo.listDeletedTrades()).toMatchObject([{ id: displaced.id, symbol: 'TCS' }]);
+    expect(goalRepo.listGoals()).toEqual([]);
+    expect(goalRepo.listDeletedGoals()).toMatchObject([{ id: goal.id }]);
+  });
+});
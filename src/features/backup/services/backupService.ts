@@ -0,0 +1,276 @@
+import { normalizeAlert, type AlertRepository } from '../../alerts/repository/alertRepository';
+import { normalizeGoal, type GoalRepository } from '../../goals/repository/goalRepository';
+import { normalizeTrade, type TradeRepository } from '../../trades/repository/tradeRepository';
+import {
+  ANALYTICS_UNREALIZED_STORAGE_KEY,
+  AUTO_REFRESH_MARKS_STORAGE_KEY,
+  CONFIRM_DELETE_STORAGE_KEY,
+  CSV_MAPPING_PROFILES_STORAGE_KEY,
+  DASHBOARD_TOOLTIP_DISMISSED_KEY,
+  DISMISSED_AFTER_FIVE_TRADES_STORAGE_KEY,
+  DISMISSED_INSIGHTS_STORAGE_KEY,
+  DISMISSED_PORTFOLIO_BANNER_STORAGE_KEY,
+  HAS_SKIPPED_PORTFOLIO_VALUE_STORAGE_KEY,
+  INSIGHTS_TOOLTIP_DISMISSED_KEY,
+  MONTH_END_STORAGE_KEY,
+  PORTFOLIO_NUDGE_DISMISS_DATE_STORAGE_KEY,
+  PRICE_DISCLAIMER_SEEN_STORAGE_KEY,
+  TRADE_VIEW_MODE_STORAGE_KEY,
+  TRADES_TOOLTIP_DISMISSED_KEY,
+  WEEKLY_REVIEW_STORAGE_KEY,
+} from '../../../shared/config/storageKeys';
+import { CURRENCY_STORAGE_KEY, PORTFOLIO_VALUE_STORAGE_KEY } from '../../../shared/config/tradingOptions';
+import { mergeGoalsByLatest, mergeTradesByLatest } from '../../../shared/services/mergeRecords';
+import { isDeleted } from '../../../shared/services/tombstones';
+import type { PriceAlert } from '../../../shared/types/alert';
+import type { Goal } from '../../../shared/types/goal';
+import type { Trade } from '../../../shared/types/trade';
+
+// Bump this and add an entry to BACKUP_MIGRATIONS whenever the backup shape changes.
+export const BACKUP_SCHEMA_VERSION = 2;
+export const BACKUP_APP_ID = 'tradebros-journal';
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface JournalBackup {
+  app: typeof BACKUP_APP_ID;
+  schemaVersion: number;
+  exportedAt: string;
+  trades: Trade[];
+  goals: Goal[];
+  alerts: PriceAlert[];
+  settings: Record<string, string>;
+  reminders: Record<string, string>;
+  preferences: Record<string, string>;
+}
+
+export type BackupParseResult = { backup: JournalBackup; migratedFrom?: number } | { error: string };
+
+const SETTINGS_KEYS = [
+  CURRENCY_STORAGE_KEY,
+  PORTFOLIO_VALUE_STORAGE_KEY,
+  CONFIRM_DELETE_STORAGE_KEY,
+  AUTO_REFRESH_MARKS_STORAGE_KEY,
+  ANALYTICS_UNREALIZED_STORAGE_KEY,
+  TRADE_VIEW_MODE_STORAGE_KEY,
+  CSV_MAPPING_PROFILES_STORAGE_KEY,
+];
+
+const REMINDER_KEYS = [WEEKLY_REVIEW_STORAGE_KEY, MONTH_END_STORAGE_KEY];
+
+const PREFERENCE_KEYS = [
+  HAS_SKIPPED_PORTFOLIO_VALUE_STORAGE_KEY,
+  DISMISSED_PORTFOLIO_BANNER_STORAGE_KEY,
+  DISMISSED_AFTER_FIVE_TRADES_STORAGE_KEY,
+  PORTFOLIO_NUDGE_DISMISS_DATE_STORAGE_KEY,
+  PRICE_DISCLAIMER_SEEN_STORAGE_KEY,
+  DASHBOARD_TOOLTIP_DISMISSED_KEY,
+  TRADES_TOOLTIP_DISMISSED_KEY,
+  INSIGHTS_TOOLTIP_DISMISSED_KEY,
+  DISMISSED_INSIGHTS_STORAGE_KEY,
+];
+
+// Each migration lifts a backup from the keyed version to the next one.
+const BACKUP_MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 0 is the bare `{ trades, goals }` snapshot that cloud sync stores.
+  0: (raw) => ({
+    app: BACKUP_APP_ID,
+    schemaVersion: 1,
+    exportedAt: typeof raw.updated_at === 'string' ? raw.updated_at : new Date().toISOString(),
+    trades: raw.trades,
+    goals: raw.goals,
+    settings: {},
+    reminders: {},
+    preferences: {},
+  }),
+  // Version 2 adds price alerts.
+  1: (raw) => ({ ...raw, schemaVersion: 2, alerts: [] }),
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function readKeys(keys: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  keys.forEach((key) => {
+    const value = localStorage.getItem(key);
+    if (value != null) {
+      values[key] = value;
+    }
+  });
+  return values;
+}
+
+// Only keys the app knows about are restored, so a hand-edited backup cannot plant arbitrary storage entries.
+function pickKnownKeys(raw: unknown, keys: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  if (!isObject(raw)) {
+    return values;
+  }
+  keys.forEach((key) => {
+    if (typeof raw[key] === 'string') {
+      values[key] = raw[key];
+    }
+  });
+  return values;
+}
+
+function writeKeys(keys: string[], values: Record<string, string>, mode: RestoreMode): void {
+  keys.forEach((key) => {
+    const value = values[key];
+    if (value != null) {
+      if (mode === 'replace' || localStorage.getItem(key) == null) {
+        localStorage.setItem(key, value);
+      }
+    } else if (mode === 'replace') {
+      localStorage.removeItem(key);
+    }
+  });
+}
+
+export function createBackup(tradeRepo: TradeRepository, goalRepo: GoalRepository, alertRepo: AlertRepository): JournalBackup {
+  return {
+    app: BACKUP_APP_ID,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    trades: tradeRepo.listTrades(),
+    goals: goalRepo.listGoals(),
+    alerts: alertRepo.listAlerts(),
+    settings: readKeys(SETTINGS_KEYS),
+    reminders: readKeys(REMINDER_KEYS),
+    preferences: readKeys(PREFERENCE_KEYS),
+  };
+}
+
+export function downloadBackup(backup: JournalBackup): void {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `tradebros_backup_${backup.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function parseBackup(text: string): BackupParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { error: 'This file is not valid JSON.' };
+  }
+
+  let raw: Record<string, unknown>;
+  if (Array.isArray(parsed)) {
+    raw = { trades: parsed };
+  } else if (isObject(parsed)) {
+    raw = parsed;
+  } else {
+    return { error: 'This file does not contain a journal backup.' };
+  }
+
+  if (raw.app != null && raw.app !== BACKUP_APP_ID) {
+    return { error: 'This backup was created by a different app.' };
+  }
+
+  let version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  const originalVersion = version;
+  if (!Number.isInteger(version) || version < 0) {
+    return { error: 'The backup has an invalid schema version.' };
+  }
+  if (version > BACKUP_SCHEMA_VERSION) {
+    return { error: `This backup uses schema v${version}, which is newer than this app supports (v${BACKUP_SCHEMA_VERSION}).` };
+  }
+
+  while (version < BACKUP_SCHEMA_VERSION) {
+    const migrate = BACKUP_MIGRATIONS[version];
+    if (!migrate) {
+      return { error: `No migration available for backup schema v${version}.` };
+    }
+    raw = migrate(raw);
+    version += 1;
+  }
+
+  if (!Array.isArray(raw.trades)) {
+    return { error: 'The backup is missing its trades list.' };
+  }
+  if (raw.goals != null && !Array.isArray(raw.goals)) {
+    return { error: 'The backup goals list is malformed.' };
+  }
+  if (raw.alerts != null && !Array.isArray(raw.alerts)) {
+    return { error: 'The backup alerts list is malformed.' };
+  }
+
+  const trades = raw.trades.map(normalizeTrade).filter((trade): trade is Trade => trade !== null);
+  if (trades.length < raw.trades.length) {
+    return { error: `${raw.trades.length - trades.length} trade record(s) in the backup are malformed.` };
+  }
+  const goals = (Array.isArray(raw.goals) ? raw.goals : [])
+    .map(normalizeGoal)
+    .filter((goal): goal is Goal => goal !== null);
+  const alerts = (Array.isArray(raw.alerts) ? raw.alerts : [])
+    .map(normalizeAlert)
+    .filter((alert): alert is PriceAlert => alert !== null);
+
+  return {
+    backup: {
+      app: BACKUP_APP_ID,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : new Date().toISOString(),
+      trades,
+      goals,
+      alerts,
+      settings: pickKnownKeys(raw.settings, SETTINGS_KEYS),
+      reminders: pickKnownKeys(raw.reminders, REMINDER_KEYS),
+      preferences: pickKnownKeys(raw.preferences, PREFERENCE_KEYS),
+    },
+    migratedFrom: originalVersion < BACKUP_SCHEMA_VERSION ? originalVersion : undefined,
+  };
+}
+
+// Replacing deletes whatever the backup lacks the same way a delete does, so it lands in Recently Deleted and
+// the deletion syncs, rather than vanishing from this device only.
+function tombstoneDisplaced<T extends { id: string; updatedAt: string; deletedAt?: string }>(current: T[], kept: T[]): T[] {
+  const keptIds = new Set(kept.map((record) => record.id));
+  const timestamp = new Date().toISOString();
+  return current
+    .filter((record) => !keptIds.has(record.id))
+    .map((record) => ({ ...record, deletedAt: timestamp, updatedAt: timestamp }));
+}
+
+export function restoreBackup(
+  backup: JournalBackup,
+  mode: RestoreMode,
+  tradeRepo: TradeRepository,
+  goalRepo: GoalRepository,
+  alertRepo: AlertRepository
+): { trades: Trade[]; goals: Goal[]; alerts: PriceAlert[] } {
+  // Local tombstones take part in the merge so a trade deleted after the backup was taken stays deleted.
+  const trades =
+    mode === 'replace'
+      ? backup.trades
+      : mergeTradesByLatest([...tradeRepo.listTrades(), ...tradeRepo.listDeletedTrades()], backup.trades).filter(
+          (trade) => !isDeleted(trade)
+        );
+  const goals =
+    mode === 'replace'
+      ? backup.goals
+      : mergeGoalsByLatest([...goalRepo.listGoals(), ...goalRepo.listDeletedGoals()], backup.goals).filter(
+          (goal) => !isDeleted(goal)
+        );
+  // Alerts carry no edit time, so a merge keeps local alerts and adds the ones this device lacks.
+  const localAlerts = alertRepo.listAlerts();
+  const localAlertIds = new Set(localAlerts.map((alert) => alert.id));
+  const alerts =
+    mode === 'replace' ? backup.alerts : [...localAlerts, ...backup.alerts.filter((alert) => !localAlertIds.has(alert.id))];
+
+  tradeRepo.saveTrades(mode === 'replace' ? [...trades, ...tombstoneDisplaced(tradeRepo.listTrades(), trades)] : trades);
+  goalRepo.saveGoals(mode === 'replace' ? [...goals, ...tombstoneDisplaced(goalRepo.listGoals(), goals)] : goals);
+  alertRepo.saveAlerts(alerts);
+  writeKeys(SETTINGS_KEYS, backup.settings, mode);
+  writeKeys(REMINDER_KEYS, backup.reminders, mode);
+  writeKeys(PREFERENCE_KEYS, backup.preferences, mode);
+
+  return { trades, goals, alerts };
+}
@@ -1,3 +1,4 @@
+import { isDeleted } from '../../../shared/services/tombstones';
 import type { Goal, GoalType } from '../../../shared/types/goal';
 
 const STORAGE_KEY = 'goals';
@@ -6,6 +7,10 @@ export interface GoalRepository {
   listGoals(): Goal[];
   upsertGoal(input: { type: GoalType; period: string; target: number }): Goal[];
   deleteGoal(goalId: string): Goal[];
+  listDeletedGoals(): Goal[];
+  restoreGoal(goalId: string): Goal[];
+  purgeDeletedGoals(cutoffIso: string): Goal[];
+  saveGoals(goals: Goal[]): void;
 }
 
 function nowIso(): string {
@@ -33,7 +38,7 @@ function toNumber(value: unknown, fallback = 0): number {
   return fallback;
 }
 
-function normalizeGoal(raw: unknown): Goal | null {
+export function normalizeGoal(raw: unknown): Goal | null {
   if (!isObject(raw) || typeof raw.id !== 'string') {
     return null;
   }
@@ -54,6 +59,7 @@ function normalizeGoal(raw: unknown): Goal | null {
     target: toNumber(raw.target),
     createdAt,
     updatedAt,
+    deletedAt: typeof raw.deletedAt === 'string' ? raw.deletedAt : undefined,
   };
 }
 
@@ -62,7 +68,12 @@ export class LocalGoalRepository implements GoalRepository {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(goals));
   }
 
-  listGoals(): Goal[] {
+  private live(goals: Goal[]): Goal[] {
+    return goals.filter((goal) => !isDeleted(goal));
+  }
+
+  // Includes soft-deleted tombstones, which sync needs to propagate deletions.
+  listAllGoals(): Goal[] {
     const raw = localStorage.getItem(STORAGE_KEY);
     if (!raw) {
       return [];
@@ -80,12 +91,24 @@ export class LocalGoalRepository implements GoalRepository {
     }
   }
 
+  listGoals(): Goal[] {
+    return this.live(this.listAllGoals());
+  }
+
+  listDeletedGoals(): Goal[] {
+    return this.listAllGoals()
+      .filter(isDeleted)
+      .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+  }
+
   upsertGoal(input: { type: GoalType; period: string; target: number }): Goal[] {
-    const goals = this.listGoals();
+    const goals = this.listAllGoals();
     const now = nowIso();
-    const existing = goals.find((goal) => goal.type === input.type && goal.period === input.period);
+    const matches = goals.filter((goal) => goal.type === input.type && goal.period === input.period);
+    const existing = matches.find((goal) => !isDeleted(goal)) ?? matches[0];
     let next: Goal[];
 
+    // A deleted goal for the same period is revived so its id stays stable across devices.
     if (existing) {
       next = goals.map((goal) =>
         goal.id === existing.id
@@ -93,6 +116,7 @@ export class LocalGoalRepository implements GoalRepository {
               ...goal,
               target: input.target,
               updatedAt: now,
+              deletedAt: undefined,
             }
           : goal
       );
@@ -111,13 +135,42 @@ export class LocalGoalRepository implements GoalRepository {
     }
 
     this.save(next);
-    return next;
+    return this.live(next);
   }
 
   deleteGoal(goalId: string): Goal[] {
-    const goals = this.listGoals();
-    const next = goals.filter((goal) => goal.id !== goalId);
+    const now = nowIso();
+    const next = this.listAllGoals().map((goal) =>
+      goal.id === goalId && !isDeleted(goal) ? { ...goal, deletedAt: now, updatedAt: now } : goal
+    );
+    this.save(next);
+    return this.live(next);
+  }
+
+  restoreGoal(goalId: string): Goal[] {
+    const now = nowIso();
+    const next = this.listAllGoals().map((goal) =>
+      goal.id === goalId && isDeleted(goal) ? { ...goal, deletedAt: undefined, updatedAt: now } : goal
+    );
+    this.save(next);
+    return this.live(next);
+  }
+
+  purgeDeletedGoals(cutoffIso: string): Goal[] {
+    const next = this.listAllGoals().filter((goal) => !goal.deletedAt || goal.deletedAt >= cutoffIso);
     this.save(next);
-    return next;
+    return this.live(next);
+  }
+
+  // Writes exactly the given set, tombstones included; sync uses it to drop goals purged elsewhere.
+  saveAllGoals(goals: Goal[]): void {
+    this.save(goals);
+  }
+
+  // Tombstones not present in `goals` are kept so callers working on the live list cannot drop them.
+  saveGoals(goals: Goal[]): void {
+    const savedIds = new Set(goals.map((goal) => goal.id));
+    const tombstones = this.listAllGoals().filter((goal) => isDeleted(goal) && !savedIds.has(goal.id));
+    this.save([...goals, ...tombstones]);
   }
 }
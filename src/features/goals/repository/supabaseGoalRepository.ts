@@ -0,0 +1,243 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { mergeGoalsByLatest } from '../../../shared/services/mergeRecords';
+import { isDeleted, recordVersion } from '../../../shared/services/tombstones';
+import type { Goal, GoalType } from '../../../shared/types/goal';
+import { supabase } from '../../../supabaseClient';
+import { LocalSyncOutboxRepository, type OutboxStatus } from '../../sync/repository/syncOutboxRepository';
+import { OutboxSync } from '../../sync/services/outboxSync';
+import { LocalGoalRepository, normalizeGoal, type GoalRepository } from './goalRepository';
+
+const GOALS_TABLE = 'goals';
+const REALTIME_DEBOUNCE_MS = 400;
+
+interface GoalRow {
+  user_id: string;
+  id: string;
+  type: string;
+  period: string;
+  target: number;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface SupabaseGoalRepositoryOptions {
+  onError?: (message: string) => void;
+  onOutboxChange?: (status: OutboxStatus) => void;
+}
+
+function toGoalRow(userId: string, goal: Goal): GoalRow {
+  return {
+    user_id: userId,
+    id: goal.id,
+    type: goal.type,
+    period: goal.period,
+    target: goal.target,
+    created_at: goal.createdAt,
+    updated_at: goal.updatedAt,
+    deleted_at: goal.deletedAt ?? null,
+  };
+}
+
+function fromGoalRow(row: GoalRow): Goal | null {
+  return normalizeGoal({
+    id: row.id,
+    type: row.type,
+    period: row.period,
+    target: row.target,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    deletedAt: row.deleted_at ?? undefined,
+  });
+}
+
+export class SupabaseGoalRepository implements GoalRepository {
+  private readonly local = new LocalGoalRepository();
+  private readonly userId: string;
+  private readonly options: SupabaseGoalRepositoryOptions;
+  private readonly sync: OutboxSync;
+
+  constructor(userId: string, options: SupabaseGoalRepositoryOptions = {}) {
+    this.userId = userId;
+    this.options = options;
+    this.sync = new OutboxSync(new LocalSyncOutboxRepository(userId), 'goals', (upsertIds, deleteIds) => this.pushPending(upsertIds, deleteIds), {
+      onStatusChange: options.onOutboxChange,
+    });
+  }
+
+  private applyChange(change: () => Goal[]): Goal[] {
+    const previous = this.local.listAllGoals();
+    const next = change();
+    const stored = this.local.listAllGoals();
+    const previousById = new Map(previous.map((goal) => [goal.id, JSON.stringify(goal)]));
+    const storedIds = new Set(stored.map((goal) => goal.id));
+
+    const changed = stored.filter((goal) => previousById.get(goal.id) !== JSON.stringify(goal));
+    const removedIds = previous.filter((goal) => !storedIds.has(goal.id)).map((goal) => goal.id);
+    this.sync.enqueue(changed.map((goal) => goal.id), removedIds);
+    return next;
+  }
+
+  private async pushPending(upsertIds: string[], deleteIds: string[]): Promise<boolean> {
+    const storedById = new Map(this.local.listAllGoals().map((goal) => [goal.id, goal]));
+    const changed = upsertIds.flatMap((id) => storedById.get(id) ?? []);
+    const removedIds = [...deleteIds, ...upsertIds.filter((id) => !storedById.has(id))];
+    try {
+      return await this.push(changed, removedIds);
+    } catch (error) {
+      this.options.onError?.(error instanceof Error ? error.message : 'Cloud sync failed.');
+      return false;
+    }
+  }
+
+  private async push(changed: Goal[], removedIds: string[]): Promise<boolean> {
+    let error: PostgrestError | null = null;
+    if (changed.length > 0) {
+      ({ error } = await supabase
+        .from(GOALS_TABLE)
+        .upsert(changed.map((goal) => toGoalRow(this.userId, goal)), { onConflict: 'user_id,id' }));
+    }
+    if (!error && removedIds.length > 0) {
+      ({ error } = await supabase.from(GOALS_TABLE).delete().eq('user_id', this.userId).in('id', removedIds));
+    }
+    if (error) {
+      this.options.onError?.(error.message);
+      return false;
+    }
+    return true;
+  }
+
+  async hydrate(legacyGoals: Goal[] = []): Promise<{ goals: Goal[]; error: PostgrestError | null }> {
+    const { data, error } = await supabase.from(GOALS_TABLE).select('*').eq('user_id', this.userId).returns<GoalRow[]>();
+    if (error) {
+      return { goals: this.local.listGoals(), error };
+    }
+
+    const pendingDeletes = new Set(this.sync.listPendingDeletes());
+    const remoteGoals = (data ?? [])
+      .map(fromGoalRow)
+      .filter((goal): goal is Goal => goal !== null && !pendingDeletes.has(goal.id));
+    const merged = mergeGoalsByLatest(mergeGoalsByLatest(this.local.listAllGoals(), legacyGoals), remoteGoals);
+    this.local.saveGoals(merged);
+
+    const remoteById = new Map(remoteGoals.map((goal) => [goal.id, goal]));
+    const outdated = merged.filter((goal) => {
+      const remote = remoteById.get(goal.id);
+      return !remote || recordVersion(goal) > recordVersion(remote);
+    });
+    this.sync.enqueue(outdated.map((goal) => goal.id), []);
+    this.sync.resume();
+    return { goals: this.local.listGoals(), error: null };
+  }
+
+  flush(): Promise<boolean> {
+    return this.sync.drain();
+  }
+
+  private async applyRemoteGoals(goalIds: string[]): Promise<boolean> {
+    const pendingIds = new Set(this.sync.listPendingIds());
+    const scope = new Set(goalIds.filter((id) => !pendingIds.has(id)));
+    if (scope.size === 0) {
+      return false;
+    }
+    const { data, error } = await supabase
+      .from(GOALS_TABLE)
+      .select('*')
+      .eq('user_id', this.userId)
+      .in('id', [...scope])
+      .returns<GoalRow[]>();
+    if (error) {
+      this.options.onError?.(error.message);
+      return false;
+    }
+
+    const remoteGoals = (data ?? []).map(fromGoalRow).filter((goal): goal is Goal => goal !== null);
+    const remoteIds = new Set(remoteGoals.map((goal) => goal.id));
+    const stored = this.local.listAllGoals();
+    // A tombstone missing remotely was purged elsewhere; anything else missing is kept and re-pushed.
+    const localGoals = stored.filter((goal) => scope.has(goal.id) && (remoteIds.has(goal.id) || !isDeleted(goal)));
+    const merged = mergeGoalsByLatest(localGoals, remoteGoals);
+    const next = [...stored.filter((goal) => !scope.has(goal.id)), ...merged];
+    if (JSON.stringify(next) === JSON.stringify(stored)) {
+      return false;
+    }
+    this.local.saveAllGoals(next);
+    const remoteById = new Map(remoteGoals.map((goal) => [goal.id, goal]));
+    const outdated = merged.filter((goal) => {
+      const remote = remoteById.get(goal.id);
+      return !remote || recordVersion(goal) > recordVersion(remote);
+    });
+    this.sync.enqueue(outdated.map((goal) => goal.id), []);
+    return true;
+  }
+
+  subscribeToRemoteChanges(onChange: (goals: Goal[]) => void): () => void {
+    const changedIds = new Set<string>();
+    let timer: number | null = null;
+
+    const applyChanged = async () => {
+      timer = null;
+      const ids = [...changedIds];
+      changedIds.clear();
+      if (await this.applyRemoteGoals(ids)) {
+        onChange(this.local.listGoals());
+      }
+    };
+
+    const channel = supabase
+      .channel(`goals:${this.userId}`)
+      .on<GoalRow>('postgres_changes', { event: '*', schema: 'public', table: GOALS_TABLE, filter: `user_id=eq.${this.userId}` }, (payload) => {
+        const goalId = 'id' in payload.new ? payload.new.id : 'id' in payload.old ? payload.old.id : undefined;
+        if (!goalId) {
+          return;
+        }
+        changedIds.add(goalId);
+        if (timer === null) {
+          timer = window.setTimeout(() => void applyChanged(), REALTIME_DEBOUNCE_MS);
+        }
+      })
+      .subscribe();
+
+    return () => {
+      if (timer !== null) {
+        window.clearTimeout(timer);
+      }
+      void supabase.removeChannel(channel);
+    };
+  }
+
+  startBackgroundSync(): () => void {
+    return this.sync.start();
+  }
+
+  listGoals(): Goal[] {
+    return this.local.listGoals();
+  }
+
+  upsertGoal(input: { type: GoalType; period: string; target: number }): Goal[] {
+    return this.applyChange(() => this.local.upsertGoal(input));
+  }
+
+  deleteGoal(goalId: string): Goal[] {
+    return this.applyChange(() => this.local.deleteGoal(goalId));
+  }
+
+  listDeletedGoals(): Goal[] {
+    return this.local.listDeletedGoals();
+  }
+
+  restoreGoal(goalId: string): Goal[] {
+    return this.applyChange(() => this.local.restoreGoal(goalId));
+  }
+
+  purgeDeletedGoals(cutoffIso: string): Goal[] {
+    return this.applyChange(() => this.local.purgeDeletedGoals(cutoffIso));
+  }
+
+  saveGoals(goals: Goal[]): void {
+    this.applyChange(() => {
+      this.local.saveGoals(goals);
+      return this.local.listGoals();
+    });
+  }
+}
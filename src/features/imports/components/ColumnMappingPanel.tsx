@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import type { MappingProfile } from '../repository/mappingProfileRepository';
+import { IMPORT_FIELDS, type ColumnMapping, type CsvHeaderRow, type ImportField } from '../services/columnMapping';
+
+interface ColumnMappingPanelProps {
+  table: CsvHeaderRow;
+  mapping: ColumnMapping;
+  profiles: MappingProfile[];
+  onChangeMapping: (mapping: ColumnMapping) => void;
+  onSaveProfile: (name: string) => void;
+  onDeleteProfile: (profileId: string) => void;
+}
+
+export default function ColumnMappingPanel({
+  table,
+  mapping,
+  profiles,
+  onChangeMapping,
+  onSaveProfile,
+  onDeleteProfile,
+}: ColumnMappingPanelProps) {
+  const [profileName, setProfileName] = useState('');
+  const [selectedProfileId, setSelectedProfileId] = useState('');
+
+  const updateField = (field: ImportField, header: string) => {
+    const next = { ...mapping };
+    if (header) {
+      next[field] = header;
+    } else {
+      delete next[field];
+    }
+    onChangeMapping(next);
+  };
+
+  const applyProfile = (profileId: string) => {
+    setSelectedProfileId(profileId);
+    const profile = profiles.find((item) => item.id === profileId);
+    if (profile) {
+      // Columns missing from this file are dropped so a stale profile cannot point at nothing.
+      const next: ColumnMapping = {};
+      IMPORT_FIELDS.forEach(({ field }) => {
+        const header = profile.mapping[field];
+        if (header && table.headers.includes(header)) {
+          next[field] = header;
+        }
+      });
+      onChangeMapping(next);
+      setProfileName(profile.name);
+    }
+  };
+
+  const saveProfile = () => {
+    if (!profileName.trim()) {
+      alert('Give the mapping profile a name.');
+      return;
+    }
+    onSaveProfile(profileName);
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-[var(--border)] bg-[var(--surface-2)] p-3">
+      <div className="grid grid-cols-1 gap-2 md:grid-cols-[1fr_auto]">
+        <select
+          value={selectedProfileId}
+          onChange={(event) => applyProfile(event.target.value)}
+          className="h-11 w-full rounded-lg border border-[var(--border)] bg-[var(--surface)] px-3 text-sm text-[var(--text)] outline-none focus:border-[var(--accent)]"
+        >
+          <option value="">Saved mapping profiles...</option>
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          disabled={!selectedProfileId}
+          onClick={() => {
+            onDeleteProfile(selectedProfileId);
+            setSelectedProfileId('');
+          }}
+          className="flex min-h-11 items-center justify-center gap-1 rounded-lg border border-[var(--border)] px-3 text-sm text-[var(--muted)] transition hover:text-[var(--negative)] disabled:opacity-50"
+        >
+          <Trash2 size={14} /> Delete
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+        {IMPORT_FIELDS.map((definition) => (
+          <label key={definition.field} className="flex items-center gap-2 text-sm">
+            <span className="w-28 shrink-0 text-label">
+              {definition.label}
+              {definition.required ? ' *' : ''}
+            </span>
+            <select
+              value={mapping[definition.field] ?? ''}
+              onChange={(event) => updateField(definition.field, event.target.value)}
+              className="h-9 min-w-0 flex-1 rounded-lg border border-[var(--border)] bg-[var(--surface)] px-2 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+            >
+              <option value="">Not mapped</option>
+              {table.headers.map((header, index) => (
+                <option key={`${header}-${index}`} value={header}>
+                  {table.labels[index] || `Column ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <p className="text-tertiary-sm">Map Entry Legs and Exit Legs to keep scaled entries and partial exits; otherwise Entry, Quantity and Exit Price create a single round trip.</p>
+
+      <div className="grid grid-cols-1 gap-2 md:grid-cols-[1fr_auto]">
+        <input
+          value={profileName}
+          onChange={(event) => setProfileName(event.target.value)}
+          placeholder="Profile name, e.g. Old journal"
+          className="h-11 w-full rounded-lg border border-[var(--border)] bg-[var(--surface)] px-3 text-sm text-[var(--text)] outline-none focus:border-[var(--accent)]"
+        />
+        <button
+          type="button"
+          onClick={saveProfile}
+          className="min-h-11 rounded-lg border border-[var(--border)] px-3 text-sm text-[var(--text)] transition hover:bg-[var(--surface)]"
+        >
+          Save Mapping
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { Upload, X } from 'lucide-react';
+import type { ImportTradeInput, Trade } from '../../../shared/types/trade';
+import { LocalMappingProfileRepository } from '../repository/mappingProfileRepository';
+import { BROKER_PARSERS } from '../services/brokers/brokerRegistry';
+import type { BrokerId } from '../services/brokers/brokerTypes';
+import { readCsvHeaderRow, suggestColumnMapping, type ColumnMapping } from '../services/columnMapping';
+import { buildImportPreview, buildMappedImportPreview, type ImportPreview } from '../services/importService';
+import ColumnMappingPanel from './ColumnMappingPanel';
+
+type ImportSource = BrokerId | 'auto' | 'custom';
+
+interface ImportTradesModalProps {
+  existingTrades: Trade[];
+  formatCurrency: (value: number) => string;
+  onClose: () => void;
+  onImport: (drafts: ImportTradeInput[]) => void;
+}
+
+function sumQuantity(legs: Array<{ quantity: number }>): number {
+  return legs.reduce((sum, leg) => sum + leg.quantity, 0);
+}
+
+function averagePrice(legs: Array<{ quantity: number; entryPrice: number }>): number {
+  const quantity = sumQuantity(legs);
+  return quantity > 0 ? legs.reduce((sum, leg) => sum + leg.entryPrice * leg.quantity, 0) / quantity : 0;
+}
+
+export default function ImportTradesModal({ existingTrades, formatCurrency, onClose, onImport }: ImportTradesModalProps) {
+  const profileRepo = useMemo(() => new LocalMappingProfileRepository(), []);
+  const [source, setSource] = useState<ImportSource>('auto');
+  const [fileText, setFileText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [customMapping, setCustomMapping] = useState<ColumnMapping | null>(null);
+  const [profiles, setProfiles] = useState(() => profileRepo.listProfiles());
+
+  const headerRow = useMemo(
+    () => (source === 'custom' && fileText ? readCsvHeaderRow(fileText) : null),
+    [fileText, source]
+  );
+  const mapping = useMemo(
+    () => customMapping ?? (headerRow ? suggestColumnMapping(headerRow.headers) : {}),
+    [customMapping, headerRow]
+  );
+
+  const preview: ImportPreview | null = useMemo(() => {
+    if (!fileText) {
+      return null;
+    }
+    if (source === 'custom') {
+      return headerRow
+        ? buildMappedImportPreview(headerRow, mapping, existingTrades)
+        : { fillCount: 0, items: [], errors: [{ row: 0, message: 'The file has no header row.' }] };
+    }
+    return buildImportPreview(fileText, source, existingTrades);
+  }, [existingTrades, fileText, headerRow, mapping, source]);
+
+  const duplicateCount = preview?.items.filter((item) => item.duplicateOfTradeId).length ?? 0;
+  const selectedDrafts = (preview?.items ?? [])
+    .filter((item, index) => !item.duplicateOfTradeId && !excluded.has(index))
+    .map((item) => item.draft);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    try {
+      setFileText(await file.text());
+      setFileName(file.name);
+      setExcluded(new Set());
+      setCustomMapping(null);
+    } catch {
+      alert('Could not read the selected file.');
+    }
+  };
+
+  const changeMapping = (next: ColumnMapping) => {
+    setCustomMapping(next);
+    setExcluded(new Set());
+  };
+
+  const toggleItem = (index: number, checked: boolean) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="modal-backdrop fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-3 sm:p-4">
+      <div className="modal-panel max-h-[92vh] w-full max-w-3xl overflow-y-auto rounded-2xl border border-[var(--border)] bg-[var(--surface)]">
+        <div className="flex items-center justify-between border-b border-[var(--border)] px-4 py-3">
+          <h2 className="text-secondary">Import Trades</h2>
+          <button
+            type="button"
+            className="flex h-11 w-11 items-center justify-center rounded-lg text-[var(--muted)] transition hover:bg-[var(--surface-2)] hover:text-[var(--text)]"
+            onClick={onClose}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-3 px-4 py-4">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            <label className="space-y-1 text-sm">
+              <span className="text-label">Format</span>
+              <select
+                value={source}
+                onChange={(event) => {
+                  setSource(event.target.value as ImportSource);
+                  setExcluded(new Set());
+                }}
+                className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface-2)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+              >
+                <option value="auto">Detect automatically</option>
+                {BROKER_PARSERS.map((parser) => (
+                  <option key={parser.id} value={parser.id}>
+                    {parser.label}
+                  </option>
+                ))}
+                <option value="custom">Other CSV (map columns)</option>
+              </select>
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="text-label">CSV File</span>
+              <span className="flex h-11 w-full cursor-pointer items-center gap-2 rounded-lg border border-dashed border-[var(--border)] bg-[var(--surface-2)] px-3 text-[var(--muted)]">
+                <Upload size={14} />
+                <span className="truncate">{fileName || 'Choose file'}</span>
+              </span>
+              <input type="file" accept=".csv,text/csv" onChange={(event) => void handleFile(event)} className="hidden" />
+            </label>
+          </div>
+
+          {headerRow ? (
+            <ColumnMappingPanel
+              table={headerRow}
+              mapping={mapping}
+              profiles={profiles}
+              onChangeMapping={changeMapping}
+              onSaveProfile={(name) => setProfiles(profileRepo.upsertProfile(name, mapping))}
+              onDeleteProfile={(profileId) => setProfiles(profileRepo.deleteProfile(profileId))}
+            />
+          ) : null}
+
+          {preview ? (
+            <div className="rounded-xl border border-[var(--border)] bg-[var(--surface-2)] p-3 text-sm">
+              <p className="font-semibold text-[var(--text)]">{source === 'custom' ? 'Custom column mapping' : preview.broker?.label ?? 'Unknown format'}</p>
+              <div className="mt-2 grid grid-cols-2 gap-2 text-[var(--muted)] md:grid-cols-4">
+                <span>
+                  {source === 'custom' ? 'Rows' : 'Fills'}: {preview.fillCount}
+                </span>
+                <span>Trades: {preview.items.length}</span>
+                <span>Duplicates: {duplicateCount}</span>
+                <span>Skipped rows: {preview.errors.length}</span>
+              </div>
+              {preview.errors.length > 0 ? (
+                <ul className="mt-2 max-h-32 space-y-1 overflow-y-auto text-xs text-[var(--negative)]">
+                  {preview.errors.map((error) => (
+                    <li key={`${error.row}-${error.message}`}>
+                      {error.row > 0 ? `Row ${error.row}: ` : ''}{error.message}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </div>
+          ) : (
+            <p className="text-tertiary-sm">
+              Upload a tradebook exported from Zerodha Console, Upstox or Groww, or any other journal CSV and map its columns. Files exported from this app are mapped automatically.
+            </p>
+          )}
+
+          {preview && preview.items.length > 0 ? (
+            <div className="overflow-x-auto rounded-xl border border-[var(--border)]">
+              <table className="w-full min-w-[640px] text-sm">
+                <thead>
+                  <tr className="border-b border-[var(--border)] text-left">
+                    <th className="ui-label px-2 py-2">Import</th>
+                    <th className="ui-label px-2 py-2">Date</th>
+                    <th className="ui-label px-2 py-2">Symbol</th>
+                    <th className="ui-label px-2 py-2">Side</th>
+                    <th className="ui-label px-2 py-2">Avg Entry</th>
+                    <th className="ui-label px-2 py-2">Qty</th>
+                    <th className="ui-label px-2 py-2">Legs</th>
+                    <th className="ui-label px-2 py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.items.map((item, index) => {
+                    const entryQty = sumQuantity(item.draft.entryLegs);
+                    const exitQty = sumQuantity(item.draft.exitLegs);
+                    const isDuplicate = Boolean(item.duplicateOfTradeId);
+                    return (
+                      <tr
+                        key={`${item.draft.importKey ?? index}-${index}`}
+                        className={`border-b border-[var(--border)] last:border-b-0 ${isDuplicate ? 'opacity-50' : ''}`}
+                      >
+                        <td className="px-2 py-1.5">
+                          <input
+                            type="checkbox"
+                            checked={!isDuplicate && !excluded.has(index)}
+                            disabled={isDuplicate}
+                            onChange={(event) => toggleItem(index, event.target.checked)}
+                            className="h-4 w-4 rounded"
+                            aria-label={`Import ${item.draft.symbol}`}
+                          />
+                        </td>
+                        <td className="px-2 py-1.5 text-tertiary-sm">{item.draft.date}</td>
+                        <td className="px-2 py-1.5 text-secondary-sm">{item.draft.symbol}</td>
+                        <td className="px-2 py-1.5 text-tertiary-sm uppercase">{item.draft.direction}</td>
+                        <td className="px-2 py-1.5 text-tertiary-sm text-numeric">{formatCurrency(averagePrice(item.draft.entryLegs))}</td>
+                        <td className="px-2 py-1.5 text-tertiary-sm text-numeric">{entryQty.toFixed(2)}</td>
+                        <td className="px-2 py-1.5 text-tertiary-sm">
+                          {item.draft.entryLegs.length} in / {item.draft.exitLegs.length} out
+                        </td>
+                        <td className="px-2 py-1.5 text-tertiary-sm">
+                          {isDuplicate ? 'Already logged' : exitQty + 0.000001 >= entryQty ? 'Closed' : 'Open'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+
+          <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+            <button
+              type="button"
+              onClick={onClose}
+              className="min-h-11 rounded-lg border border-[var(--border)] px-4 py-2 text-sm text-[var(--text)] transition hover:bg-[var(--surface-2)]"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              disabled={selectedDrafts.length === 0}
+              onClick={() => onImport(selectedDrafts)}
+              className="min-h-11 rounded-lg bg-[var(--accent)] px-4 py-2 text-secondary-sm text-black transition hover:brightness-110 disabled:opacity-50"
+            >
+              Import {selectedDrafts.length} {selectedDrafts.length === 1 ? 'Trade' : 'Trades'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { CSV_MAPPING_PROFILES_STORAGE_KEY } from '../../../shared/config/storageKeys';
+import { IMPORT_FIELDS, type ColumnMapping } from '../services/columnMapping';
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MappingProfileRepository {
+  listProfiles(): MappingProfile[];
+  upsertProfile(name: string, mapping: ColumnMapping): MappingProfile[];
+  deleteProfile(profileId: string): MappingProfile[];
+}
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function randomId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function normalizeMapping(raw: unknown): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  if (!isObject(raw)) {
+    return mapping;
+  }
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const header = raw[field];
+    if (typeof header === 'string' && header.trim()) {
+      mapping[field] = header;
+    }
+  });
+  return mapping;
+}
+
+function normalizeProfile(raw: unknown): MappingProfile | null {
+  if (!isObject(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string') {
+    return null;
+  }
+
+  const createdAt = typeof raw.createdAt === 'string' ? raw.createdAt : nowIso();
+  const updatedAt = typeof raw.updatedAt === 'string' ? raw.updatedAt : createdAt;
+
+  return {
+    id: raw.id,
+    name: raw.name,
+    mapping: normalizeMapping(raw.mapping),
+    createdAt,
+    updatedAt,
+  };
+}
+
+export class LocalMappingProfileRepository implements MappingProfileRepository {
+  private save(profiles: MappingProfile[]): void {
+    localStorage.setItem(CSV_MAPPING_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  }
+
+  listProfiles(): MappingProfile[] {
+    const raw = localStorage.getItem(CSV_MAPPING_PROFILES_STORAGE_KEY);
+    if (!raw) {
+      return [];
+    }
+    try {
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) {
+        return [];
+      }
+      return parsed.map(normalizeProfile).filter((profile): profile is MappingProfile => profile !== null);
+    } catch {
+      return [];
+    }
+  }
+
+  upsertProfile(name: string, mapping: ColumnMapping): MappingProfile[] {
+    const trimmedName = name.trim();
+    const profiles = this.listProfiles();
+    if (!trimmedName) {
+      return profiles;
+    }
+
+    const now = nowIso();
+    const existing = profiles.find((profile) => profile.name.toLowerCase() === trimmedName.toLowerCase());
+    const next = existing
+      ? profiles.map((profile) => (profile.id === existing.id ? { ...profile, mapping, updatedAt: now } : profile))
+      : [...profiles, { id: randomId('mapping'), name: trimmedName, mapping, createdAt: now, updatedAt: now }];
+
+    this.save(next);
+    return next;
+  }
+
+  deleteProfile(profileId: string): MappingProfile[] {
+    const next = this.listProfiles().filter((profile) => profile.id !== profileId);
+    this.save(next);
+    return next;
+  }
+}
@@ -0,0 +1,15 @@
+import type { BrokerId, BrokerParser } from './brokerTypes';
+import { growwParser } from './growwParser';
+import { upstoxParser } from './upstoxParser';
+import { zerodhaParser } from './zerodhaParser';
+
+// Order matters: detection stops at the first parser that recognises the headers.
+export const BROKER_PARSERS: BrokerParser[] = [zerodhaParser, upstoxParser, growwParser];
+
+export function getBrokerParser(id: BrokerId): BrokerParser | undefined {
+  return BROKER_PARSERS.find((parser) => parser.id === id);
+}
+
+export function detectBrokerParser(text: string): BrokerParser | undefined {
+  return BROKER_PARSERS.find((parser) => parser.detect(text));
+}
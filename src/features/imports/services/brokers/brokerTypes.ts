@@ -0,0 +1,34 @@
+import type { Instrument } from '../../../../shared/types/trade';
+
+export type BrokerId = 'zerodha' | 'upstox' | 'groww';
+
+export interface BrokerFill {
+  broker: BrokerId;
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  date: string;
+  time?: string;
+  tradeId?: string;
+  orderId?: string;
+  fees?: number;
+  instrument?: Instrument;
+}
+
+export interface BrokerRowError {
+  row: number;
+  message: string;
+}
+
+export interface BrokerParseResult {
+  fills: BrokerFill[];
+  errors: BrokerRowError[];
+}
+
+export interface BrokerParser {
+  id: BrokerId;
+  label: string;
+  detect(text: string): boolean;
+  parse(text: string): BrokerParseResult;
+}
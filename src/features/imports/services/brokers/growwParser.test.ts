@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import groww from './__fixtures__/groww-order-history.csv?raw';
+import upstox from './__fixtures__/upstox-trade-report.csv?raw';
+import zerodha from './__fixtures__/zerodha-tradebook.csv?raw';
+import { detectBrokerParser } from './brokerRegistry';
+import { growwParser } from './growwParser';
+
+describe('growwParser', () => {
+  it('finds the header row below the report title', () => {
+    expect(growwParser.detect(groww)).toBe(true);
+    expect(growwParser.detect(zerodha)).toBe(false);
+    expect(growwParser.detect(upstox)).toBe(false);
+    expect(detectBrokerParser(groww)?.id).toBe('groww');
+  });
+
+  it('derives the fill price from order value and converts 12-hour times', () => {
+    const { fills } = growwParser.parse(groww);
+    expect(fills).toEqual([
+      {
+        broker: 'groww',
+        symbol: 'TATAMOTORS',
+        side: 'buy',
+        quantity: 20,
+        price: 700.5,
+        date: '2026-09-05',
+        time: '10:12:00',
+        orderId: '1300000011',
+      },
+      {
+        broker: 'groww',
+        symbol: 'TATAMOTORS',
+        side: 'sell',
+        quantity: 20,
+        price: 725.02,
+        date: '2026-09-11',
+        time: '14:45:00',
+        orderId: '1300000012',
+      },
+    ]);
+  });
+
+  it('skips orders that did not execute and reports incomplete rows', () => {
+    const { errors } = growwParser.parse(groww);
+    expect(errors).toEqual([{ row: 5, message: 'Row is missing symbol, type, quantity, value or execution time.' }]);
+  });
+});
@@ -0,0 +1,68 @@
+import { cellAt, findColumn, parseCsvDateTime, parseCsvNumber, readCsvTable } from '../csvParser';
+import type { BrokerFill, BrokerParseResult, BrokerParser, BrokerRowError } from './brokerTypes';
+
+// Groww order history: Stock name, Symbol, ISIN, Type, Quantity, Value, Exchange, Execution date and time, Order status.
+const REQUIRED_HEADERS = [['symbol'], ['type'], ['quantity'], ['value', 'price'], ['execution date and time']];
+
+export const growwParser: BrokerParser = {
+  id: 'groww',
+  label: 'Groww (Order history)',
+  detect(text) {
+    return readCsvTable(text, REQUIRED_HEADERS) != null;
+  },
+  parse(text): BrokerParseResult {
+    const table = readCsvTable(text, REQUIRED_HEADERS);
+    if (!table) {
+      return { fills: [], errors: [{ row: 0, message: 'Missing Groww order history headers.' }] };
+    }
+
+    const { headers } = table;
+    const columns = {
+      symbol: findColumn(headers, ['symbol']),
+      type: findColumn(headers, ['type']),
+      quantity: findColumn(headers, ['quantity']),
+      value: findColumn(headers, ['value']),
+      price: findColumn(headers, ['price']),
+      executedAt: findColumn(headers, ['execution date and time']),
+      orderId: findColumn(headers, ['exchange order id']),
+      status: findColumn(headers, ['order status']),
+    };
+
+    const fills: BrokerFill[] = [];
+    const errors: BrokerRowError[] = [];
+
+    table.rows.forEach((row, index) => {
+      const rowNumber = index + 2;
+      const status = cellAt(row, columns.status).toLowerCase();
+      if (status && status !== 'executed' && status !== 'complete') {
+        return;
+      }
+
+      const symbol = cellAt(row, columns.symbol).toUpperCase();
+      const side = cellAt(row, columns.type).toLowerCase();
+      const quantity = parseCsvNumber(cellAt(row, columns.quantity));
+      const value = parseCsvNumber(cellAt(row, columns.value));
+      const explicitPrice = parseCsvNumber(cellAt(row, columns.price));
+      const price = explicitPrice ?? (value != null && quantity ? value / quantity : undefined);
+      const executedAt = parseCsvDateTime(cellAt(row, columns.executedAt));
+
+      if (!symbol || (side !== 'buy' && side !== 'sell') || !quantity || quantity <= 0 || !price || price <= 0 || !executedAt) {
+        errors.push({ row: rowNumber, message: 'Row is missing symbol, type, quantity, value or execution time.' });
+        return;
+      }
+
+      fills.push({
+        broker: 'groww',
+        symbol,
+        side,
+        quantity,
+        price: Math.round((price + Number.EPSILON) * 100) / 100,
+        date: executedAt.date,
+        time: executedAt.time,
+        orderId: cellAt(row, columns.orderId) || undefined,
+      });
+    });
+
+    return { fills, errors };
+  },
+};
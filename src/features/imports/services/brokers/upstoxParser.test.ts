@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import groww from './__fixtures__/groww-order-history.csv?raw';
+import upstox from './__fixtures__/upstox-trade-report.csv?raw';
+import zerodha from './__fixtures__/zerodha-tradebook.csv?raw';
+import { detectBrokerParser } from './brokerRegistry';
+import { upstoxParser } from './upstoxParser';
+
+describe('upstoxParser', () => {
+  it('recognises only the trade report headers', () => {
+    expect(upstoxParser.detect(upstox)).toBe(true);
+    expect(upstoxParser.detect(zerodha)).toBe(false);
+    expect(upstoxParser.detect(groww)).toBe(false);
+    expect(detectBrokerParser(upstox)?.id).toBe('upstox');
+  });
+
+  it('parses day-first dates, trade times and signed quantities', () => {
+    const { fills } = upstoxParser.parse(upstox);
+    expect(fills[0]).toEqual({
+      broker: 'upstox',
+      symbol: 'INFY',
+      side: 'buy',
+      quantity: 10,
+      price: 1850,
+      date: '2026-09-02',
+      time: '09:31:05',
+      tradeId: 'T1001',
+      instrument: undefined,
+    });
+    expect(fills[1]).toMatchObject({ side: 'sell', quantity: 5, date: '2026-09-04', time: '13:12:44' });
+  });
+
+  it('reads option contracts from the instrument columns', () => {
+    const { fills } = upstoxParser.parse(upstox);
+    expect(fills[2]).toMatchObject({
+      symbol: 'BANKNIFTY',
+      instrument: { type: 'put_option', expiry: '2026-09-29', strike: 52000 },
+    });
+  });
+
+  it('reports rows without a price', () => {
+    const { fills, errors } = upstoxParser.parse(upstox);
+    expect(fills).toHaveLength(3);
+    expect(errors).toEqual([{ row: 5, message: 'Row is missing symbol, side, quantity, price or date.' }]);
+  });
+});
@@ -0,0 +1,86 @@
+import type { Instrument } from '../../../../shared/types/trade';
+import { cellAt, findColumn, parseCsvDateTime, parseCsvNumber, readCsvTable } from '../csvParser';
+import type { BrokerFill, BrokerParseResult, BrokerParser, BrokerRowError } from './brokerTypes';
+
+// Upstox trade report: Date, Company, Scrip Code, Side, Quantity, Price, Trade Num, Trade Time...
+const REQUIRED_HEADERS = [['date'], ['side'], ['quantity'], ['price'], ['scrip code', 'symbol']];
+
+function toInstrument(instrumentType: string, strike: number | undefined, expiry: string | undefined): Instrument | undefined {
+  const normalized = instrumentType.toUpperCase();
+  if (normalized.startsWith('FUT')) {
+    return { type: 'future', expiry };
+  }
+  if (normalized === 'CE' || normalized === 'PE') {
+    return { type: normalized === 'CE' ? 'call_option' : 'put_option', expiry, strike };
+  }
+  return undefined;
+}
+
+export const upstoxParser: BrokerParser = {
+  id: 'upstox',
+  label: 'Upstox (Trade report)',
+  detect(text) {
+    const table = readCsvTable(text, REQUIRED_HEADERS);
+    return table != null && findColumn(table.headers, ['trade num', 'scrip code']) >= 0;
+  },
+  parse(text): BrokerParseResult {
+    const table = readCsvTable(text, REQUIRED_HEADERS);
+    if (!table) {
+      return { fills: [], errors: [{ row: 0, message: 'Missing Upstox trade report headers.' }] };
+    }
+
+    const { headers } = table;
+    const columns = {
+      date: findColumn(headers, ['date']),
+      time: findColumn(headers, ['trade time']),
+      symbol: findColumn(headers, ['scrip code', 'symbol']),
+      side: findColumn(headers, ['side']),
+      quantity: findColumn(headers, ['quantity']),
+      price: findColumn(headers, ['price']),
+      tradeNum: findColumn(headers, ['trade num']),
+      instrumentType: findColumn(headers, ['instrument type']),
+      optionType: findColumn(headers, ['option type']),
+      strike: findColumn(headers, ['strike price']),
+      expiry: findColumn(headers, ['expiry']),
+    };
+
+    const fills: BrokerFill[] = [];
+    const errors: BrokerRowError[] = [];
+
+    table.rows.forEach((row, index) => {
+      const rowNumber = index + 2;
+      const symbol = cellAt(row, columns.symbol).toUpperCase();
+      const side = cellAt(row, columns.side).toLowerCase();
+      // Some report versions sign sell quantities negative.
+      const quantity = Math.abs(parseCsvNumber(cellAt(row, columns.quantity)) ?? 0);
+      const price = parseCsvNumber(cellAt(row, columns.price));
+      const date = parseCsvDateTime(cellAt(row, columns.date));
+
+      if (!symbol || (side !== 'buy' && side !== 'sell') || !quantity || quantity <= 0 || !price || price <= 0 || !date) {
+        errors.push({ row: rowNumber, message: 'Row is missing symbol, side, quantity, price or date.' });
+        return;
+      }
+
+      const time = parseCsvDateTime(`${date.date} ${cellAt(row, columns.time)}`)?.time;
+      const instrumentType = cellAt(row, columns.optionType) || cellAt(row, columns.instrumentType);
+
+      fills.push({
+        broker: 'upstox',
+        symbol,
+        side,
+        quantity,
+        price,
+        date: date.date,
+        time,
+        tradeId: cellAt(row, columns.tradeNum) || undefined,
+        instrument: toInstrument(
+          instrumentType,
+          parseCsvNumber(cellAt(row, columns.strike)),
+          parseCsvDateTime(cellAt(row, columns.expiry))?.date
+        ),
+      });
+    });
+
+    return { fills, errors };
+  },
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import groww from './__fixtures__/groww-order-history.csv?raw';
+import upstox from './__fixtures__/upstox-trade-report.csv?raw';
+import zerodha from './__fixtures__/zerodha-tradebook.csv?raw';
+import { detectBrokerParser } from './brokerRegistry';
+import { zerodhaParser } from './zerodhaParser';
+
+describe('zerodhaParser', () => {
+  it('recognises only the Console tradebook headers', () => {
+    expect(zerodhaParser.detect(zerodha)).toBe(true);
+    expect(zerodhaParser.detect(upstox)).toBe(false);
+    expect(zerodhaParser.detect(groww)).toBe(false);
+    expect(detectBrokerParser(zerodha)?.id).toBe('zerodha');
+  });
+
+  it('parses equity fills with execution time and ids', () => {
+    const { fills } = zerodhaParser.parse(zerodha);
+    expect(fills[0]).toEqual({
+      broker: 'zerodha',
+      symbol: 'RELIANCE',
+      side: 'buy',
+      quantity: 10,
+      price: 2950.5,
+      date: '2026-09-01',
+      time: '09:20:15',
+      tradeId: '55001',
+      orderId: '1100001',
+      instrument: undefined,
+    });
+  });
+
+  it('splits F&O tradingsymbols into underlying and contract', () => {
+    const { fills } = zerodhaParser.parse(zerodha);
+    const option = fills.find((fill) => fill.tradeId === '66001');
+    const future = fills.find((fill) => fill.tradeId === '66003');
+    expect(option?.symbol).toBe('NIFTY');
+    expect(option?.instrument).toEqual({ type: 'call_option', expiry: '2026-09-29', strike: 24500 });
+    expect(future?.symbol).toBe('RELIANCE');
+    expect(future?.instrument).toEqual({ type: 'future', expiry: '2026-09-29' });
+  });
+
+  it('reports rows it cannot read instead of dropping them silently', () => {
+    const { fills, errors } = zerodhaParser.parse(zerodha);
+    expect(fills).toHaveLength(6);
+    expect(errors).toEqual([{ row: 8, message: 'Row is missing symbol, side, quantity, price or date.' }]);
+  });
+
+  it('rejects files without tradebook headers', () => {
+    expect(zerodhaParser.parse(groww)).toEqual({
+      fills: [],
+      errors: [{ row: 0, message: 'Missing Zerodha tradebook headers.' }],
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import type { Instrument } from '../../../../shared/types/trade';
+import { cellAt, findColumn, parseCsvDateTime, parseCsvNumber, readCsvTable } from '../csvParser';
+import type { BrokerFill, BrokerParseResult, BrokerParser, BrokerRowError } from './brokerTypes';
+
+// Console tradebook export: one row per exchange fill.
+const REQUIRED_HEADERS = [['symbol'], ['trade type'], ['quantity'], ['price'], ['trade date']];
+
+// F&O tradingsymbols look like NIFTY26OCT24500CE or RELIANCE26OCTFUT.
+function parseDerivativeSymbol(symbol: string, expiry: string | undefined): { underlying: string; instrument?: Instrument } {
+  const futureMatch = symbol.match(/^([A-Z&-]+)\d{2}[A-Z]{3}FUT$/);
+  if (futureMatch) {
+    return { underlying: futureMatch[1], instrument: { type: 'future', expiry } };
+  }
+  const optionMatch = symbol.match(/^([A-Z&-]+)\d{2}(?:[A-Z]{3}|[0-9OND]\d{2})(\d+(?:\.\d+)?)(CE|PE)$/);
+  if (optionMatch) {
+    return {
+      underlying: optionMatch[1],
+      instrument: {
+        type: optionMatch[3] === 'CE' ? 'call_option' : 'put_option',
+        expiry,
+        strike: Number.parseFloat(optionMatch[2]),
+      },
+    };
+  }
+  return { underlying: symbol };
+}
+
+export const zerodhaParser: BrokerParser = {
+  id: 'zerodha',
+  label: 'Zerodha (Console tradebook)',
+  detect(text) {
+    const table = readCsvTable(text, REQUIRED_HEADERS);
+    return table != null && findColumn(table.headers, ['order execution time', 'trade id']) >= 0;
+  },
+  parse(text): BrokerParseResult {
+    const table = readCsvTable(text, REQUIRED_HEADERS);
+    if (!table) {
+      return { fills: [], errors: [{ row: 0, message: 'Missing Zerodha tradebook headers.' }] };
+    }
+
+    const { headers } = table;
+    const columns = {
+      symbol: findColumn(headers, ['symbol']),
+      tradeType: findColumn(headers, ['trade type']),
+      quantity: findColumn(headers, ['quantity']),
+      price: findColumn(headers, ['price']),
+      tradeDate: findColumn(headers, ['trade date']),
+      executionTime: findColumn(headers, ['order execution time']),
+      tradeId: findColumn(headers, ['trade id']),
+      orderId: findColumn(headers, ['order id']),
+      segment: findColumn(headers, ['segment']),
+      expiry: findColumn(headers, ['expiry date']),
+    };
+
+    const fills: BrokerFill[] = [];
+    const errors: BrokerRowError[] = [];
+
+    table.rows.forEach((row, index) => {
+      const rowNumber = index + 2;
+      const rawSymbol = cellAt(row, columns.symbol).toUpperCase();
+      const side = cellAt(row, columns.tradeType).toLowerCase();
+      const quantity = parseCsvNumber(cellAt(row, columns.quantity));
+      const price = parseCsvNumber(cellAt(row, columns.price));
+      const dateTime = parseCsvDateTime(cellAt(row, columns.executionTime)) ?? parseCsvDateTime(cellAt(row, columns.tradeDate));
+
+      if (!rawSymbol || (side !== 'buy' && side !== 'sell') || !quantity || quantity <= 0 || !price || price <= 0 || !dateTime) {
+        errors.push({ row: rowNumber, message: 'Row is missing symbol, side, quantity, price or date.' });
+        return;
+      }
+
+      const isDerivativeSegment = cellAt(row, columns.segment).toUpperCase().includes('FO');
+      const expiry = parseCsvDateTime(cellAt(row, columns.expiry))?.date;
+      const parsedSymbol = isDerivativeSegment ? parseDerivativeSymbol(rawSymbol, expiry) : { underlying: rawSymbol };
+
+      fills.push({
+        broker: 'zerodha',
+        symbol: parsedSymbol.underlying,
+        side,
+        quantity,
+        price,
+        date: dateTime.date,
+        time: dateTime.time,
+        tradeId: cellAt(row, columns.tradeId) || undefined,
+        orderId: cellAt(row, columns.orderId) || undefined,
+        instrument: parsedSymbol.instrument,
+      });
+    });
+
+    return { fills, errors };
+  },
+};
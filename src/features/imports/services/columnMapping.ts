@@ -0,0 +1,313 @@
+import type { EntryLeg, ExitLeg, ImportTradeInput, Instrument, TradeDirection } from '../../../shared/types/trade';
+import { importTradeError } from '../../trades/repository/tradeRepository';
+import type { BrokerRowError } from './brokers/brokerTypes';
+import { cellAt, normalizeHeader, parseCsv, parseCsvDateTime, parseCsvNumber } from './csvParser';
+
+export type ImportField =
+  | 'date'
+  | 'symbol'
+  | 'direction'
+  | 'entryPrice'
+  | 'quantity'
+  | 'exitPrice'
+  | 'exitDate'
+  | 'fees'
+  | 'markPrice'
+  | 'stopLoss'
+  | 'targetPrice'
+  | 'initialRisk'
+  | 'instrument'
+  | 'expiry'
+  | 'strike'
+  | 'lotSize'
+  | 'multiplier'
+  | 'setup'
+  | 'emotion'
+  | 'notes'
+  | 'entryLegs'
+  | 'exitLegs';
+
+// Maps each trade field to the normalized header it is read from.
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'date', label: 'Date', required: true, aliases: ['date', 'entry date', 'trade date', 'open date', 'opened'] },
+  { field: 'symbol', label: 'Symbol', required: true, aliases: ['symbol', 'ticker', 'instrument name', 'stock', 'scrip'] },
+  { field: 'direction', label: 'Direction', required: true, aliases: ['direction', 'side', 'type', 'position', 'long short'] },
+  { field: 'entryPrice', label: 'Entry Price', aliases: ['entry', 'entry price', 'buy price', 'open price', 'avg entry'] },
+  { field: 'quantity', label: 'Quantity', aliases: ['quantity', 'qty', 'shares', 'size', 'lots'] },
+  { field: 'exitPrice', label: 'Exit Price', aliases: ['exit', 'exit price', 'sell price', 'close price', 'avg exit'] },
+  { field: 'exitDate', label: 'Exit Date', aliases: ['exit date', 'close date', 'closed'] },
+  { field: 'fees', label: 'Fees', aliases: ['fees', 'fee', 'commission', 'charges', 'brokerage'] },
+  { field: 'markPrice', label: 'Mark Price', aliases: ['mark price', 'ltp', 'last price', 'current price'] },
+  { field: 'stopLoss', label: 'Stop Loss', aliases: ['stop loss', 'stop', 'sl'] },
+  { field: 'targetPrice', label: 'Target', aliases: ['target', 'target price', 'tp'] },
+  { field: 'initialRisk', label: 'Initial Risk', aliases: ['initial risk', 'risk', 'risk amount'] },
+  { field: 'instrument', label: 'Instrument', aliases: ['instrument', 'instrument type', 'segment'] },
+  { field: 'expiry', label: 'Expiry', aliases: ['expiry', 'expiry date'] },
+  { field: 'strike', label: 'Strike', aliases: ['strike', 'strike price'] },
+  { field: 'lotSize', label: 'Lot Size', aliases: ['lot size'] },
+  { field: 'multiplier', label: 'Multiplier', aliases: ['multiplier', 'contract multiplier'] },
+  { field: 'setup', label: 'Setup', aliases: ['setup', 'strategy', 'playbook'] },
+  { field: 'emotion', label: 'Emotion', aliases: ['emotion', 'mood', 'feeling'] },
+  { field: 'notes', label: 'Notes', aliases: ['notes', 'note', 'comments', 'comment'] },
+  { field: 'entryLegs', label: 'Entry Legs', aliases: ['entry legs'] },
+  { field: 'exitLegs', label: 'Exit Legs', aliases: ['exit legs'] },
+];
+
+const LEG_PATTERN = /^(.+?):(\d+(?:\.\d+)?)@(\d+(?:\.\d+)?)(?:\s+fee:(\d+(?:\.\d+)?))?$/;
+
+export interface CsvHeaderRow {
+  headers: string[];
+  labels: string[];
+  rows: string[][];
+}
+
+export interface MappedImportResult {
+  drafts: ImportTradeInput[];
+  errors: BrokerRowError[];
+}
+
+function roundTo2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function readCsvHeaderRow(text: string): CsvHeaderRow | null {
+  const [headerRow, ...rows] = parseCsv(text);
+  if (!headerRow) {
+    return null;
+  }
+  return {
+    headers: headerRow.map(normalizeHeader),
+    labels: headerRow.map((label) => label.trim()),
+    rows,
+  };
+}
+
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const match = aliases.find((alias) => headers.includes(alias) && !used.has(alias));
+    if (match) {
+      mapping[field] = match;
+      used.add(match);
+    }
+  });
+  return mapping;
+}
+
+export function getMissingRequiredFields(mapping: ColumnMapping): ImportFieldDefinition[] {
+  const missing = IMPORT_FIELDS.filter((definition) => definition.required && !mapping[definition.field]);
+  const hasEntry = Boolean(mapping.entryLegs) || (Boolean(mapping.entryPrice) && Boolean(mapping.quantity));
+  if (!hasEntry) {
+    missing.push(...IMPORT_FIELDS.filter((definition) => definition.field === 'entryPrice' || definition.field === 'quantity'));
+  }
+  return missing;
+}
+
+function parseDirection(value: string): TradeDirection | null {
+  const normalized = value.trim().toLowerCase();
+  if (['long', 'buy', 'b', 'l'].includes(normalized)) {
+    return 'long';
+  }
+  if (['short', 'sell', 's', 'sh'].includes(normalized)) {
+    return 'short';
+  }
+  return null;
+}
+
+function parseInstrumentType(value: string): Instrument['type'] | null {
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (!normalized || normalized === 'equity' || normalized === 'eq' || normalized === 'stock') {
+    return 'equity';
+  }
+  if (normalized === 'future' || normalized === 'futures' || normalized === 'fut') {
+    return 'future';
+  }
+  if (normalized === 'call_option' || normalized === 'call' || normalized === 'ce') {
+    return 'call_option';
+  }
+  if (normalized === 'put_option' || normalized === 'put' || normalized === 'pe') {
+    return 'put_option';
+  }
+  return null;
+}
+
+// Parses the `date[ time]:qty@price fee:x | ...` format written by the CSV export.
+export function parseLegList(value: string): Array<{ date: string; time?: string; quantity: number; price: number; fees?: number }> | null {
+  const parts = value
+    .split('|')
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const legs: Array<{ date: string; time?: string; quantity: number; price: number; fees?: number }> = [];
+  for (const part of parts) {
+    const match = part.match(LEG_PATTERN);
+    const parsedDate = match ? parseCsvDateTime(match[1]) : null;
+    if (!match || !parsedDate) {
+      return null;
+    }
+    legs.push({
+      date: parsedDate.date,
+      time: parsedDate.time,
+      quantity: Number.parseFloat(match[2]),
+      price: Number.parseFloat(match[3]),
+      fees: match[4] ? Number.parseFloat(match[4]) : undefined,
+    });
+  }
+  return legs;
+}
+
+export function mapCsvRows(table: CsvHeaderRow, mapping: ColumnMapping): MappedImportResult {
+  const missing = getMissingRequiredFields(mapping);
+  if (missing.length > 0) {
+    return {
+      drafts: [],
+      errors: [{ row: 0, message: `Map a column for ${missing.map((definition) => definition.label).join(', ')}.` }],
+    };
+  }
+
+  const columnOf = (field: ImportField) => (mapping[field] ? table.headers.indexOf(mapping[field]) : -1);
+  const columns = Object.fromEntries(IMPORT_FIELDS.map(({ field }) => [field, columnOf(field)])) as Record<ImportField, number>;
+
+  const drafts: ImportTradeInput[] = [];
+  const errors: BrokerRowError[] = [];
+
+  table.rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const read = (field: ImportField) => cellAt(row, columns[field]);
+    const readNumber = (field: ImportField) => parseCsvNumber(read(field));
+    const fail = (message: string) => errors.push({ row: rowNumber, message });
+
+    const entryDateTime = parseCsvDateTime(read('date'));
+    const date = entryDateTime?.date;
+    if (!date) {
+      fail('Date is missing or not recognised.');
+      return;
+    }
+    const symbol = read('symbol').toUpperCase();
+    if (!symbol) {
+      fail('Symbol is required.');
+      return;
+    }
+    const direction = parseDirection(read('direction'));
+    if (!direction) {
+      fail(`Direction "${read('direction')}" must be long/short or buy/sell.`);
+      return;
+    }
+
+    const fees = readNumber('fees');
+    let entryLegs: Omit<EntryLeg, 'id'>[];
+    const rawEntryLegs = read('entryLegs');
+    if (rawEntryLegs) {
+      const parsed = parseLegList(rawEntryLegs);
+      if (!parsed || parsed.length === 0) {
+        fail('Entry Legs must look like date:qty@price fee:x.');
+        return;
+      }
+      entryLegs = parsed.map((leg) => ({ date: leg.date, time: leg.time, quantity: leg.quantity, entryPrice: leg.price, fees: leg.fees }));
+    } else {
+      const entryPrice = readNumber('entryPrice');
+      const quantity = readNumber('quantity');
+      if (!entryPrice || entryPrice <= 0 || !quantity || quantity <= 0) {
+        fail('Entry price and quantity must be greater than 0.');
+        return;
+      }
+      entryLegs = [{ date, quantity, entryPrice }];
+    }
+
+    const entryQuantity = entryLegs.reduce((sum, leg) => sum + leg.quantity, 0);
+    let exitLegs: Omit<ExitLeg, 'id'>[] = [];
+    const rawExitLegs = read('exitLegs');
+    if (rawExitLegs) {
+      const parsed = parseLegList(rawExitLegs);
+      if (!parsed) {
+        fail('Exit Legs must look like date:qty@price fee:x.');
+        return;
+      }
+      exitLegs = parsed.map((leg) => ({ date: leg.date, time: leg.time, quantity: leg.quantity, exitPrice: leg.price, fees: leg.fees }));
+    } else {
+      const exitPrice = readNumber('exitPrice');
+      if (exitPrice != null) {
+        if (exitPrice < 0) {
+          fail('Exit price cannot be negative.');
+          return;
+        }
+        const exitDateTime = parseCsvDateTime(read('exitDate'));
+        exitLegs = [{ date: exitDateTime?.date ?? date, time: exitDateTime?.time, quantity: entryQuantity, exitPrice }];
+      }
+    }
+
+    // A single fees column has no leg breakdown, so it is charged on the closing leg when there is one.
+    if (fees != null && fees > 0 && !rawEntryLegs && !rawExitLegs) {
+      if (exitLegs.length > 0) {
+        exitLegs[0] = { ...exitLegs[0], fees: roundTo2(fees) };
+      } else {
+        entryLegs[0] = { ...entryLegs[0], fees: roundTo2(fees) };
+      }
+    }
+
+    const exitQuantity = exitLegs.reduce((sum, leg) => sum + leg.quantity, 0);
+    if (exitQuantity > entryQuantity + 0.000001) {
+      fail('Exit quantity is larger than the entry quantity.');
+      return;
+    }
+
+    const instrumentType = parseInstrumentType(read('instrument'));
+    if (!instrumentType) {
+      fail(`Instrument "${read('instrument')}" is not equity, future, call or put.`);
+      return;
+    }
+    let instrument: Instrument | undefined;
+    if (instrumentType !== 'equity') {
+      instrument = {
+        type: instrumentType,
+        expiry: parseCsvDateTime(read('expiry'))?.date,
+        strike: readNumber('strike'),
+        lotSize: readNumber('lotSize'),
+        multiplier: readNumber('multiplier'),
+      };
+      if (instrumentType !== 'future' && (!instrument.expiry || !instrument.strike)) {
+        fail('Options need an expiry and a strike.');
+        return;
+      }
+    }
+
+    const optionalPositive = (field: ImportField) => {
+      const value = readNumber(field);
+      return value != null && value > 0 ? value : undefined;
+    };
+
+    const draft: ImportTradeInput = {
+      date,
+      entryTime: entryDateTime?.time,
+      symbol,
+      direction,
+      instrument,
+      entryLegs,
+      exitLegs,
+      markPrice: exitQuantity + 0.000001 < entryQuantity ? optionalPositive('markPrice') : undefined,
+      stopLoss: optionalPositive('stopLoss'),
+      targetPrice: optionalPositive('targetPrice'),
+      initialRisk: optionalPositive('initialRisk'),
+      setup: read('setup') || undefined,
+      emotion: read('emotion') || undefined,
+      notes: read('notes') || undefined,
+    };
+    const error = importTradeError(draft);
+    if (error) {
+      fail(error);
+      return;
+    }
+    drafts.push(draft);
+  });
+
+  return { drafts, errors };
+}
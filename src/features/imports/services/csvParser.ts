@@ -0,0 +1,149 @@
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+const MONTHS: Record<string, string> = {
+  jan: '01',
+  feb: '02',
+  mar: '03',
+  apr: '04',
+  may: '05',
+  jun: '06',
+  jul: '07',
+  aug: '08',
+  sep: '09',
+  oct: '10',
+  nov: '11',
+  dec: '12',
+};
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[index + 1] === '"') {
+          field += '"';
+          index += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim().length > 0));
+}
+
+export function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Broker exports often carry a few summary lines before the real header row.
+export function readCsvTable(text: string, requiredHeaders: string[][]): CsvTable | null {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex((row) => {
+    const normalized = row.map(normalizeHeader);
+    return requiredHeaders.every((aliases) => aliases.some((alias) => normalized.includes(alias)));
+  });
+  if (headerIndex < 0) {
+    return null;
+  }
+  return {
+    headers: rows[headerIndex].map(normalizeHeader),
+    rows: rows.slice(headerIndex + 1),
+  };
+}
+
+export function findColumn(headers: string[], aliases: string[]): number {
+  return headers.findIndex((header) => aliases.includes(header));
+}
+
+export function cellAt(row: string[], column: number): string {
+  return column >= 0 ? (row[column] ?? '').trim() : '';
+}
+
+export function parseCsvNumber(value: string): number | undefined {
+  const cleaned = value.replace(/[,\s\u20B9]/g, '');
+  if (!cleaned) {
+    return undefined;
+  }
+  const parsed = Number.parseFloat(cleaned);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export function parseCsvDateTime(value: string): { date: string; time?: string } | null {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const timeMatch = trimmed.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?/i);
+  let time: string | undefined;
+  if (timeMatch) {
+    let hours = Number.parseInt(timeMatch[1], 10);
+    const meridiem = timeMatch[4]?.toLowerCase();
+    if (meridiem === 'pm' && hours < 12) {
+      hours += 12;
+    } else if (meridiem === 'am' && hours === 12) {
+      hours = 0;
+    }
+    time = `${String(hours).padStart(2, '0')}:${timeMatch[2]}:${timeMatch[3] ?? '00'}`;
+  }
+
+  const isoMatch = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (isoMatch) {
+    return { date: `${isoMatch[1]}-${isoMatch[2]}-${isoMatch[3]}`, time };
+  }
+
+  const dayFirstMatch = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})/);
+  if (dayFirstMatch) {
+    return {
+      date: `${dayFirstMatch[3]}-${dayFirstMatch[2].padStart(2, '0')}-${dayFirstMatch[1].padStart(2, '0')}`,
+      time,
+    };
+  }
+
+  const namedMonthMatch = trimmed.match(/^(\d{1,2})[-\s]([A-Za-z]{3})[A-Za-z]*[-\s,]+(\d{4})/);
+  if (namedMonthMatch) {
+    const month = MONTHS[namedMonthMatch[2].toLowerCase()];
+    if (month) {
+      return { date: `${namedMonthMatch[3]}-${month}-${namedMonthMatch[1].padStart(2, '0')}`, time };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import zerodha from './brokers/__fixtures__/zerodha-tradebook.csv?raw';
+import type { BrokerFill } from './brokers/brokerTypes';
+import { zerodhaParser } from './brokers/zerodhaParser';
+import { groupFillsIntoTrades } from './fillGrouping';
+
+function fill(overrides: Partial<BrokerFill> & Pick<BrokerFill, 'side' | 'quantity' | 'price' | 'date'>): BrokerFill {
+  return { broker: 'zerodha', symbol: 'INFY', ...overrides };
+}
+
+describe('groupFillsIntoTrades', () => {
+  it('adds same-direction fills to the open position as entry legs', () => {
+    const drafts = groupFillsIntoTrades([
+      fill({ side: 'buy', quantity: 10, price: 100, date: '2026-09-01', tradeId: 'a' }),
+      fill({ side: 'buy', quantity: 5, price: 110, date: '2026-09-02', tradeId: 'b' }),
+    ]);
+    expect(drafts).toHaveLength(1);
+    expect(drafts[0].direction).toBe('long');
+    expect(drafts[0].entryLegs).toEqual([
+      { date: '2026-09-01', quantity: 10, entryPrice: 100, fees: undefined },
+      { date: '2026-09-02', quantity: 5, entryPrice: 110, fees: undefined },
+    ]);
+    expect(drafts[0].importKey).toBe('zerodha:a');
+  });
+
+  it('keeps a partially exited position open for later exits', () => {
+    const drafts = groupFillsIntoTrades([
+      fill({ side: 'buy', quantity: 10, price: 100, date: '2026-09-01' }),
+      fill({ side: 'sell', quantity: 4, price: 120, date: '2026-09-03', time: '10:00:00' }),
+      fill({ side: 'sell', quantity: 6, price: 125, date: '2026-09-04' }),
+    ]);
+    expect(drafts).toHaveLength(1);
+    expect(drafts[0].exitLegs).toEqual([
+      { date: '2026-09-03', time: '10:00:00', quantity: 4, exitPrice: 120, fees: undefined },
+      { date: '2026-09-04', time: undefined, quantity: 6, exitPrice: 125, fees: undefined },
+    ]);
+  });
+
+  it('closes the long and opens a short when a sell is larger than the position', () => {
+    const drafts = groupFillsIntoTrades([
+      fill({ side: 'buy', quantity: 10, price: 100, date: '2026-09-01', tradeId: 'a' }),
+      fill({ side: 'sell', quantity: 15, price: 105, date: '2026-09-02', tradeId: 'b' }),
+    ]);
+    expect(drafts).toHaveLength(2);
+    expect(drafts[0]).toMatchObject({ direction: 'long', exitLegs: [{ quantity: 10, exitPrice: 105 }] });
+    expect(drafts[1]).toMatchObject({
+      direction: 'short',
+      date: '2026-09-02',
+      entryLegs: [{ quantity: 5, entryPrice: 105 }],
+      exitLegs: [],
+      importKey: 'zerodha:b',
+    });
+  });
+
+  it('prorates a fill’s fees across the legs it is split into', () => {
+    const drafts = groupFillsIntoTrades([
+      fill({ side: 'buy', quantity: 10, price: 100, date: '2026-09-01', fees: 20 }),
+      fill({ side: 'sell', quantity: 15, price: 105, date: '2026-09-02', fees: 30 }),
+    ]);
+    expect(drafts[0].entryLegs[0].fees).toBe(20);
+    expect(drafts[0].exitLegs[0].fees).toBe(20);
+    expect(drafts[1].entryLegs[0].fees).toBe(10);
+  });
+
+  it('groups a parsed tradebook, merging fills of one order into a weighted leg', () => {
+    const drafts = groupFillsIntoTrades(zerodhaParser.parse(zerodha).fills);
+    expect(drafts.map((draft) => [draft.symbol, draft.direction, draft.instrument?.type ?? 'equity'])).toEqual([
+      ['RELIANCE', 'long', 'equity'],
+      ['NIFTY', 'long', 'call_option'],
+      ['RELIANCE', 'short', 'future'],
+    ]);
+    expect(drafts[0].entryLegs).toEqual([{ date: '2026-09-01', time: '09:20:15', quantity: 15, entryPrice: 2952, fees: undefined }]);
+    expect(drafts[0].exitLegs).toHaveLength(1);
+  });
+});
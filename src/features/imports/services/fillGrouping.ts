@@ -0,0 +1,134 @@
+import type { EntryLeg, ExitLeg, ImportTradeInput, Instrument } from '../../../shared/types/trade';
+import type { BrokerFill } from './brokers/brokerTypes';
+
+const EPSILON = 0.000001;
+
+interface OpenPosition {
+  draft: ImportTradeInput;
+  openQuantity: number;
+}
+
+function roundTo2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function instrumentKey(instrument: Instrument | undefined): string {
+  if (!instrument) {
+    return 'equity';
+  }
+  return [instrument.type, instrument.expiry ?? '', instrument.strike ?? ''].join(':');
+}
+
+function fillKey(fill: BrokerFill): string {
+  return fill.tradeId ?? fill.orderId ?? `${fill.date}|${fill.time ?? ''}|${fill.side}|${fill.quantity}@${fill.price}`;
+}
+
+function sortFills(fills: BrokerFill[]): BrokerFill[] {
+  return [...fills].sort((a, b) => {
+    const byDate = a.date.localeCompare(b.date);
+    if (byDate !== 0) {
+      return byDate;
+    }
+    return (a.time ?? '').localeCompare(b.time ?? '');
+  });
+}
+
+// Fills of one order at different prices collapse into a single weighted leg.
+function mergeOrderFills(fills: BrokerFill[]): BrokerFill[] {
+  const merged: BrokerFill[] = [];
+  fills.forEach((fill) => {
+    const previous = merged.at(-1);
+    if (
+      previous &&
+      fill.orderId &&
+      previous.orderId === fill.orderId &&
+      previous.side === fill.side &&
+      previous.symbol === fill.symbol &&
+      instrumentKey(previous.instrument) === instrumentKey(fill.instrument)
+    ) {
+      const quantity = previous.quantity + fill.quantity;
+      merged[merged.length - 1] = {
+        ...previous,
+        quantity,
+        price: (previous.price * previous.quantity + fill.price * fill.quantity) / quantity,
+        fees: previous.fees != null || fill.fees != null ? (previous.fees ?? 0) + (fill.fees ?? 0) : undefined,
+      };
+      return;
+    }
+    merged.push({ ...fill });
+  });
+  return merged;
+}
+
+function proratedFees(fill: BrokerFill, quantity: number): number | undefined {
+  if (fill.fees == null || fill.quantity <= 0) {
+    return undefined;
+  }
+  return roundTo2((fill.fees * quantity) / fill.quantity);
+}
+
+function toEntryLeg(fill: BrokerFill, quantity: number): Omit<EntryLeg, 'id'> {
+  return {
+    date: fill.date,
+    time: fill.time,
+    quantity: roundTo2(quantity),
+    entryPrice: roundTo2(fill.price),
+    fees: proratedFees(fill, quantity),
+  };
+}
+
+function toExitLeg(fill: BrokerFill, quantity: number): Omit<ExitLeg, 'id'> {
+  return {
+    date: fill.date,
+    time: fill.time,
+    quantity: roundTo2(quantity),
+    exitPrice: roundTo2(fill.price),
+    fees: proratedFees(fill, quantity),
+  };
+}
+
+export function groupFillsIntoTrades(fills: BrokerFill[]): ImportTradeInput[] {
+  const drafts: ImportTradeInput[] = [];
+  const openPositions = new Map<string, OpenPosition>();
+
+  mergeOrderFills(sortFills(fills)).forEach((fill) => {
+    const positionKey = `${fill.symbol}|${instrumentKey(fill.instrument)}`;
+    const fillDirection = fill.side === 'buy' ? 'long' : 'short';
+    let remaining = fill.quantity;
+    const position = openPositions.get(positionKey);
+
+    if (position && position.draft.direction === fillDirection) {
+      position.draft.entryLegs.push(toEntryLeg(fill, remaining));
+      position.openQuantity += remaining;
+      return;
+    }
+
+    if (position) {
+      const closingQty = Math.min(position.openQuantity, remaining);
+      position.draft.exitLegs.push(toExitLeg(fill, closingQty));
+      position.openQuantity -= closingQty;
+      remaining -= closingQty;
+      if (position.openQuantity <= EPSILON) {
+        openPositions.delete(positionKey);
+      }
+    }
+
+    // Anything left over after flattening opens a fresh position in the fill's direction.
+    if (remaining > EPSILON) {
+      const draft: ImportTradeInput = {
+        date: fill.date,
+        entryTime: fill.time,
+        symbol: fill.symbol,
+        direction: fillDirection,
+        instrument: fill.instrument,
+        entryLegs: [toEntryLeg(fill, remaining)],
+        exitLegs: [],
+        importKey: `${fill.broker}:${fillKey(fill)}`,
+      };
+      drafts.push(draft);
+      openPositions.set(positionKey, { draft, openQuantity: remaining });
+    }
+  });
+
+  return drafts;
+}
@@ -0,0 +1,82 @@
+import type { ImportTradeInput, Trade } from '../../../shared/types/trade';
+import { importTradeError } from '../../trades/repository/tradeRepository';
+import { detectBrokerParser, getBrokerParser } from './brokers/brokerRegistry';
+import type { BrokerId, BrokerParser, BrokerRowError } from './brokers/brokerTypes';
+import { mapCsvRows, type ColumnMapping, type CsvHeaderRow } from './columnMapping';
+import { groupFillsIntoTrades } from './fillGrouping';
+
+export interface ImportPreviewItem {
+  draft: ImportTradeInput;
+  duplicateOfTradeId?: string;
+}
+
+export interface ImportPreview {
+  broker?: BrokerParser;
+  fillCount: number;
+  items: ImportPreviewItem[];
+  errors: BrokerRowError[];
+}
+
+function samePrice(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.01;
+}
+
+function draftEntrySummary(draft: ImportTradeInput): { entryPrice: number; quantity: number } {
+  const quantity = draft.entryLegs.reduce((sum, leg) => sum + leg.quantity, 0);
+  const cost = draft.entryLegs.reduce((sum, leg) => sum + leg.entryPrice * leg.quantity, 0);
+  return { entryPrice: quantity > 0 ? cost / quantity : 0, quantity };
+}
+
+export function findDuplicateTrade(draft: ImportTradeInput, existingTrades: Trade[]): Trade | undefined {
+  if (draft.importKey) {
+    const byKey = existingTrades.find((trade) => trade.importKey === draft.importKey);
+    if (byKey) {
+      return byKey;
+    }
+  }
+
+  // Trades typed in by hand have no import key, so fall back to matching the entry itself.
+  const summary = draftEntrySummary(draft);
+  return existingTrades.find(
+    (trade) =>
+      trade.symbol === draft.symbol.toUpperCase() &&
+      trade.direction === draft.direction &&
+      trade.date === draft.date &&
+      samePrice(trade.entryPrice, summary.entryPrice) &&
+      Math.abs(trade.quantity - summary.quantity) < 0.000001
+  );
+}
+
+function toPreviewItems(drafts: ImportTradeInput[], existingTrades: Trade[]): ImportPreviewItem[] {
+  return drafts.map((draft) => ({
+    draft,
+    duplicateOfTradeId: findDuplicateTrade(draft, existingTrades)?.id,
+  }));
+}
+
+export function buildImportPreview(text: string, brokerId: BrokerId | 'auto', existingTrades: Trade[]): ImportPreview {
+  const broker = brokerId === 'auto' ? detectBrokerParser(text) : getBrokerParser(brokerId);
+  if (!broker) {
+    return {
+      fillCount: 0,
+      items: [],
+      errors: [{ row: 0, message: 'Could not recognise this file. Pick the broker manually and try again.' }],
+    };
+  }
+
+  const { fills, errors } = broker.parse(text);
+  // Grouped trades no longer map to one row, so a rejected one is reported by symbol and date.
+  const drafts = groupFillsIntoTrades(fills).filter((draft) => {
+    const error = importTradeError(draft);
+    if (error) {
+      errors.push({ row: 0, message: `${draft.symbol} ${draft.date}: ${error}` });
+    }
+    return !error;
+  });
+  return { broker, fillCount: fills.length, items: toPreviewItems(drafts, existingTrades), errors };
+}
+
+export function buildMappedImportPreview(table: CsvHeaderRow, mapping: ColumnMapping, existingTrades: Trade[]): ImportPreview {
+  const { drafts, errors } = mapCsvRows(table, mapping);
+  return { fillCount: table.rows.length, items: toPreviewItems(drafts, existingTrades), errors };
+}
@@ -0,0 +1,214 @@
+import { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { buildCalendarMonth, buildDailyPnl, type CalendarMonth, type DailyPnl } from '../../analytics/calendarService';
+import type { Trade } from '../../../shared/types/trade';
+
+interface PnlCalendarProps {
+  trades: Trade[];
+  includeUnrealized: boolean;
+  formatCurrency: (value: number) => string;
+  onSelectDate: (date: string) => void;
+}
+
+type CalendarView = 'month' | 'year';
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const monthFormatter = new Intl.DateTimeFormat(undefined, { month: 'long', year: 'numeric' });
+const shortMonthFormatter = new Intl.DateTimeFormat(undefined, { month: 'short' });
+
+function pnlClass(value: number): string {
+  if (value > 0) {
+    return 'text-[var(--positive)]';
+  }
+  if (value < 0) {
+    return 'text-[var(--negative)]';
+  }
+  return 'text-[var(--muted)]';
+}
+
+// Shade strength is relative to the largest daily move in view so quiet months still show contrast.
+function cellBackground(entry: DailyPnl | undefined, maxAbsPnl: number): string | undefined {
+  if (!entry || entry.pnl === 0 || maxAbsPnl <= 0) {
+    return undefined;
+  }
+  const alpha = (0.18 + 0.62 * Math.min(1, Math.abs(entry.pnl) / maxAbsPnl)).toFixed(2);
+  return entry.pnl > 0 ? `rgba(52, 211, 153, ${alpha})` : `rgba(248, 113, 113, ${alpha})`;
+}
+
+function maxAbsPnl(months: CalendarMonth[], daily: Map<string, DailyPnl>): number {
+  let max = 0;
+  months.forEach((month) =>
+    month.weeks.forEach((week) =>
+      week.days.forEach((date) => {
+        const entry = date ? daily.get(date) : undefined;
+        if (entry) {
+          max = Math.max(max, Math.abs(entry.pnl));
+        }
+      })
+    )
+  );
+  return max;
+}
+
+export default function PnlCalendar({ trades, includeUnrealized, formatCurrency, onSelectDate }: PnlCalendarProps) {
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => {
+    const today = new Date();
+    return { year: today.getFullYear(), month: today.getMonth() };
+  });
+
+  const daily = useMemo(() => buildDailyPnl(trades, includeUnrealized), [includeUnrealized, trades]);
+  const months = useMemo(
+    () =>
+      view === 'month'
+        ? [buildCalendarMonth(cursor.year, cursor.month, daily)]
+        : Array.from({ length: 12 }, (_, month) => buildCalendarMonth(cursor.year, month, daily)),
+    [cursor, daily, view]
+  );
+  const scale = useMemo(() => maxAbsPnl(months, daily), [daily, months]);
+  const total = months.reduce((sum, month) => sum + month.pnl, 0);
+  const tradeCount = months.reduce((sum, month) => sum + month.trades, 0);
+
+  const shift = (step: number) => {
+    setCursor((current) => {
+      if (view === 'year') {
+        return { ...current, year: current.year + step };
+      }
+      const next = new Date(current.year, current.month + step, 1);
+      return { year: next.getFullYear(), month: next.getMonth() };
+    });
+  };
+
+  const describeDay = (date: string, entry: DailyPnl | undefined) =>
+    entry ? `${date}: ${formatCurrency(entry.pnl)} across ${entry.trades} trade${entry.trades === 1 ? '' : 's'}` : `${date}: no trades`;
+
+  return (
+    <section className="rounded-xl border border-[var(--border)] bg-[var(--surface-2)] p-3">
+      <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => shift(-1)}
+            className="flex h-11 w-11 items-center justify-center rounded-lg text-[var(--muted)] transition hover:bg-[var(--surface)] hover:text-[var(--text)]"
+            aria-label="Previous"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <h3 className="min-w-[9rem] text-center text-sm font-semibold">
+            {view === 'month' ? monthFormatter.format(new Date(cursor.year, cursor.month, 1)) : cursor.year}
+          </h3>
+          <button
+            type="button"
+            onClick={() => shift(1)}
+            className="flex h-11 w-11 items-center justify-center rounded-lg text-[var(--muted)] transition hover:bg-[var(--surface)] hover:text-[var(--text)]"
+            aria-label="Next"
+          >
+            <ChevronRight size={16} />
+          </button>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={`text-sm font-semibold ${pnlClass(total)}`}>
+            {total >= 0 ? '+' : ''}
+            {formatCurrency(total)}
+          </span>
+          <span className="text-xs text-[var(--muted)]">
+            {tradeCount} trade{tradeCount === 1 ? '' : 's'}
+          </span>
+          <div className="inline-flex rounded-lg border border-[var(--border)] bg-[var(--surface)] p-0.5">
+            {(['month', 'year'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`flex min-h-11 items-center rounded-md px-3 text-tertiary capitalize ${
+                  view === option ? 'bg-[var(--surface-3)] text-[var(--text)]' : 'text-[var(--muted)]'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {view === 'month' ? (
+        <div className="grid grid-cols-[repeat(7,minmax(0,1fr))_minmax(4.5rem,auto)] gap-1 text-xs">
+          {WEEKDAY_LABELS.map((label) => (
+            <span key={label} className="text-center text-[var(--muted)]">
+              {label}
+            </span>
+          ))}
+          <span className="text-right text-[var(--muted)]">Week</span>
+          {months[0].weeks.map((week, weekIndex) => (
+            <div key={weekIndex} className="contents">
+              {week.days.map((date, dayIndex) => {
+                if (!date) {
+                  return <span key={dayIndex} />;
+                }
+                const entry = daily.get(date);
+                return (
+                  <button
+                    key={date}
+                    type="button"
+                    title={describeDay(date, entry)}
+                    onClick={() => onSelectDate(date)}
+                    style={{ backgroundColor: cellBackground(entry, scale) }}
+                    className="flex min-h-11 flex-col items-start justify-between rounded-md border border-[var(--border)] p-1 text-left transition hover:border-[var(--accent)]"
+                  >
+                    <span className="text-[10px] text-[var(--muted)]">{Number(date.slice(8))}</span>
+                    {entry ? <span className="hidden truncate text-[10px] font-semibold text-[var(--text)] sm:block">{formatCurrency(entry.pnl)}</span> : null}
+                  </button>
+                );
+              })}
+              <div className="flex flex-col items-end justify-center">
+                <span className={`font-semibold ${pnlClass(week.pnl)}`}>{week.trades > 0 ? formatCurrency(week.pnl) : '—'}</span>
+                {week.trades > 0 ? <span className="text-[10px] text-[var(--muted)]">{week.trades} trades</span> : null}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+          {months.map((month) => (
+            <div key={month.month}>
+              <button
+                type="button"
+                onClick={() => {
+                  setCursor({ year: month.year, month: month.month });
+                  setView('month');
+                }}
+                className="mb-1 flex w-full items-center justify-between text-xs"
+              >
+                <span className="font-semibold">{shortMonthFormatter.format(new Date(month.year, month.month, 1))}</span>
+                <span className={pnlClass(month.pnl)}>{month.trades > 0 ? formatCurrency(month.pnl) : '—'}</span>
+              </button>
+              <div className="grid grid-cols-7 gap-0.5">
+                {month.weeks.flatMap((week) => week.days).map((date, index) => {
+                  if (!date) {
+                    return <span key={index} className="aspect-square" />;
+                  }
+                  const entry = daily.get(date);
+                  return (
+                    <button
+                      key={date}
+                      type="button"
+                      title={describeDay(date, entry)}
+                      onClick={() => onSelectDate(date)}
+                      style={{ backgroundColor: cellBackground(entry, scale) ?? 'var(--surface)' }}
+                      className="aspect-square rounded-sm"
+                      aria-label={describeDay(date, entry)}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="mt-2 text-xs text-[var(--muted)]">
+        {includeUnrealized ? 'Total' : 'Realized'} P&amp;L by trade date. Select a day to see its trades.
+      </p>
+    </section>
+  );
+}
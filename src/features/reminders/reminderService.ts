@@ -1,8 +1,6 @@
+import { MONTH_END_STORAGE_KEY, WEEKLY_REVIEW_STORAGE_KEY } from '../../shared/config/storageKeys';
 import type { Reminder, ReminderKind } from '../../shared/types/reminder';
 
-const WEEKLY_REVIEW_KEY = 'reminder.weeklyReview.completedAt';
-const MONTH_END_KEY = 'reminder.monthEnd.completedPeriod';
-
 function toIsoDate(date: Date): string {
   return date.toISOString().slice(0, 10);
 }
@@ -27,7 +25,7 @@ function createReminder(kind: ReminderKind, title: string, description: string,
 export function listActiveReminders(now = new Date()): Reminder[] {
   const reminders: Reminder[] = [];
 
-  const completedWeeklyAt = localStorage.getItem(WEEKLY_REVIEW_KEY);
+  const completedWeeklyAt = localStorage.getItem(WEEKLY_REVIEW_STORAGE_KEY);
   const weeklyBase = completedWeeklyAt ? new Date(completedWeeklyAt) : new Date(now.getFullYear(), now.getMonth(), now.getDate() - 7);
   const weeklyDue = new Date(weeklyBase);
   weeklyDue.setDate(weeklyDue.getDate() + 7);
@@ -46,7 +44,7 @@ export function listActiveReminders(now = new Date()): Reminder[] {
   }
 
   const currentPeriod = getCurrentPeriod(now);
-  const completedMonthEndFor = localStorage.getItem(MONTH_END_KEY);
+  const completedMonthEndFor = localStorage.getItem(MONTH_END_STORAGE_KEY);
   const monthEndDue = `${currentPeriod}-25`;
 
   if (now.getDate() >= 25 && completedMonthEndFor !== currentPeriod) {
@@ -66,9 +64,9 @@ export function listActiveReminders(now = new Date()): Reminder[] {
 
 export function completeReminder(kind: ReminderKind, now = new Date()): void {
   if (kind === 'weekly_review') {
-    localStorage.setItem(WEEKLY_REVIEW_KEY, now.toISOString());
+    localStorage.setItem(WEEKLY_REVIEW_STORAGE_KEY, now.toISOString());
   }
   if (kind === 'month_end_goal_check') {
-    localStorage.setItem(MONTH_END_KEY, `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`);
+    localStorage.setItem(MONTH_END_STORAGE_KEY, `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`);
   }
 }
@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import type { Trade } from '../../../shared/types/trade';
+import {
+  TRADE_CONFLICT_FIELDS,
+  type ConflictSide,
+  type TradeConflict,
+  type TradeConflictField,
+} from '../services/tradeConflicts';
+
+type ConflictChoices = Partial<Record<TradeConflictField, ConflictSide>>;
+
+interface SyncConflictModalProps {
+  conflicts: TradeConflict[];
+  formatCurrency: (value: number) => string;
+  onClose: () => void;
+  onResolve: (tradeId: string, choices: ConflictChoices) => void;
+}
+
+const INSTRUMENT_LABELS: Record<string, string> = {
+  equity: 'Equity',
+  future: 'Future',
+  call_option: 'Call option',
+  put_option: 'Put option',
+};
+
+function describeField(trade: Trade, field: TradeConflictField, formatCurrency: (value: number) => string): string[] {
+  switch (field) {
+    case 'entryLegs':
+      return trade.entryLegs.length > 0
+        ? trade.entryLegs.map((leg) => `${leg.date}${leg.time ? ` ${leg.time}` : ''} · ${leg.quantity} @ ${formatCurrency(leg.entryPrice)}${leg.fees ? ` · fees ${formatCurrency(leg.fees)}` : ''}`)
+        : ['No entries'];
+    case 'exitLegs':
+      return trade.exitLegs.length > 0
+        ? trade.exitLegs.map((leg) => `${leg.date}${leg.time ? ` ${leg.time}` : ''} · ${leg.quantity} @ ${formatCurrency(leg.exitPrice)}${leg.fees ? ` · fees ${formatCurrency(leg.fees)}` : ''}`)
+        : ['No exits'];
+    case 'instrument': {
+      const instrument = trade.instrument;
+      if (!instrument) {
+        return ['Equity'];
+      }
+      const parts = [INSTRUMENT_LABELS[instrument.type] ?? instrument.type, instrument.expiry, instrument.strike != null ? `strike ${instrument.strike}` : undefined];
+      return [parts.filter(Boolean).join(' · ')];
+    }
+    case 'stopLoss':
+    case 'targetPrice':
+    case 'initialRisk': {
+      const value = trade[field];
+      return [value == null ? '—' : formatCurrency(value)];
+    }
+    case 'deletedAt':
+      return [trade.deletedAt ? `Deleted ${trade.deletedAt.slice(0, 10)}` : 'Not deleted'];
+    default: {
+      const value = trade[field];
+      return [value ? String(value) : '—'];
+    }
+  }
+}
+
+export default function SyncConflictModal({ conflicts, formatCurrency, onClose, onResolve }: SyncConflictModalProps) {
+  const [choicesById, setChoicesById] = useState<Record<string, ConflictChoices>>({});
+  const conflict = conflicts[0];
+  if (!conflict) {
+    return null;
+  }
+
+  const choices = choicesById[conflict.id] ?? {};
+  const sideFor = (field: TradeConflictField): ConflictSide => choices[field] ?? conflict.defaults[field];
+  const rows = TRADE_CONFLICT_FIELDS.filter(({ field }) => conflict.fields.includes(field));
+
+  const choose = (field: TradeConflictField, side: ConflictSide) => {
+    setChoicesById((current) => ({ ...current, [conflict.id]: { ...current[conflict.id], [field]: side } }));
+  };
+
+  const resolveAll = (side: ConflictSide) => {
+    const all: ConflictChoices = {};
+    TRADE_CONFLICT_FIELDS.forEach(({ field }) => {
+      all[field] = side;
+    });
+    onResolve(conflict.id, all);
+  };
+
+  const sideButtonClass = (selected: boolean) =>
+    `min-h-11 w-full rounded-lg border px-3 py-2 text-left text-sm transition ${
+      selected ? 'border-[var(--accent)] bg-[var(--surface-2)] text-[var(--text)]' : 'border-[var(--border)] text-[var(--muted)] hover:bg-[var(--surface-2)]'
+    }`;
+
+  return (
+    <div className="modal-backdrop fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-3 sm:p-4">
+      <div className="modal-panel max-h-[92vh] w-full max-w-2xl overflow-y-auto rounded-2xl border border-[var(--border)] bg-[var(--surface)]">
+        <div className="flex items-center justify-between border-b border-[var(--border)] px-4 py-3">
+          <h2 className="text-secondary">
+            Sync Conflict {conflicts.length > 1 ? <span className="text-tertiary-sm">1 of {conflicts.length}</span> : null}
+          </h2>
+          <button
+            type="button"
+            className="flex h-11 w-11 items-center justify-center rounded-lg text-[var(--muted)] transition hover:bg-[var(--surface-2)] hover:text-[var(--text)]"
+            onClick={onClose}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-3 px-4 py-4">
+          <p className="text-sm text-[var(--muted)]">
+            <span className="font-semibold text-[var(--text)]">{conflict.local.symbol}</span> ({conflict.local.date}) was edited on this device and in the
+            cloud since the last sync. Pick which value to keep for each field.
+          </p>
+
+          <div className="grid grid-cols-[minmax(0,7rem)_1fr_1fr] items-start gap-2">
+            <span />
+            <span className="text-label">This device</span>
+            <span className="text-label">Cloud</span>
+            {rows.map(({ field, label }) => (
+              <div key={field} className="contents">
+                <span className="pt-3 text-sm text-[var(--muted)]">{label}</span>
+                {(['local', 'remote'] as const).map((side) => (
+                  <button key={side} type="button" onClick={() => choose(field, side)} className={sideButtonClass(sideFor(field) === side)}>
+                    {describeField(side === 'local' ? conflict.local : conflict.remote, field, formatCurrency).map((line, index) => (
+                      <span key={index} className="block break-words">
+                        {line}
+                      </span>
+                    ))}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+            <button
+              type="button"
+              onClick={() => resolveAll('local')}
+              className="min-h-11 rounded-lg border border-[var(--border)] px-4 py-2 text-sm text-[var(--text)] transition hover:bg-[var(--surface-2)]"
+            >
+              Keep This Device
+            </button>
+            <button
+              type="button"
+              onClick={() => resolveAll('remote')}
+              className="min-h-11 rounded-lg border border-[var(--border)] px-4 py-2 text-sm text-[var(--text)] transition hover:bg-[var(--surface-2)]"
+            >
+              Keep Cloud
+            </button>
+            <button
+              type="button"
+              onClick={() => onResolve(conflict.id, choices)}
+              className="min-h-11 rounded-lg bg-[var(--accent)] px-4 py-2 text-secondary-sm text-black transition hover:brightness-110"
+            >
+              Apply Choices
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
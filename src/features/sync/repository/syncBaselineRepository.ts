@@ -0,0 +1,83 @@
+import { SYNC_BASELINE_STORAGE_KEY } from '../../../shared/config/storageKeys';
+import { recordVersion } from '../../../shared/services/tombstones';
+import type { Trade } from '../../../shared/types/trade';
+import { toTradeSnapshot, type TradeSnapshot } from '../services/tradeConflicts';
+
+export interface SyncedTradeRecord {
+  version: string;
+  snapshot: TradeSnapshot;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// Remembers, per trade and per account, the version last confirmed by the server.
+export class LocalSyncBaselineRepository {
+  private readonly storageKey: string;
+
+  constructor(userId: string) {
+    this.storageKey = `${SYNC_BASELINE_STORAGE_KEY}.${userId}`;
+  }
+
+  private readAll(): Record<string, SyncedTradeRecord> {
+    const raw = localStorage.getItem(this.storageKey);
+    if (!raw) {
+      return {};
+    }
+    try {
+      const parsed = JSON.parse(raw);
+      if (!isObject(parsed)) {
+        return {};
+      }
+      const records: Record<string, SyncedTradeRecord> = {};
+      Object.entries(parsed).forEach(([id, record]) => {
+        if (isObject(record) && typeof record.version === 'string' && isObject(record.snapshot)) {
+          records[id] = { version: record.version, snapshot: record.snapshot as unknown as TradeSnapshot };
+        }
+      });
+      return records;
+    } catch {
+      return {};
+    }
+  }
+
+  private writeAll(records: Record<string, SyncedTradeRecord>): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(records));
+  }
+
+  listSnapshots(): Map<string, TradeSnapshot> {
+    return new Map(Object.entries(this.readAll()).map(([id, record]) => [id, record.snapshot]));
+  }
+
+  markSynced(trades: Trade[]): void {
+    if (trades.length === 0) {
+      return;
+    }
+    const records = this.readAll();
+    trades.forEach((trade) => {
+      records[trade.id] = { version: recordVersion(trade), snapshot: toTradeSnapshot(trade) };
+    });
+    this.writeAll(records);
+  }
+
+  forget(tradeIds: string[]): void {
+    if (tradeIds.length === 0) {
+      return;
+    }
+    const records = this.readAll();
+    tradeIds.forEach((id) => {
+      delete records[id];
+    });
+    this.writeAll(records);
+  }
+
+  // Drops entries for trades that no longer exist on either side.
+  retain(tradeIds: Set<string>): void {
+    const records = this.readAll();
+    const next = Object.fromEntries(Object.entries(records).filter(([id]) => tradeIds.has(id)));
+    if (Object.keys(next).length !== Object.keys(records).length) {
+      this.writeAll(next);
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { SYNC_OUTBOX_STORAGE_KEY } from '../../../shared/config/storageKeys';
+
+export type OutboxKind = 'trades' | 'goals';
+export type OutboxOperation = 'upsert' | 'delete';
+
+export interface OutboxEntry {
+  kind: OutboxKind;
+  id: string;
+  op: OutboxOperation;
+  queuedAt: string;
+}
+
+export interface OutboxStatus {
+  pending: number;
+  lastSyncedAt?: string;
+  lastFailedAt?: string;
+}
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  lastSyncedAt?: string;
+  lastFailedAt?: string;
+}
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function normalizeEntry(raw: unknown): OutboxEntry | null {
+  if (!isObject(raw) || typeof raw.id !== 'string' || typeof raw.queuedAt !== 'string') {
+    return null;
+  }
+  if ((raw.kind !== 'trades' && raw.kind !== 'goals') || (raw.op !== 'upsert' && raw.op !== 'delete')) {
+    return null;
+  }
+  return { kind: raw.kind, id: raw.id, op: raw.op, queuedAt: raw.queuedAt };
+}
+
+// Pending cloud writes, persisted per account. Entries name records rather than carry them:
+// the local store already holds the latest copy, so repeated edits to one record coalesce.
+export class LocalSyncOutboxRepository {
+  private readonly storageKey: string;
+
+  constructor(userId: string) {
+    this.storageKey = `${SYNC_OUTBOX_STORAGE_KEY}.${userId}`;
+  }
+
+  private read(): OutboxState {
+    const raw = localStorage.getItem(this.storageKey);
+    if (!raw) {
+      return { entries: [] };
+    }
+    try {
+      const parsed = JSON.parse(raw);
+      if (!isObject(parsed) || !Array.isArray(parsed.entries)) {
+        return { entries: [] };
+      }
+      return {
+        entries: parsed.entries.map(normalizeEntry).filter((entry): entry is OutboxEntry => entry !== null),
+        lastSyncedAt: typeof parsed.lastSyncedAt === 'string' ? parsed.lastSyncedAt : undefined,
+        lastFailedAt: typeof parsed.lastFailedAt === 'string' ? parsed.lastFailedAt : undefined,
+      };
+    } catch {
+      return { entries: [] };
+    }
+  }
+
+  private write(state: OutboxState): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(state));
+  }
+
+  listEntries(kind: OutboxKind): OutboxEntry[] {
+    return this.read().entries.filter((entry) => entry.kind === kind);
+  }
+
+  enqueue(kind: OutboxKind, upsertIds: string[], deleteIds: string[]): void {
+    if (upsertIds.length === 0 && deleteIds.length === 0) {
+      return;
+    }
+    const state = this.read();
+    const queuedAt = nowIso();
+    const queued = [
+      ...upsertIds.map((id): OutboxEntry => ({ kind, id, op: 'upsert', queuedAt })),
+      ...deleteIds.map((id): OutboxEntry => ({ kind, id, op: 'delete', queuedAt })),
+    ];
+    const queuedIds = new Set(queued.map((entry) => entry.id));
+    const kept = state.entries.filter((entry) => entry.kind !== kind || !queuedIds.has(entry.id));
+    this.write({ ...state, entries: [...kept, ...queued] });
+  }
+
+  remove(kind: OutboxKind, ids: string[]): void {
+    if (ids.length === 0) {
+      return;
+    }
+    const removedIds = new Set(ids);
+    const state = this.read();
+    this.write({ ...state, entries: state.entries.filter((entry) => entry.kind !== kind || !removedIds.has(entry.id)) });
+  }
+
+  // Only drops entries that were not re-queued while the push was in flight.
+  acknowledge(pushed: OutboxEntry[]): void {
+    const pushedKeys = new Set(pushed.map((entry) => `${entry.kind}:${entry.id}:${entry.queuedAt}`));
+    const state = this.read();
+    this.write({
+      ...state,
+      entries: state.entries.filter((entry) => !pushedKeys.has(`${entry.kind}:${entry.id}:${entry.queuedAt}`)),
+      lastSyncedAt: nowIso(),
+    });
+  }
+
+  markFailed(): void {
+    this.write({ ...this.read(), lastFailedAt: nowIso() });
+  }
+
+  getStatus(): OutboxStatus {
+    const { entries, lastSyncedAt, lastFailedAt } = this.read();
+    return { pending: entries.length, lastSyncedAt, lastFailedAt };
+  }
+}
@@ -0,0 +1,56 @@
+import { normalizeGoal } from '../../goals/repository/goalRepository';
+import { normalizeTrade } from '../../trades/repository/tradeRepository';
+import type { Goal } from '../../../shared/types/goal';
+import type { Trade } from '../../../shared/types/trade';
+import { supabase } from '../../../supabaseClient';
+
+const LEGACY_TRADING_DATA_TABLE = 'user_trading_data';
+
+interface LegacyTradingDataRow {
+  user_id: string;
+  trades: unknown;
+  goals: unknown;
+  migrated_at?: string | null;
+}
+
+export interface LegacyTradingData {
+  trades: Trade[];
+  goals: Goal[];
+}
+
+function parseTrades(value: unknown): Trade[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.map(normalizeTrade).filter((item): item is Trade => item !== null);
+}
+
+function parseGoals(value: unknown): Goal[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.map(normalizeGoal).filter((item): item is Goal => item !== null);
+}
+
+// Returns the JSONB blob that predates the per-row tables, or null once it has been copied across.
+export async function fetchLegacyTradingData(userId: string): Promise<LegacyTradingData | null> {
+  const { data, error } = await supabase
+    .from(LEGACY_TRADING_DATA_TABLE)
+    .select('user_id,trades,goals,migrated_at')
+    .eq('user_id', userId)
+    .maybeSingle<LegacyTradingDataRow>();
+
+  // Read errors, such as a project created after the blob table was retired, mean there is nothing to migrate.
+  if (error || !data || data.migrated_at) {
+    return null;
+  }
+  return { trades: parseTrades(data.trades), goals: parseGoals(data.goals) };
+}
+
+export async function markLegacyTradingDataMigrated(userId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from(LEGACY_TRADING_DATA_TABLE)
+    .update({ migrated_at: new Date().toISOString() })
+    .eq('user_id', userId);
+  return !error;
+}
@@ -0,0 +1,140 @@
+import type { LocalSyncOutboxRepository, OutboxKind, OutboxStatus } from '../repository/syncOutboxRepository';
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export type OutboxPush = (upsertIds: string[], deleteIds: string[]) => Promise<boolean>;
+
+export interface OutboxSyncOptions {
+  onStatusChange?: (status: OutboxStatus) => void;
+  onSyncingChange?: (isSyncing: boolean) => void;
+}
+
+// Drains one kind of outbox entry through `push`, one drain at a time. Failed drains retry with
+// exponential backoff; while offline nothing is attempted until the browser reports `online`.
+// Draining starts paused so a repository can reconcile with the server before replaying edits.
+export class OutboxSync {
+  private readonly outbox: LocalSyncOutboxRepository;
+  private readonly kind: OutboxKind;
+  private readonly push: OutboxPush;
+  private readonly options: OutboxSyncOptions;
+  private pending: Promise<boolean> = Promise.resolve(true);
+  private isPaused = true;
+  private retryAttempt = 0;
+  private retryTimer: number | null = null;
+
+  constructor(outbox: LocalSyncOutboxRepository, kind: OutboxKind, push: OutboxPush, options: OutboxSyncOptions = {}) {
+    this.outbox = outbox;
+    this.kind = kind;
+    this.push = push;
+    this.options = options;
+  }
+
+  private notify(): void {
+    this.options.onStatusChange?.(this.outbox.getStatus());
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer !== null) {
+      window.clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private scheduleRetry(): void {
+    this.clearRetry();
+    const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** this.retryAttempt);
+    this.retryAttempt += 1;
+    this.retryTimer = window.setTimeout(() => {
+      this.retryTimer = null;
+      void this.drain();
+    }, delay);
+  }
+
+  private async drainOnce(): Promise<boolean> {
+    const entries = this.outbox.listEntries(this.kind);
+    if (entries.length === 0) {
+      return true;
+    }
+    if (this.isPaused || !navigator.onLine) {
+      return false;
+    }
+
+    this.clearRetry();
+    this.options.onSyncingChange?.(true);
+    let ok = false;
+    try {
+      ok = await this.push(
+        entries.filter((entry) => entry.op === 'upsert').map((entry) => entry.id),
+        entries.filter((entry) => entry.op === 'delete').map((entry) => entry.id)
+      );
+    } catch {
+      ok = false;
+    }
+    this.options.onSyncingChange?.(false);
+
+    if (ok) {
+      this.outbox.acknowledge(entries);
+      this.retryAttempt = 0;
+    } else {
+      this.outbox.markFailed();
+      this.scheduleRetry();
+    }
+    this.notify();
+    return ok;
+  }
+
+  enqueue(upsertIds: string[], deleteIds: string[]): void {
+    if (upsertIds.length === 0 && deleteIds.length === 0) {
+      return;
+    }
+    this.outbox.enqueue(this.kind, upsertIds, deleteIds);
+    this.notify();
+    void this.drain();
+  }
+
+  discard(ids: string[]): void {
+    this.outbox.remove(this.kind, ids);
+    this.notify();
+  }
+
+  listPendingIds(): string[] {
+    return this.outbox.listEntries(this.kind).map((entry) => entry.id);
+  }
+
+  listPendingDeletes(): string[] {
+    return this.outbox
+      .listEntries(this.kind)
+      .filter((entry) => entry.op === 'delete')
+      .map((entry) => entry.id);
+  }
+
+  hasPending(): boolean {
+    return this.outbox.listEntries(this.kind).length > 0;
+  }
+
+  resume(): void {
+    this.isPaused = false;
+    void this.drain();
+  }
+
+  // Resolves true once this kind's outbox is empty; false while entries remain queued.
+  drain(): Promise<boolean> {
+    this.pending = this.pending.then(() => this.drainOnce());
+    return this.pending;
+  }
+
+  // Retries immediately when connectivity returns; the returned function stops listening.
+  start(): () => void {
+    const handleOnline = () => {
+      this.retryAttempt = 0;
+      void this.drain();
+    };
+    window.addEventListener('online', handleOnline);
+    this.notify();
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      this.clearRetry();
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { Trade } from '../../../shared/types/trade';
+import { reconcileTrades, toTradeSnapshot } from './tradeConflicts';
+
+const openTrade: Trade = {
+  id: 'trade_1',
+  date: '2026-09-01',
+  symbol: 'INFY',
+  direction: 'long',
+  entryPrice: 1850,
+  quantity: 10,
+  status: 'open',
+  entryLegs: [{ id: 'leg_1', date: '2026-09-01', quantity: 10, entryPrice: 1850 }],
+  exitLegs: [],
+  markPrice: 1860,
+  markPriceUpdatedAt: '2026-09-02T04:00:00.000Z',
+  realizedPnl: 0,
+  unrealizedPnl: 100,
+  totalPnl: 100,
+  realizedPnlPercent: 0,
+  totalPnlPercent: 0.54,
+  createdAt: '2026-09-01T04:00:00.000Z',
+  updatedAt: '2026-09-02T04:00:00.000Z',
+};
+
+describe('reconcileTrades', () => {
+  const baseline = new Map([[openTrade.id, toTradeSnapshot(openTrade)]]);
+
+  it('does not report mark price ticks on both devices as a conflict', () => {
+    const local = { ...openTrade, markPrice: 1870, markPriceUpdatedAt: '2026-09-02T05:00:00.000Z', updatedAt: '2026-09-02T05:00:00.000Z' };
+    const remote = { ...openTrade, markPrice: 1880, markPriceUpdatedAt: '2026-09-02T06:00:00.000Z', updatedAt: '2026-09-02T06:00:00.000Z' };
+    const { trades, conflicts } = reconcileTrades([local], [remote], baseline);
+    expect(conflicts).toEqual([]);
+    expect(trades[0]).toMatchObject({ markPrice: 1880, markPriceUpdatedAt: '2026-09-02T06:00:00.000Z' });
+  });
+
+  it('keeps the newer local quote when taking a remote edit', () => {
+    const local = { ...openTrade, markPrice: 1890, markPriceUpdatedAt: '2026-09-02T07:00:00.000Z' };
+    const remote = { ...openTrade, notes: 'Trail the stop', updatedAt: '2026-09-02T06:00:00.000Z' };
+    const { trades, conflicts } = reconcileTrades([local], [remote], baseline);
+    expect(conflicts).toEqual([]);
+    expect(trades[0]).toMatchObject({ notes: 'Trail the stop', markPrice: 1890 });
+  });
+});
@@ -0,0 +1,178 @@
+import { normalizeTrade } from '../../trades/repository/tradeRepository';
+import { recordVersion } from '../../../shared/services/tombstones';
+import type { Trade } from '../../../shared/types/trade';
+
+export type TradeConflictField =
+  | 'date'
+  | 'entryTime'
+  | 'symbol'
+  | 'direction'
+  | 'instrument'
+  | 'entryLegs'
+  | 'exitLegs'
+  | 'stopLoss'
+  | 'targetPrice'
+  | 'initialRisk'
+  | 'setup'
+  | 'emotion'
+  | 'notes'
+  | 'deletedAt';
+
+export type ConflictSide = 'local' | 'remote';
+
+export type TradeSnapshot = Pick<Trade, TradeConflictField>;
+
+export const TRADE_CONFLICT_FIELDS: Array<{ field: TradeConflictField; label: string }> = [
+  { field: 'date', label: 'Date' },
+  { field: 'entryTime', label: 'Entry time' },
+  { field: 'symbol', label: 'Symbol' },
+  { field: 'direction', label: 'Direction' },
+  { field: 'instrument', label: 'Instrument' },
+  { field: 'entryLegs', label: 'Entries' },
+  { field: 'exitLegs', label: 'Exits' },
+  { field: 'stopLoss', label: 'Stop loss' },
+  { field: 'targetPrice', label: 'Target' },
+  { field: 'initialRisk', label: 'Initial risk' },
+  { field: 'setup', label: 'Setup' },
+  { field: 'emotion', label: 'Emotion' },
+  { field: 'notes', label: 'Notes' },
+  { field: 'deletedAt', label: 'Deleted' },
+];
+
+export interface TradeConflict {
+  id: string;
+  local: Trade;
+  remote: Trade;
+  fields: TradeConflictField[];
+  // The side each field defaults to: whichever side actually changed it since the last sync.
+  defaults: Record<TradeConflictField, ConflictSide>;
+}
+
+export interface TradeReconcileResult {
+  trades: Trade[];
+  conflicts: TradeConflict[];
+}
+
+function byDateThenId<T extends { id: string; date: string }>(a: T, b: T): number {
+  return a.date.localeCompare(b.date) || a.id.localeCompare(b.id);
+}
+
+// Leg order differs between localStorage and Postgres, so legs are sorted before comparing.
+export function toTradeSnapshot(trade: Trade): TradeSnapshot {
+  return {
+    date: trade.date,
+    entryTime: trade.entryTime,
+    symbol: trade.symbol,
+    direction: trade.direction,
+    instrument: trade.instrument,
+    entryLegs: [...trade.entryLegs].sort(byDateThenId),
+    exitLegs: [...trade.exitLegs].sort(byDateThenId),
+    stopLoss: trade.stopLoss,
+    targetPrice: trade.targetPrice,
+    initialRisk: trade.initialRisk,
+    setup: trade.setup,
+    emotion: trade.emotion,
+    notes: trade.notes,
+    deletedAt: trade.deletedAt,
+  };
+}
+
+function fieldValue(snapshot: TradeSnapshot, field: TradeConflictField): string {
+  return JSON.stringify(snapshot[field] ?? null);
+}
+
+function changedFields(from: TradeSnapshot, to: TradeSnapshot): TradeConflictField[] {
+  return TRADE_CONFLICT_FIELDS.map(({ field }) => field).filter((field) => fieldValue(from, field) !== fieldValue(to, field));
+}
+
+// Mark prices are quote data refreshed on every device, so they never conflict; the newer quote wins.
+function withNewerMark(trade: Trade, other: Trade): Trade {
+  if (trade.status !== 'open' || !other.markPriceUpdatedAt || other.markPriceUpdatedAt <= (trade.markPriceUpdatedAt ?? '')) {
+    return trade;
+  }
+  return { ...trade, markPrice: other.markPrice, markPriceUpdatedAt: other.markPriceUpdatedAt };
+}
+
+export function tradesMatch(a: Trade, b: Trade): boolean {
+  return changedFields(toTradeSnapshot(a), toTradeSnapshot(b)).length === 0;
+}
+
+// Three-way merge against the last synced snapshot of each trade. Trades edited on only one
+// side take that side; trades edited on both keep the local copy and are reported as conflicts.
+// Without a baseline (first sync on this device) the newer copy wins, as before.
+export function reconcileTrades(
+  localTrades: Trade[],
+  remoteTrades: Trade[],
+  baseline: Map<string, TradeSnapshot>
+): TradeReconcileResult {
+  const remoteById = new Map(remoteTrades.map((trade) => [trade.id, trade]));
+  const localIds = new Set(localTrades.map((trade) => trade.id));
+  const trades: Trade[] = [];
+  const conflicts: TradeConflict[] = [];
+
+  localTrades.forEach((local) => {
+    const remote = remoteById.get(local.id);
+    const base = baseline.get(local.id);
+    const localSnapshot = toTradeSnapshot(local);
+
+    if (!remote) {
+      // A synced trade missing remotely was purged on another device; keep it only if edited here since.
+      if (!base || changedFields(base, localSnapshot).length > 0) {
+        trades.push(local);
+      }
+      return;
+    }
+
+    const remoteSnapshot = toTradeSnapshot(remote);
+    const differing = changedFields(localSnapshot, remoteSnapshot);
+    if (differing.length === 0 || !base) {
+      trades.push(
+        recordVersion(local) > recordVersion(remote) ? withNewerMark(local, remote) : withNewerMark(remote, local)
+      );
+      return;
+    }
+
+    const localChanges = changedFields(base, localSnapshot);
+    const remoteChanges = changedFields(base, remoteSnapshot);
+    if (localChanges.length === 0) {
+      trades.push(withNewerMark(remote, local));
+      return;
+    }
+    if (remoteChanges.length === 0) {
+      trades.push(withNewerMark(local, remote));
+      return;
+    }
+
+    const defaults = {} as Record<TradeConflictField, ConflictSide>;
+    TRADE_CONFLICT_FIELDS.forEach(({ field }) => {
+      defaults[field] = remoteChanges.includes(field) && !localChanges.includes(field) ? 'remote' : 'local';
+    });
+    conflicts.push({ id: local.id, local, remote, fields: differing, defaults });
+    trades.push(withNewerMark(local, remote));
+  });
+
+  remoteTrades.forEach((remote) => {
+    if (!localIds.has(remote.id)) {
+      trades.push(remote);
+    }
+  });
+
+  return {
+    trades: trades.sort((a, b) => b.date.localeCompare(a.date) || b.updatedAt.localeCompare(a.updatedAt)),
+    conflicts,
+  };
+}
+
+export function resolveTradeConflict(
+  conflict: TradeConflict,
+  choices: Partial<Record<TradeConflictField, ConflictSide>>,
+  resolvedAt = new Date().toISOString()
+): Trade | null {
+  const resolved: Trade = withNewerMark({ ...conflict.local }, conflict.remote);
+  TRADE_CONFLICT_FIELDS.forEach(({ field }) => {
+    const side = choices[field] ?? conflict.defaults[field];
+    const source = side === 'remote' ? conflict.remote : conflict.local;
+    Object.assign(resolved, { [field]: source[field] });
+  });
+  return normalizeTrade({ ...resolved, updatedAt: resolvedAt });
+}
@@ -0,0 +1,219 @@
+import { useMemo, useState, type FormEvent } from 'react';
+import { X } from 'lucide-react';
+import type { AddEntryLegInput, Trade } from '../../../shared/types/trade';
+import type { CurrencyCode } from '../../../shared/config/tradingOptions';
+import { getAverageCost, getContractMultiplier, getRemainingQuantity } from '../../../shared/services/tradeMath';
+
+interface AddToPositionModalProps {
+  trade: Trade | null;
+  currency: CurrencyCode;
+  formatCurrency: (value: number) => string;
+  onClose: () => void;
+  onConfirmEntry: (tradeId: string, payload: AddEntryLegInput) => void;
+}
+
+function todayIso(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export default function AddToPositionModal({
+  trade,
+  currency,
+  formatCurrency,
+  onClose,
+  onConfirmEntry,
+}: AddToPositionModalProps) {
+  const [entryDate, setEntryDate] = useState(() => todayIso());
+  const [entryTime, setEntryTime] = useState('');
+  const [entryPrice, setEntryPrice] = useState(() => (trade?.markPrice != null ? String(trade.markPrice) : ''));
+  const [entryQty, setEntryQty] = useState('');
+  const [fees, setFees] = useState('');
+  const [note, setNote] = useState('');
+
+  const remainingQty = useMemo(() => (trade ? getRemainingQuantity(trade) : 0), [trade]);
+  const averageCost = useMemo(() => (trade ? getAverageCost(trade) : 0), [trade]);
+  const parsedEntryPrice = Number.parseFloat(entryPrice);
+  const parsedEntryQty = Number.parseFloat(entryQty);
+  const previewCost = useMemo(() => {
+    if (!trade || !Number.isFinite(parsedEntryPrice) || parsedEntryPrice <= 0 || !Number.isFinite(parsedEntryQty) || parsedEntryQty <= 0) {
+      return undefined;
+    }
+    const parsedFees = fees.trim() ? Number.parseFloat(fees) : 0;
+    const feePerUnit = Number.isFinite(parsedFees) ? parsedFees / (parsedEntryQty * getContractMultiplier(trade.instrument)) : 0;
+    const legCost = trade.direction === 'long' ? parsedEntryPrice + feePerUnit : parsedEntryPrice - feePerUnit;
+    const nextQty = remainingQty + parsedEntryQty;
+    return nextQty > 0 ? (averageCost * remainingQty + legCost * parsedEntryQty) / nextQty : undefined;
+  }, [averageCost, fees, parsedEntryPrice, parsedEntryQty, remainingQty, trade]);
+
+  if (!trade) {
+    return null;
+  }
+
+  const confirmEntry = (event: FormEvent) => {
+    event.preventDefault();
+    const parsedPrice = Number.parseFloat(entryPrice);
+    const parsedQty = Number.parseFloat(entryQty);
+    const parsedFees = fees.trim() ? Number.parseFloat(fees) : undefined;
+
+    if (!Number.isFinite(parsedPrice) || parsedPrice <= 0) {
+      alert('Entry price must be greater than 0.');
+      return;
+    }
+
+    if (!Number.isFinite(parsedQty) || parsedQty <= 0) {
+      alert('Entry quantity must be greater than 0.');
+      return;
+    }
+
+    if (parsedFees != null && (!Number.isFinite(parsedFees) || parsedFees < 0)) {
+      alert('Fees must be zero or positive.');
+      return;
+    }
+
+    onConfirmEntry(trade.id, {
+      date: entryDate,
+      time: entryTime || undefined,
+      entryPrice: parsedPrice,
+      quantity: parsedQty,
+      fees: parsedFees,
+      note: note.trim() || undefined,
+    });
+  };
+
+  return (
+    <div className="modal-backdrop fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-3 sm:p-4">
+      <div className="modal-panel max-h-[92vh] w-full max-w-xl overflow-y-auto rounded-2xl border border-[var(--border)] bg-[var(--surface)]">
+        <div className="flex items-center justify-between border-b border-[var(--border)] px-4 py-3">
+          <h2 className="text-secondary">Add to Position</h2>
+          <button
+            type="button"
+            className="flex h-11 w-11 items-center justify-center rounded-lg text-[var(--muted)] transition hover:bg-[var(--surface-2)] hover:text-[var(--text)]"
+            onClick={onClose}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-3 px-4 py-4">
+          <div className="rounded-xl border border-[var(--border)] bg-[var(--surface-2)] p-3 text-sm">
+            <p className="font-semibold text-[var(--text)]">
+              {trade.symbol} ({trade.direction.toUpperCase()})
+            </p>
+            <div className="mt-2 grid grid-cols-2 gap-2 text-[var(--muted)]">
+              <span>Avg Cost: {formatCurrency(averageCost)}</span>
+              <span>Open Qty: {remainingQty.toFixed(2)}</span>
+              <span>Entries: {trade.entryLegs.length}</span>
+              <span>Total Bought: {trade.quantity.toFixed(2)}</span>
+            </div>
+          </div>
+
+          <form onSubmit={confirmEntry} className="space-y-3 rounded-xl border border-[var(--border)] bg-[var(--surface-2)] p-3">
+            <h3 className="text-secondary-sm">Entry Builder</h3>
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <label className="space-y-1 text-sm">
+                <span className="text-label">Entry Date</span>
+                <input
+                  type="date"
+                  value={entryDate}
+                  onChange={(event) => setEntryDate(event.target.value)}
+                  className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                  required
+                />
+              </label>
+              <label className="space-y-1 text-sm">
+                <span className="text-label">Entry Time (optional)</span>
+                <input
+                  type="time"
+                  value={entryTime}
+                  onChange={(event) => setEntryTime(event.target.value)}
+                  className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                />
+              </label>
+              <label className="space-y-1 text-sm">
+                <span className="text-label">Entry Price ({currency})</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={entryPrice}
+                  onChange={(event) => setEntryPrice(event.target.value)}
+                  className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                  required
+                />
+              </label>
+              <label className="space-y-1 text-sm">
+                <span className="text-label">Quantity</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={entryQty}
+                  onChange={(event) => setEntryQty(event.target.value)}
+                  className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                  required
+                />
+              </label>
+              <label className="space-y-1 text-sm">
+                <span className="text-label">Fees ({currency}, optional)</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={fees}
+                  onChange={(event) => setFees(event.target.value)}
+                  className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                />
+              </label>
+            </div>
+            <div className="rounded-lg border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm">
+              <p className="text-label">
+                Open qty after entry:{' '}
+                <span className="font-semibold text-[var(--text)]">
+                  {Number.isFinite(parsedEntryQty) && parsedEntryQty > 0 ? (remainingQty + parsedEntryQty).toFixed(2) : remainingQty.toFixed(2)}
+                </span>
+              </p>
+              <p className="text-label">
+                New average cost:{' '}
+                <span className="font-semibold text-[var(--text)]">
+                  {previewCost != null ? formatCurrency(previewCost) : '-'}
+                </span>
+              </p>
+            </div>
+            <label className="block space-y-1 text-sm">
+              <span className="text-label">Note (optional)</span>
+              <input
+                type="text"
+                value={note}
+                onChange={(event) => setNote(event.target.value)}
+                className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+              />
+            </label>
+            <button
+              type="submit"
+              className="min-h-11 w-full rounded-lg bg-[var(--accent)] px-4 py-2 text-sm font-semibold text-black transition hover:brightness-110"
+            >
+              Confirm Add
+            </button>
+          </form>
+
+          <div className="rounded-xl border border-[var(--border)] bg-[var(--surface-2)] p-3">
+            <h3 className="mb-2 text-sm font-semibold text-[var(--text)]">Existing Entry Legs</h3>
+            <div className="space-y-2 text-sm">
+              {trade.entryLegs.map((leg) => (
+                <div key={leg.id} className="flex items-center justify-between rounded-lg bg-[var(--surface)] px-3 py-2">
+                  <span className="text-label">
+                    {leg.date}
+                    {leg.time ? ` ${leg.time}` : ''}
+                  </span>
+                  <span className="text-secondary-sm">
+                    {leg.quantity} @ {formatCurrency(leg.entryPrice)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
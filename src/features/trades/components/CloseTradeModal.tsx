@@ -2,7 +2,7 @@
 import { X } from 'lucide-react';
 import type { AddExitLegInput, Trade } from '../../../shared/types/trade';
 import type { CurrencyCode } from '../../../shared/config/tradingOptions';
-import { calculateLegPnl, getRemainingQuantity } from '../../../shared/services/tradeMath';
+import { calculateLegPnl, calculatePositionLedger, getContractMultiplier, getRemainingQuantity } from '../../../shared/services/tradeMath';
 
 interface CloseTradeModalProps {
   trade: Trade | null;
@@ -34,6 +34,7 @@ export default function CloseTradeModal({
 }: CloseTradeModalProps) {
   const [exitMode, setExitMode] = useState<'partial' | 'full'>('partial');
   const [exitDate, setExitDate] = useState(() => todayIso());
+  const [exitTime, setExitTime] = useState('');
   const [exitPrice, setExitPrice] = useState('');
   const [exitQty, setExitQty] = useState(() => (trade ? formatNumber(getRemainingQuantity(trade)) : ''));
   const [fees, setFees] = useState('');
@@ -41,14 +42,22 @@ export default function CloseTradeModal({
   const [markPrice, setMarkPrice] = useState(() => (trade ? formatNumber(trade.markPrice) : ''));
 
   const remainingQty = useMemo(() => (trade ? getRemainingQuantity(trade) : 0), [trade]);
+  const ledger = useMemo(() => (trade ? calculatePositionLedger(trade) : null), [trade]);
   const parsedExitPrice = Number.parseFloat(exitPrice);
   const parsedExitQty = Number.parseFloat(exitQty);
   const previewPnl = useMemo(() => {
-    if (!trade || !Number.isFinite(parsedExitPrice) || parsedExitPrice <= 0 || !Number.isFinite(parsedExitQty) || parsedExitQty <= 0) {
+    if (!trade || !ledger || !Number.isFinite(parsedExitPrice) || parsedExitPrice < 0 || !Number.isFinite(parsedExitQty) || parsedExitQty <= 0) {
       return undefined;
     }
-    return calculateLegPnl(trade.direction, trade.entryPrice, parsedExitPrice, parsedExitQty, fees.trim() ? Number.parseFloat(fees) : 0);
-  }, [fees, parsedExitPrice, parsedExitQty, trade]);
+    return calculateLegPnl(
+      trade.direction,
+      ledger.averageCost,
+      parsedExitPrice,
+      parsedExitQty,
+      fees.trim() ? Number.parseFloat(fees) : 0,
+      getContractMultiplier(trade.instrument)
+    );
+  }, [fees, ledger, parsedExitPrice, parsedExitQty, trade]);
 
   if (!trade) {
     return null;
@@ -79,8 +88,8 @@ export default function CloseTradeModal({
     const parsedQty = Number.parseFloat(exitQty);
     const parsedFees = fees.trim() ? Number.parseFloat(fees) : undefined;
 
-    if (!Number.isFinite(parsedPrice) || parsedPrice <= 0) {
-      alert('Exit price must be greater than 0.');
+    if (!Number.isFinite(parsedPrice) || parsedPrice < 0) {
+      alert('Exit price cannot be negative.');
       return;
     }
 
@@ -101,6 +110,7 @@ export default function CloseTradeModal({
 
     onConfirmExit(trade.id, {
       date: exitDate,
+      time: exitTime || undefined,
       exitPrice: parsedPrice,
       quantity: parsedQty,
       fees: parsedFees,
@@ -128,7 +138,7 @@ export default function CloseTradeModal({
               {trade.symbol} ({trade.direction.toUpperCase()})
             </p>
             <div className="mt-2 grid grid-cols-2 gap-2 text-[var(--muted)]">
-              <span>Entry: {formatCurrency(trade.entryPrice)}</span>
+              <span>Avg Cost: {formatCurrency(ledger?.averageCost ?? trade.entryPrice)}</span>
               <span>Qty: {trade.quantity}</span>
               <span>Exited: {(trade.quantity - remainingQty).toFixed(2)}</span>
               <span>Remaining: {remainingQty.toFixed(2)}</span>
@@ -237,6 +247,15 @@ export default function CloseTradeModal({
                   required
                 />
               </label>
+              <label className="space-y-1 text-sm">
+                <span className="text-label">Exit Time (optional)</span>
+                <input
+                  type="time"
+                  value={exitTime}
+                  onChange={(event) => setExitTime(event.target.value)}
+                  className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                />
+              </label>
               <label className="space-y-1 text-sm">
                 <span className="text-label">Exit Price ({currency})</span>
                 <input
@@ -311,9 +330,17 @@ export default function CloseTradeModal({
               <div className="space-y-2 text-sm">
                 {trade.exitLegs.map((leg) => (
                   <div key={leg.id} className="flex items-center justify-between rounded-lg bg-[var(--surface)] px-3 py-2">
-                    <span className="text-label">{leg.date}</span>
+                    <span className="text-label">
+                      {leg.date}
+                      {leg.time ? ` ${leg.time}` : ''}
+                    </span>
                     <span className="text-secondary-sm">
                       {leg.quantity} @ {formatCurrency(leg.exitPrice)}
+                      {ledger?.exitLegPnl[leg.id] != null ? (
+                        <span className={`ml-2 ${ledger.exitLegPnl[leg.id] >= 0 ? 'text-[var(--positive)]' : 'text-[var(--negative)]'}`}>
+                          ({formatCurrency(ledger.exitLegPnl[leg.id])})
+                        </span>
+                      ) : null}
                     </span>
                   </div>
                 ))}
@@ -1,5 +1,5 @@
 ﻿import { memo, useEffect, useMemo, useRef, useState } from 'react';
-import { Copy, Edit2, Trash2, X } from 'lucide-react';
+import { Copy, Edit2, MonitorSmartphone, Plus, Trash2, X } from 'lucide-react';
 import type { Trade } from '../../../shared/types/trade';
 import TradeCardCollapsed from './TradeCardCollapsed';
 import TradeCardExpanded from './TradeCardExpanded';
@@ -21,13 +21,17 @@ interface TradeCardProps {
   onEdit: (tradeId: string) => void;
   onDelete: (tradeId: string) => void;
   onManage?: (tradeId: string) => void;
+  onAddToPosition?: (tradeId: string) => void;
   onDuplicate?: (tradeId: string) => void;
   onCloseQuick?: (tradeId: string) => void;
   showSelection?: boolean;
   selected?: boolean;
   onSelectToggle?: (tradeId: string, checked: boolean) => void;
   isRecentlyUpdated?: boolean;
+  isUpdatedRemotely?: boolean;
   priceChange?: TradePriceChange;
+  markAgeLabel?: string;
+  isMarkStale?: boolean;
   onHaptic?: (style: HapticStyle) => void;
 }
 
@@ -55,13 +59,17 @@ function TradeCard({
   onEdit,
   onDelete,
   onManage,
+  onAddToPosition,
   onDuplicate,
   onCloseQuick,
   showSelection,
   selected,
   onSelectToggle,
   isRecentlyUpdated,
+  isUpdatedRemotely,
   priceChange,
+  markAgeLabel,
+  isMarkStale,
   onHaptic,
 }: TradeCardProps) {
   const hasCloseAction = Boolean(onCloseQuick ?? onManage);
@@ -206,6 +214,12 @@ function TradeCard({
     onManage?.(trade.id);
   };
 
+  const openAddToPosition = () => {
+    setShowContextMenu(false);
+    resetSwipe();
+    onAddToPosition?.(trade.id);
+  };
+
   const openEdit = () => {
     setShowContextMenu(false);
     resetSwipe();
@@ -238,6 +252,15 @@ function TradeCard({
         </div>
       ) : null}
 
+      {isUpdatedRemotely ? (
+        <span
+          className="pointer-events-none absolute right-2 top-1 z-20 flex items-center gap-1 rounded-full bg-[var(--surface-2)] px-2 py-0.5 text-[10px] text-[var(--accent)]"
+          title="Updated from another device"
+        >
+          <MonitorSmartphone size={10} /> Updated on another device
+        </span>
+      ) : null}
+
       {!isExpanded ? (
         <div className="absolute inset-y-0 right-0 z-0 flex" style={{ width: actionWidth }}>
           {hasCloseAction ? (
@@ -282,10 +305,13 @@ function TradeCard({
               formatTradeDate={formatTradeDate}
               priceChangeText={priceChangeText}
               priceChangeClassName={priceChangeClassName}
+              markAgeLabel={markAgeLabel}
+              isMarkStale={isMarkStale}
               onToggle={handleToggle}
               onEdit={openEdit}
               onDelete={deleteTrade}
               onManage={onManage ? openManage : undefined}
+              onAddToPosition={onAddToPosition ? openAddToPosition : undefined}
             />
           </div>
         ) : (
@@ -294,6 +320,8 @@ function TradeCard({
             formatCurrency={formatCurrency}
             priceChangeText={priceChangeText}
             priceChangeClassName={priceChangeClassName}
+            markAgeLabel={markAgeLabel}
+            isMarkStale={isMarkStale}
             onToggle={handleToggle}
           />
         )}
@@ -319,6 +347,11 @@ function TradeCard({
                 <Copy size={14} /> Trade Again
               </button>
             ) : null}
+            {onAddToPosition ? (
+              <button type="button" onClick={openAddToPosition} className="flex w-full items-center gap-2 px-3 py-2 text-tertiary hover:bg-[var(--surface-2)]">
+                <Plus size={14} /> Add to Position
+              </button>
+            ) : null}
             {hasCloseAction ? (
               <button type="button" onClick={openManage} className="flex w-full items-center gap-2 px-3 py-2 text-tertiary hover:bg-[var(--surface-2)]">
                 <X size={14} /> Close Position
@@ -7,6 +7,8 @@ interface TradeCardCollapsedProps {
   formatCurrency: (value: number) => string;
   priceChangeText?: string;
   priceChangeClassName?: string;
+  markAgeLabel?: string;
+  isMarkStale?: boolean;
   onToggle: () => void;
 }
 
@@ -26,6 +28,18 @@ function sideBadgeClass(direction: Trade['direction']): string {
     : 'bg-[color:rgba(248,113,113,0.16)] text-[var(--negative)]';
 }
 
+function instrumentLabel(trade: Trade): string | null {
+  const instrument = trade.instrument;
+  if (!instrument || instrument.type === 'equity') {
+    return null;
+  }
+  const expiry = instrument.expiry ? ` ${instrument.expiry}` : '';
+  if (instrument.type === 'future') {
+    return `FUT${expiry}`;
+  }
+  return `${instrument.strike ?? ''} ${instrument.type === 'call_option' ? 'CE' : 'PE'}${expiry}`;
+}
+
 function statusBadge(trade: Trade): { label: string; className: string } | null {
   if (trade.status !== 'open') {
     return null;
@@ -42,9 +56,12 @@ export default function TradeCardCollapsed({
   formatCurrency,
   priceChangeText,
   priceChangeClassName,
+  markAgeLabel,
+  isMarkStale,
   onToggle,
 }: TradeCardCollapsedProps) {
   const status = statusBadge(trade);
+  const instrument = instrumentLabel(trade);
 
   return (
     <button
@@ -59,6 +76,9 @@ export default function TradeCardCollapsed({
           <span className={`rounded-full px-2 py-0.5 text-[10px] font-semibold ${sideBadgeClass(trade.direction)}`}>
             {trade.direction.toUpperCase()}
           </span>
+          {instrument ? (
+            <span className="rounded bg-[var(--surface-3)] px-1.5 py-0.5 text-[10px] text-[var(--muted)]">{instrument}</span>
+          ) : null}
           {status ? <span className={`text-[10px] font-semibold ${status.className}`}>o {status.label}</span> : null}
         </div>
         <p className="text-tertiary mt-1 text-numeric">
@@ -67,7 +87,12 @@ export default function TradeCardCollapsed({
         {trade.markPrice != null ? (
           <div className="mt-1 flex items-center gap-1">
             <span className="text-tertiary-sm text-numeric">Mark: {formatCurrency(trade.markPrice)}</span>
-            <span className="rounded bg-[var(--surface-3)] px-1.5 py-0.5 text-[10px] text-[var(--muted)]">~15min delay</span>
+            <span
+              title="Quotes are delayed about 15 minutes"
+              className={`rounded bg-[var(--surface-3)] px-1.5 py-0.5 text-[10px] ${isMarkStale ? 'text-[var(--accent)]' : 'text-[var(--muted)]'}`}
+            >
+              {markAgeLabel ?? '~15min delay'}
+            </span>
           </div>
         ) : null}
       </div>
@@ -75,7 +100,10 @@ export default function TradeCardCollapsed({
         <p className={`text-primary-sm text-numeric leading-none ${pnlClass(trade.totalPnl)}`}>
           {`${trade.totalPnl >= 0 ? '+' : ''}${formatCurrency(trade.totalPnl)}`}
         </p>
-        <p className={`text-tertiary-sm text-numeric ${pnlClass(trade.totalPnl)}`}>{`(${trade.totalPnlPercent.toFixed(2)}%)`}</p>
+        <p className={`text-tertiary-sm text-numeric ${pnlClass(trade.totalPnl)}`}>
+          {`(${trade.totalPnlPercent.toFixed(2)}%)`}
+          {trade.totalR != null ? ` ${trade.totalR >= 0 ? '+' : ''}${trade.totalR.toFixed(2)}R` : ''}
+        </p>
         {priceChangeText ? <p className={`text-tertiary-sm text-numeric ${priceChangeClassName ?? ''}`}>{priceChangeText}</p> : null}
         <p className="text-tertiary-sm mt-1 flex items-center justify-end gap-1">
           Tap for details <ChevronDown size={12} />
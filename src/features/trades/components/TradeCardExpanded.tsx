@@ -1,6 +1,13 @@
 import { ChevronUp, Edit2, Trash2 } from 'lucide-react';
 import type { Trade } from '../../../shared/types/trade';
-import { getRemainingQuantity, roundTo2 } from '../../../shared/services/tradeMath';
+import {
+  calculateRiskAmount,
+  getAverageCost,
+  getContractMultiplier,
+  getRemainingQuantity,
+  roundTo2,
+} from '../../../shared/services/tradeMath';
+import TradeChart from './TradeChart';
 
 interface TradeCardExpandedProps {
   trade: Trade;
@@ -9,10 +16,13 @@ interface TradeCardExpandedProps {
   formatTradeDate: (dateIso: string) => string;
   priceChangeText?: string;
   priceChangeClassName?: string;
+  markAgeLabel?: string;
+  isMarkStale?: boolean;
   onToggle: () => void;
   onEdit: () => void;
   onDelete: () => void;
   onManage?: () => void;
+  onAddToPosition?: () => void;
 }
 
 function pnlClass(value: number): string {
@@ -31,6 +41,18 @@ function sideBadgeClass(direction: Trade['direction']): string {
     : 'bg-[color:rgba(248,113,113,0.16)] text-[var(--negative)]';
 }
 
+function instrumentLabel(trade: Trade): string | null {
+  const instrument = trade.instrument;
+  if (!instrument || instrument.type === 'equity') {
+    return null;
+  }
+  const expiry = instrument.expiry ? ` ${instrument.expiry}` : '';
+  if (instrument.type === 'future') {
+    return `FUT${expiry}`;
+  }
+  return `${instrument.strike ?? ''} ${instrument.type === 'call_option' ? 'CE' : 'PE'}${expiry}`;
+}
+
 export default function TradeCardExpanded({
   trade,
   portfolioValue,
@@ -38,16 +60,21 @@ export default function TradeCardExpanded({
   formatTradeDate,
   priceChangeText,
   priceChangeClassName,
+  markAgeLabel,
+  isMarkStale,
   onToggle,
   onEdit,
   onDelete,
   onManage,
+  onAddToPosition,
 }: TradeCardExpandedProps) {
   const remainingQty = getRemainingQuantity(trade);
+  const averageCost = getAverageCost(trade);
   const baseQty = remainingQty > 0 ? remainingQty : trade.quantity;
-  const entryValue = roundTo2(trade.entryPrice * baseQty);
-  const referencePrice = trade.markPrice ?? trade.entryPrice;
-  const positionValue = roundTo2(referencePrice * baseQty);
+  const multiplier = getContractMultiplier(trade.instrument);
+  const entryValue = roundTo2(averageCost * baseQty * multiplier);
+  const referencePrice = trade.markPrice ?? averageCost;
+  const positionValue = roundTo2(referencePrice * baseQty * multiplier);
   const positionValuePct = entryValue > 0 ? roundTo2((positionValue / entryValue) * 100) : 100;
   const positionContext = positionValuePct > 200
     ? 'Strong move'
@@ -55,6 +82,10 @@ export default function TradeCardExpanded({
       ? 'Significant drawdown'
       : 'Within expected range';
 
+  const riskAmount = calculateRiskAmount(trade);
+  const hasRiskPlan = trade.stopLoss != null || trade.targetPrice != null || riskAmount != null;
+
+  const instrument = instrumentLabel(trade);
   const statusText = trade.status === 'open'
     ? remainingQty < trade.quantity
       ? 'PARTIAL'
@@ -71,14 +102,30 @@ export default function TradeCardExpanded({
             <span className={`rounded-full px-2 py-0.5 text-[10px] font-semibold ${sideBadgeClass(trade.direction)}`}>
               {trade.direction.toUpperCase()}
             </span>
+            {instrument ? (
+              <span className="rounded bg-[var(--surface-3)] px-1.5 py-0.5 text-[10px] text-[var(--muted)]">{instrument}</span>
+            ) : null}
             {statusText ? <span className={`text-[10px] font-semibold ${statusClass}`}>o {statusText}</span> : null}
           </div>
           <p className="text-tertiary text-numeric mt-1">
-            Entry: {formatCurrency(trade.entryPrice)} x {trade.quantity.toFixed(2)} qty
+            Entry: {formatCurrency(trade.entryPrice)} x {trade.quantity.toFixed(2)} {multiplier > 1 ? `lots (${multiplier}/lot)` : 'qty'}
+            {trade.entryLegs.length > 1 ? ` (${trade.entryLegs.length} entries)` : ''}
+          </p>
+          <p className="text-tertiary-sm">
+            {formatTradeDate(trade.date)}
+            {trade.entryTime ? ` · ${trade.entryTime}` : ''}
           </p>
-          <p className="text-tertiary-sm">{formatTradeDate(trade.date)}</p>
         </div>
         <div className="flex items-center gap-1">
+          {onAddToPosition ? (
+            <button
+              type="button"
+              onClick={onAddToPosition}
+              className="min-h-11 rounded-full bg-[color:rgba(52,211,153,0.16)] px-3 text-[11px] font-medium text-[var(--positive)]"
+            >
+              Add
+            </button>
+          ) : null}
           {onManage ? (
             <button
               type="button"
@@ -113,17 +160,61 @@ export default function TradeCardExpanded({
           {`${trade.totalPnl >= 0 ? '+' : ''}${formatCurrency(trade.totalPnl)}`}
         </p>
         <p className={`text-secondary text-numeric ${pnlClass(trade.totalPnl)}`}>{`(${trade.totalPnlPercent.toFixed(2)}%)`}</p>
+        {trade.totalR != null ? (
+          <p className={`text-secondary-sm text-numeric ${pnlClass(trade.totalR)}`}>
+            {`${trade.totalR >= 0 ? '+' : ''}${trade.totalR.toFixed(2)}R`}
+          </p>
+        ) : null}
         {priceChangeText ? <p className={`text-tertiary-sm text-numeric ${priceChangeClassName ?? ''}`}>{priceChangeText}</p> : null}
       </div>
 
+      {hasRiskPlan ? (
+        <div className="my-3 border-t border-[var(--border)] pt-3">
+          <p className="text-label mb-1">Risk Plan</p>
+          {trade.stopLoss != null ? (
+            <p className="text-tertiary">
+              * Stop Loss: <span className="text-secondary-sm text-numeric">{formatCurrency(trade.stopLoss)}</span>
+            </p>
+          ) : null}
+          {trade.targetPrice != null ? (
+            <p className="text-tertiary">
+              * Target: <span className="text-secondary-sm text-numeric">{formatCurrency(trade.targetPrice)}</span>
+            </p>
+          ) : null}
+          {riskAmount != null ? (
+            <p className="text-tertiary">
+              * 1R: <span className="text-secondary-sm text-numeric">{formatCurrency(riskAmount)}</span>
+            </p>
+          ) : null}
+          {trade.plannedR != null ? (
+            <p className="text-tertiary">
+              * Planned: <span className="text-secondary-sm text-numeric">{trade.plannedR.toFixed(2)}R</span>
+            </p>
+          ) : null}
+          {trade.realizedR != null ? (
+            <p className="text-tertiary">
+              * Realized: <span className={`text-secondary-sm text-numeric ${pnlClass(trade.realizedR)}`}>{`${trade.realizedR >= 0 ? '+' : ''}${trade.realizedR.toFixed(2)}R`}</span>
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+
       <div className="my-3 border-t border-[var(--border)] pt-3">
         <p className="text-label mb-1">Position Details</p>
         {trade.markPrice != null ? (
           <div className="mb-1 flex items-center gap-1">
             <span className="text-tertiary-sm text-numeric">Mark: {formatCurrency(trade.markPrice)}</span>
-            <span className="rounded bg-[var(--surface-3)] px-1.5 py-0.5 text-[10px] text-[var(--muted)]">~15min delay</span>
+            <span
+              title="Quotes are delayed about 15 minutes"
+              className={`rounded bg-[var(--surface-3)] px-1.5 py-0.5 text-[10px] ${isMarkStale ? 'text-[var(--accent)]' : 'text-[var(--muted)]'}`}
+            >
+              {markAgeLabel ?? '~15min delay'}
+            </span>
           </div>
         ) : null}
+        <p className="text-tertiary">
+          * Avg Cost: <span className="text-secondary-sm text-numeric">{formatCurrency(averageCost)}</span>
+        </p>
         <p className="text-tertiary">
           * Position Value: <span className="text-secondary-sm text-numeric">{formatCurrency(positionValue)}</span>
         </p>
@@ -138,6 +229,8 @@ export default function TradeCardExpanded({
         ) : null}
       </div>
 
+      <TradeChart trade={trade} formatCurrency={formatCurrency} />
+
       <div className="my-3 border-t border-[var(--border)] pt-3">
         <p className="text-label mb-1">Exit History</p>
         <p className="text-tertiary">
@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Bar, CartesianGrid, ComposedChart, ReferenceDot, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { priceHistoryService } from '../../../shared/services/priceHistory';
+import type { PriceBar } from '../../../shared/services/priceHistory';
+import { getAverageCost, isDerivative } from '../../../shared/services/tradeMath';
+import type { Trade } from '../../../shared/types/trade';
+import { buildTradeMarkers, toChartBars, tradeChartWindow } from '../services/tradeChartService';
+import type { TradeChartBar } from '../services/tradeChartService';
+
+interface TradeChartProps {
+  trade: Trade;
+  formatCurrency: (value: number) => string;
+}
+
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: TradeChartBar;
+}
+
+const CHART_GRID = '#283243';
+const CHART_TEXT = '#9ca3af';
+const CHART_POSITIVE = '#34d399';
+const CHART_NEGATIVE = '#f87171';
+const CHART_ENTRY = '#38bdf8';
+const CHART_EXIT = '#f59e0b';
+const CHART_MARK = '#e7eefb';
+const CHART_TOOLTIP_STYLE = {
+  backgroundColor: '#0f172a',
+  border: '1px solid rgba(118, 144, 180, 0.35)',
+  borderRadius: '10px',
+  color: '#e7eefb',
+  padding: '8px 10px',
+};
+const CHART_ITEM_STYLE = { color: '#e7eefb', fontSize: 12 };
+
+// The bar spans low..high, so the body is placed by scaling open/close inside that pixel range.
+function CandleShape({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) {
+  if (!payload) {
+    return null;
+  }
+  const { open, close, high, low } = payload;
+  const span = high - low;
+  const pixelsPerUnit = span > 0 ? Math.abs(height) / span : 0;
+  const top = Math.min(y, y + height);
+  const toPixel = (price: number) => top + (high - price) * pixelsPerUnit;
+  const color = close >= open ? CHART_POSITIVE : CHART_NEGATIVE;
+  const bodyTop = toPixel(Math.max(open, close));
+  const bodyHeight = Math.max(1, Math.abs(toPixel(open) - toPixel(close)));
+  const bodyWidth = Math.max(2, width * 0.7);
+  const center = x + width / 2;
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={top} y2={top + Math.abs(height)} stroke={color} strokeWidth={1} />
+      <rect x={center - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+    </g>
+  );
+}
+
+export default function TradeChart({ trade, formatCurrency }: TradeChartProps) {
+  const chartWindow = useMemo(() => tradeChartWindow(trade), [trade]);
+  // The window object changes with every quote tick, so the fetch is keyed on its fields.
+  const { from, interval, to } = chartWindow;
+  const requestKey = `${trade.symbol}|${interval}|${from}|${to}`;
+  const [loaded, setLoaded] = useState<{ key: string; bars: PriceBar[] | null } | null>(null);
+  const supported = !isDerivative(trade.instrument);
+
+  useEffect(() => {
+    if (!supported) {
+      return;
+    }
+    let cancelled = false;
+    const load = async () => {
+      const bars = await priceHistoryService.fetchBars(trade.symbol, from, to, interval);
+      if (!cancelled) {
+        setLoaded({ key: requestKey, bars });
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [from, interval, requestKey, supported, to, trade.symbol]);
+
+  const isLoading = supported && loaded?.key !== requestKey;
+  const bars = useMemo(() => (loaded?.key === requestKey && loaded.bars ? toChartBars(loaded.bars) : []), [loaded, requestKey]);
+  const markers = useMemo(() => buildTradeMarkers(trade, bars), [trade, bars]);
+  const averageEntry = getAverageCost(trade);
+
+  const levels = [
+    trade.status === 'open' && trade.markPrice != null ? { id: 'mark', label: 'Mark', price: trade.markPrice, color: CHART_MARK } : null,
+    trade.stopLoss != null ? { id: 'stop', label: 'Stop', price: trade.stopLoss, color: CHART_NEGATIVE } : null,
+    trade.targetPrice != null ? { id: 'target', label: 'Target', price: trade.targetPrice, color: CHART_POSITIVE } : null,
+    averageEntry > 0 ? { id: 'entry', label: 'Avg Entry', price: averageEntry, color: CHART_ENTRY } : null,
+  ].filter((level): level is { id: string; label: string; price: number; color: string } => level != null);
+
+  const prices = [
+    ...bars.flatMap((bar) => [bar.low, bar.high]),
+    ...markers.map((marker) => marker.price),
+    ...levels.map((level) => level.price),
+  ];
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+  const padding = Math.max((maxPrice - minPrice) * 0.05, maxPrice * 0.005);
+
+  let message = '';
+  if (!supported) {
+    message = 'Charts are available for equity trades only.';
+  } else if (isLoading) {
+    message = 'Loading price history...';
+  } else if (bars.length === 0) {
+    message = 'Price history unavailable for this trade.';
+  }
+
+  return (
+    <div className="my-3 border-t border-[var(--border)] pt-3">
+      <div className="mb-1 flex items-center justify-between gap-2">
+        <p className="text-label">Price Chart</p>
+        {supported ? <span className="text-tertiary-sm">{interval === '1d' ? 'Daily' : '15 min'}</span> : null}
+      </div>
+      {message ? (
+        <p className="text-tertiary py-4 text-center">{message}</p>
+      ) : (
+        <>
+          <ResponsiveContainer width="100%" height={240}>
+            <ComposedChart data={bars} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+              <CartesianGrid stroke={CHART_GRID} strokeDasharray="3 3" />
+              <XAxis dataKey="key" stroke={CHART_TEXT} tick={{ fontSize: 11 }} minTickGap={24} />
+              <YAxis
+                type="number"
+                domain={[minPrice - padding, maxPrice + padding]}
+                stroke={CHART_TEXT}
+                tick={{ fontSize: 11 }}
+                width={56}
+                tickFormatter={(value: number) => value.toFixed(value >= 1000 ? 0 : 2)}
+              />
+              <Tooltip
+                contentStyle={CHART_TOOLTIP_STYLE}
+                itemStyle={CHART_ITEM_STYLE}
+                formatter={(_value, _name, item) => {
+                  const bar = item.payload as TradeChartBar;
+                  return [`O ${bar.open.toFixed(2)} H ${bar.high.toFixed(2)} L ${bar.low.toFixed(2)} C ${bar.close.toFixed(2)}`, 'Price'];
+                }}
+              />
+              <Bar dataKey="range" isAnimationActive={false} shape={(props: CandleShapeProps) => <CandleShape {...props} />} />
+              {levels.map((level) => (
+                <ReferenceLine
+                  key={level.id}
+                  y={level.price}
+                  stroke={level.color}
+                  strokeDasharray="4 4"
+                  label={{ value: level.label, position: 'insideTopRight', fill: level.color, fontSize: 10 }}
+                />
+              ))}
+              {markers.map((marker) => (
+                <ReferenceDot
+                  key={marker.id}
+                  x={marker.key}
+                  y={marker.price}
+                  r={5}
+                  fill={marker.kind === 'entry' ? CHART_ENTRY : CHART_EXIT}
+                  stroke="#0f172a"
+                  strokeWidth={1.5}
+                />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+          <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1">
+            {markers.map((marker) => (
+              <span key={marker.id} className="text-tertiary-sm text-numeric">
+                <span style={{ color: marker.kind === 'entry' ? CHART_ENTRY : CHART_EXIT }}>●</span> {marker.label} @ {formatCurrency(marker.price)}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
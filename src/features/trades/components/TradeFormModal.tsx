@@ -1,8 +1,16 @@
 import { useEffect, useMemo, useState, type FormEvent } from 'react';
 import { RefreshCw, X } from 'lucide-react';
-import type { CreateOpenTradeInput, Trade, TradeDirection, UpdateTradeInput } from '../../../shared/types/trade';
+import type {
+  CreateOpenTradeInput,
+  Instrument,
+  InstrumentType,
+  Trade,
+  TradeDirection,
+  UpdateTradeInput,
+} from '../../../shared/types/trade';
 import { CUSTOM_STRATEGY_VALUE, STRATEGY_PRESETS, type CurrencyCode } from '../../../shared/config/tradingOptions';
 import { pricingService } from '../../../shared/services/pricing';
+import { calculateRiskAmount, calculateRMultiple, getContractMultiplier } from '../../../shared/services/tradeMath';
 
 const POPULAR_NSE_SYMBOLS = [
   'RELIANCE', 'TCS', 'HDFCBANK', 'INFY', 'HINDUNILVR',
@@ -35,16 +43,26 @@ interface TradeFormModalProps {
 
 interface TradeFormState {
   date: string;
+  entryTime: string;
   symbol: string;
   direction: TradeDirection;
+  instrumentType: InstrumentType;
+  expiry: string;
+  strike: string;
+  lotSize: string;
+  multiplier: string;
   entryPrice: string;
   quantity: string;
   markPrice: string;
+  stopLoss: string;
+  targetPrice: string;
+  initialRisk: string;
   setupPreset: string;
   setupCustom: string;
   emotion: string;
   notes: string;
   initialExitDate: string;
+  initialExitTime: string;
   initialExitPrice: string;
   initialExitQuantity: string;
   initialExitFees: string;
@@ -56,6 +74,12 @@ interface SymbolSuggestion {
   yahooSymbol: string;
   name: string;
   exchange: string;
+  instrument?: {
+    type: InstrumentType;
+    expiry: string;
+    strike?: number;
+    lotSize?: number;
+  };
 }
 
 function todayIso(): string {
@@ -89,16 +113,26 @@ function emptyState(trade?: Trade | null, initialValues?: Partial<CreateOpenTrad
   if (trade) {
     return {
       date: trade.date,
+      entryTime: trade.entryTime ?? '',
       symbol: trade.symbol,
       direction: trade.direction,
+      instrumentType: trade.instrument?.type ?? 'equity',
+      expiry: trade.instrument?.expiry ?? '',
+      strike: formatNumber(trade.instrument?.strike),
+      lotSize: formatNumber(trade.instrument?.lotSize),
+      multiplier: formatNumber(trade.instrument?.multiplier),
       entryPrice: formatNumber(trade.entryPrice),
       quantity: formatNumber(trade.quantity),
       markPrice: formatNumber(trade.markPrice),
+      stopLoss: formatNumber(trade.stopLoss),
+      targetPrice: formatNumber(trade.targetPrice),
+      initialRisk: formatNumber(trade.initialRisk),
       setupPreset: setupInputs.setupPreset,
       setupCustom: setupInputs.setupCustom,
       emotion: trade.emotion ?? 'neutral',
       notes: trade.notes ?? '',
       initialExitDate: todayIso(),
+      initialExitTime: '',
       initialExitPrice: '',
       initialExitQuantity: '',
       initialExitFees: '',
@@ -109,16 +143,26 @@ function emptyState(trade?: Trade | null, initialValues?: Partial<CreateOpenTrad
   const initialExitLeg = initialValues?.initialExitLeg;
   return {
     date: initialValues?.date ?? todayIso(),
+    entryTime: initialValues?.entryTime ?? '',
     symbol: initialValues?.symbol?.toUpperCase() ?? '',
     direction: initialValues?.direction ?? 'long',
+    instrumentType: initialValues?.instrument?.type ?? 'equity',
+    expiry: initialValues?.instrument?.expiry ?? '',
+    strike: formatNumber(initialValues?.instrument?.strike),
+    lotSize: formatNumber(initialValues?.instrument?.lotSize),
+    multiplier: formatNumber(initialValues?.instrument?.multiplier),
     entryPrice: formatNumber(initialValues?.entryPrice),
     quantity: formatNumber(initialValues?.quantity),
     markPrice: formatNumber(initialValues?.markPrice),
+    stopLoss: formatNumber(initialValues?.stopLoss),
+    targetPrice: formatNumber(initialValues?.targetPrice),
+    initialRisk: formatNumber(initialValues?.initialRisk),
     setupPreset: initialSetup.setupPreset,
     setupCustom: initialSetup.setupCustom,
     emotion: initialValues?.emotion ?? 'neutral',
     notes: initialValues?.notes ?? '',
     initialExitDate: initialExitLeg?.date ?? todayIso(),
+    initialExitTime: initialExitLeg?.time ?? '',
     initialExitPrice: formatNumber(initialExitLeg?.exitPrice),
     initialExitQuantity: formatNumber(initialExitLeg?.quantity),
     initialExitFees: formatNumber(initialExitLeg?.fees),
@@ -142,6 +186,9 @@ export default function TradeFormModal({
   const [liveSuggestions, setLiveSuggestions] = useState<SymbolSuggestion[]>([]);
   const [isLoadingSuggestions, setIsLoadingSuggestions] = useState(false);
   const isEdit = Boolean(trade);
+  const hasScaledEntries = (trade?.entryLegs.length ?? 0) > 1;
+  const isDerivativeForm = state.instrumentType !== 'equity';
+  const isOptionForm = state.instrumentType === 'call_option' || state.instrumentType === 'put_option';
 
   const formatCurrencyValue = useMemo(
     () => new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 2 }),
@@ -150,19 +197,19 @@ export default function TradeFormModal({
 
   const fallbackSuggestions = useMemo(() => {
     const query = state.symbol.trim().toUpperCase();
-    if (query.length < 2) {
+    if (query.length < 2 || state.instrumentType !== 'equity') {
       return [];
     }
     return POPULAR_NSE_SYMBOLS
       .filter((symbol) => symbol.startsWith(query) && symbol !== query)
       .slice(0, 5)
-      .map((symbol) => ({
+      .map((symbol): SymbolSuggestion => ({
         symbol,
         yahooSymbol: `${symbol}.NS`,
         name: symbol,
         exchange: 'NSE',
       }));
-  }, [state.symbol]);
+  }, [state.instrumentType, state.symbol]);
 
   const symbolSuggestions = useMemo(
     () => (liveSuggestions.length > 0 ? liveSuggestions : fallbackSuggestions),
@@ -182,7 +229,10 @@ export default function TradeFormModal({
       setIsLoadingSuggestions(true);
       try {
         const apiBase = window.location.hostname === 'localhost' ? 'http://localhost:3000' : '';
-        const response = await fetch(`${apiBase}/api/symbols?q=${encodeURIComponent(query)}`, { signal: controller.signal });
+        const instrumentQuery = state.instrumentType === 'equity' ? '' : `&instrument=${state.instrumentType}`;
+        const response = await fetch(`${apiBase}/api/symbols?q=${encodeURIComponent(query)}${instrumentQuery}`, {
+          signal: controller.signal,
+        });
         if (!response.ok) {
           setLiveSuggestions([]);
           return;
@@ -209,7 +259,7 @@ export default function TradeFormModal({
       controller.abort();
       window.clearTimeout(timer);
     };
-  }, [state.symbol]);
+  }, [state.instrumentType, state.symbol]);
 
   const validateSymbol = async (symbol: string) => {
     const normalized = symbol.trim().toUpperCase();
@@ -243,6 +293,18 @@ export default function TradeFormModal({
     const entryPrice = Number.parseFloat(state.entryPrice);
     const quantity = Number.parseFloat(state.quantity);
     const markPrice = state.markPrice.trim() ? Number.parseFloat(state.markPrice) : undefined;
+    const stopLoss = state.stopLoss.trim() ? Number.parseFloat(state.stopLoss) : undefined;
+    const targetPrice = state.targetPrice.trim() ? Number.parseFloat(state.targetPrice) : undefined;
+    const initialRisk = state.initialRisk.trim() ? Number.parseFloat(state.initialRisk) : undefined;
+    const instrument: Instrument | undefined = state.instrumentType === 'equity'
+      ? undefined
+      : {
+          type: state.instrumentType,
+          expiry: state.expiry || undefined,
+          strike: state.strike.trim() ? Number.parseFloat(state.strike) : undefined,
+          lotSize: state.lotSize.trim() ? Number.parseFloat(state.lotSize) : undefined,
+          multiplier: state.multiplier.trim() ? Number.parseFloat(state.multiplier) : undefined,
+        };
     const initialExitPrice = state.initialExitPrice.trim() ? Number.parseFloat(state.initialExitPrice) : undefined;
     const initialExitQuantity = state.initialExitQuantity.trim() ? Number.parseFloat(state.initialExitQuantity) : undefined;
     const initialExitFees = state.initialExitFees.trim() ? Number.parseFloat(state.initialExitFees) : undefined;
@@ -250,11 +312,30 @@ export default function TradeFormModal({
       entryPrice,
       quantity,
       markPrice,
+      stopLoss,
+      targetPrice,
+      initialRisk,
+      instrument,
       initialExitPrice,
       initialExitQuantity,
       initialExitFees,
     };
-  }, [state.entryPrice, state.quantity, state.markPrice, state.initialExitPrice, state.initialExitQuantity, state.initialExitFees]);
+  }, [
+    state.entryPrice,
+    state.quantity,
+    state.markPrice,
+    state.stopLoss,
+    state.targetPrice,
+    state.initialRisk,
+    state.instrumentType,
+    state.expiry,
+    state.strike,
+    state.lotSize,
+    state.multiplier,
+    state.initialExitPrice,
+    state.initialExitQuantity,
+    state.initialExitFees,
+  ]);
 
   const positionInfo = useMemo(() => {
     const hasEntry = Number.isFinite(parsed.entryPrice) && parsed.entryPrice > 0;
@@ -262,10 +343,24 @@ export default function TradeFormModal({
     if (!hasEntry || !hasQty) {
       return { value: 0, percent: 0, isReady: false };
     }
-    const value = parsed.entryPrice * parsed.quantity;
+    const value = parsed.entryPrice * parsed.quantity * getContractMultiplier(parsed.instrument);
     const percent = portfolioValue > 0 ? (value / portfolioValue) * 100 : 0;
     return { value, percent, isReady: true };
-  }, [parsed.entryPrice, parsed.quantity, portfolioValue]);
+  }, [parsed.entryPrice, parsed.instrument, parsed.quantity, portfolioValue]);
+
+  const riskInfo = useMemo(() => {
+    if (!positionInfo.isReady) {
+      return { riskAmount: undefined, plannedR: undefined };
+    }
+    const riskAmount = calculateRiskAmount(parsed);
+    const plannedR = parsed.targetPrice != null && parsed.targetPrice > 0
+      ? calculateRMultiple(
+          Math.abs(parsed.targetPrice - parsed.entryPrice) * parsed.quantity * getContractMultiplier(parsed.instrument),
+          riskAmount
+        )
+      : undefined;
+    return { riskAmount, plannedR };
+  }, [parsed, positionInfo.isReady]);
 
   if (!isOpen) {
     return null;
@@ -298,6 +393,61 @@ export default function TradeFormModal({
       return;
     }
 
+    if (parsed.instrument) {
+      const { expiry, strike, lotSize, multiplier } = parsed.instrument;
+      if (isOptionForm && (strike == null || !Number.isFinite(strike) || strike <= 0)) {
+        alert('Strike price is required for options.');
+        return;
+      }
+      if (isOptionForm && !expiry) {
+        alert('Expiry date is required for options.');
+        return;
+      }
+      if (lotSize != null && (!Number.isFinite(lotSize) || lotSize <= 0)) {
+        alert('Lot size must be greater than 0 when provided.');
+        return;
+      }
+      if (multiplier != null && (!Number.isFinite(multiplier) || multiplier <= 0)) {
+        alert('Multiplier must be greater than 0 when provided.');
+        return;
+      }
+    }
+
+    if (parsed.stopLoss != null) {
+      if (!Number.isFinite(parsed.stopLoss) || parsed.stopLoss <= 0) {
+        alert('Stop loss must be greater than 0 when provided.');
+        return;
+      }
+      if (state.direction === 'long' && parsed.stopLoss >= parsed.entryPrice) {
+        alert('Stop loss must be below the entry price for a long trade.');
+        return;
+      }
+      if (state.direction === 'short' && parsed.stopLoss <= parsed.entryPrice) {
+        alert('Stop loss must be above the entry price for a short trade.');
+        return;
+      }
+    }
+
+    if (parsed.targetPrice != null) {
+      if (!Number.isFinite(parsed.targetPrice) || parsed.targetPrice <= 0) {
+        alert('Target price must be greater than 0 when provided.');
+        return;
+      }
+      if (state.direction === 'long' && parsed.targetPrice <= parsed.entryPrice) {
+        alert('Target price must be above the entry price for a long trade.');
+        return;
+      }
+      if (state.direction === 'short' && parsed.targetPrice >= parsed.entryPrice) {
+        alert('Target price must be below the entry price for a short trade.');
+        return;
+      }
+    }
+
+    if (parsed.initialRisk != null && (!Number.isFinite(parsed.initialRisk) || parsed.initialRisk <= 0)) {
+      alert('Risk amount must be greater than 0 when provided.');
+      return;
+    }
+
     if (state.setupPreset === CUSTOM_STRATEGY_VALUE && !selectedSetup) {
       alert('Please enter your custom strategy.');
       return;
@@ -315,11 +465,16 @@ export default function TradeFormModal({
         tradeId: trade.id,
         data: {
           date: state.date,
+          entryTime: state.entryTime || undefined,
           symbol: state.symbol.trim().toUpperCase(),
           direction: state.direction,
+          instrument: parsed.instrument,
           entryPrice: parsed.entryPrice,
           quantity: parsed.quantity,
           markPrice: parsed.markPrice,
+          stopLoss: parsed.stopLoss,
+          targetPrice: parsed.targetPrice,
+          initialRisk: parsed.initialRisk,
           setup: selectedSetup || undefined,
           emotion: state.emotion.trim() || undefined,
           notes: state.notes.trim() || undefined,
@@ -332,6 +487,7 @@ export default function TradeFormModal({
       parsed.initialExitPrice != null && parsed.initialExitQuantity != null
         ? {
             date: state.initialExitDate,
+            time: state.initialExitTime || undefined,
             exitPrice: parsed.initialExitPrice,
             quantity: parsed.initialExitQuantity,
             fees: parsed.initialExitFees,
@@ -340,8 +496,8 @@ export default function TradeFormModal({
         : undefined;
 
     if (initialExitLeg) {
-      if (!Number.isFinite(initialExitLeg.exitPrice) || initialExitLeg.exitPrice <= 0) {
-        alert('Initial exit price must be greater than 0.');
+      if (!Number.isFinite(initialExitLeg.exitPrice) || initialExitLeg.exitPrice < 0) {
+        alert('Initial exit price cannot be negative.');
         return;
       }
       if (!Number.isFinite(initialExitLeg.quantity) || initialExitLeg.quantity <= 0) {
@@ -362,11 +518,16 @@ export default function TradeFormModal({
       mode: 'create',
       data: {
         date: state.date,
+        entryTime: state.entryTime || undefined,
         symbol: state.symbol.trim().toUpperCase(),
         direction: state.direction,
+        instrument: parsed.instrument,
         entryPrice: parsed.entryPrice,
         quantity: parsed.quantity,
         markPrice: parsed.markPrice,
+        stopLoss: parsed.stopLoss,
+        targetPrice: parsed.targetPrice,
+        initialRisk: parsed.initialRisk,
         setup: selectedSetup || undefined,
         emotion: state.emotion.trim() || undefined,
         notes: state.notes.trim() || undefined,
@@ -400,6 +561,15 @@ export default function TradeFormModal({
                 required
               />
             </label>
+            <label className="space-y-1 text-sm">
+              <span className="text-label">Entry Time (optional)</span>
+              <input
+                type="time"
+                value={state.entryTime}
+                onChange={(event) => setState((prev) => ({ ...prev, entryTime: event.target.value }))}
+                className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface-2)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+              />
+            </label>
             <label className="space-y-1 text-sm">
               <span className="text-label">Symbol</span>
               <div className="relative">
@@ -427,7 +597,18 @@ export default function TradeFormModal({
                         type="button"
                         onMouseDown={(event) => event.preventDefault()}
                         onClick={() => {
-                          setState((prev) => ({ ...prev, symbol: suggestedSymbol.symbol }));
+                          const suggestedInstrument = suggestedSymbol.instrument;
+                          setState((prev) => ({
+                            ...prev,
+                            symbol: suggestedSymbol.symbol,
+                            ...(suggestedInstrument
+                              ? {
+                                  expiry: suggestedInstrument.expiry,
+                                  strike: formatNumber(suggestedInstrument.strike),
+                                  lotSize: formatNumber(suggestedInstrument.lotSize) || prev.lotSize,
+                                }
+                              : {}),
+                          }));
                           setSymbolError(null);
                           setSymbolPrice(null);
                           void validateSymbol(suggestedSymbol.symbol);
@@ -475,28 +656,101 @@ export default function TradeFormModal({
               </select>
             </label>
             <label className="space-y-1 text-sm">
-              <span className="text-label">Quantity</span>
+              <span className="text-label">Instrument</span>
+              <select
+                value={state.instrumentType}
+                onChange={(event) => setState((prev) => ({ ...prev, instrumentType: event.target.value as InstrumentType }))}
+                className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface-2)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+              >
+                <option value="equity">Equity</option>
+                <option value="future">Future</option>
+                <option value="call_option">Call Option (CE)</option>
+                <option value="put_option">Put Option (PE)</option>
+              </select>
+            </label>
+            {isDerivativeForm && (
+              <>
+                <label className="space-y-1 text-sm">
+                  <span className="text-label">Expiry{isOptionForm ? '' : ' (optional)'}</span>
+                  <input
+                    type="date"
+                    value={state.expiry}
+                    onChange={(event) => setState((prev) => ({ ...prev, expiry: event.target.value }))}
+                    className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface-2)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                    required={isOptionForm}
+                  />
+                </label>
+                {isOptionForm ? (
+                  <label className="space-y-1 text-sm">
+                    <span className="text-label">Strike ({currency})</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={state.strike}
+                      onChange={(event) => setState((prev) => ({ ...prev, strike: event.target.value }))}
+                      className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface-2)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                      required
+                    />
+                  </label>
+                ) : null}
+                <label className="space-y-1 text-sm">
+                  <span className="text-label">Lot Size</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={state.lotSize}
+                    onChange={(event) => setState((prev) => ({ ...prev, lotSize: event.target.value }))}
+                    className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface-2)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                    placeholder="Units per lot"
+                  />
+                </label>
+                <label className="space-y-1 text-sm">
+                  <span className="text-label">Multiplier (optional)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={state.multiplier}
+                    onChange={(event) => setState((prev) => ({ ...prev, multiplier: event.target.value }))}
+                    className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface-2)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                    placeholder="1"
+                  />
+                </label>
+              </>
+            )}
+            <label className="space-y-1 text-sm">
+              <span className="text-label">{isDerivativeForm ? 'Lots' : 'Quantity'}</span>
               <input
                 type="number"
                 min="0"
                 step="0.01"
                 value={state.quantity}
                 onChange={(event) => setState((prev) => ({ ...prev, quantity: event.target.value }))}
-                className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface-2)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface-2)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)] disabled:opacity-60"
+                disabled={hasScaledEntries}
                 required
               />
+              {hasScaledEntries ? (
+                <p className="text-tertiary-sm">Total of {trade?.entryLegs.length} entry legs</p>
+              ) : null}
             </label>
             <label className="space-y-1 text-sm">
-              <span className="text-label">Entry Price ({currency})</span>
+              <span className="text-label">{isOptionForm ? 'Premium' : 'Entry Price'} ({currency})</span>
               <input
                 type="number"
                 min="0"
                 step="0.01"
                 value={state.entryPrice}
                 onChange={(event) => setState((prev) => ({ ...prev, entryPrice: event.target.value }))}
-                className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface-2)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface-2)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)] disabled:opacity-60"
+                disabled={hasScaledEntries}
                 required
               />
+              {hasScaledEntries ? (
+                <p className="text-tertiary-sm">Weighted average of all entries</p>
+              ) : null}
             </label>
             <label className="space-y-1 text-sm">
               <span className="text-label">Mark Price ({currency}, optional)</span>
@@ -510,6 +764,42 @@ export default function TradeFormModal({
                 placeholder="Set for unrealized P&L"
               />
             </label>
+            <label className="space-y-1 text-sm">
+              <span className="text-label">Stop Loss ({currency}, optional)</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={state.stopLoss}
+                onChange={(event) => setState((prev) => ({ ...prev, stopLoss: event.target.value }))}
+                className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface-2)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                placeholder="Planned exit if wrong"
+              />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="text-label">Target Price ({currency}, optional)</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={state.targetPrice}
+                onChange={(event) => setState((prev) => ({ ...prev, targetPrice: event.target.value }))}
+                className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface-2)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                placeholder="Planned exit if right"
+              />
+            </label>
+            <label className="space-y-1 text-sm md:col-span-2">
+              <span className="text-label">Risk Amount ({currency}, optional)</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={state.initialRisk}
+                onChange={(event) => setState((prev) => ({ ...prev, initialRisk: event.target.value }))}
+                className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface-2)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                placeholder="Defaults to |entry - stop| x qty"
+              />
+            </label>
             <label className="space-y-1 text-sm">
               <span className="text-label">Setup / Strategy</span>
               <select
@@ -563,6 +853,19 @@ export default function TradeFormModal({
                   : 'Portfolio share will be shown automatically.'}
               </p>
             </div>
+            <div className="rounded-lg border border-[var(--border)] bg-[var(--surface-2)] p-2.5 text-sm md:col-span-2">
+              <p className="text-label">Risk Preview</p>
+              <p className="text-secondary-sm">
+                {riskInfo.riskAmount != null
+                  ? `1R = ${riskInfo.riskAmount.toFixed(2)} ${currency}`
+                  : 'Set a stop loss or risk amount to define 1R'}
+              </p>
+              <p className="text-tertiary-sm">
+                {riskInfo.plannedR != null
+                  ? `Planned reward: ${riskInfo.plannedR.toFixed(2)}R`
+                  : 'Add a target to see planned reward in R.'}
+              </p>
+            </div>
           </div>
 
           {!isEdit && (
@@ -581,6 +884,15 @@ export default function TradeFormModal({
                     className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
                   />
                 </label>
+                <label className="space-y-1 text-sm">
+                  <span className="text-label">Exit Time (optional)</span>
+                  <input
+                    type="time"
+                    value={state.initialExitTime}
+                    onChange={(event) => setState((prev) => ({ ...prev, initialExitTime: event.target.value }))}
+                    className="w-full rounded-lg border border-[var(--border)] bg-[var(--surface)] h-11 px-3 text-[var(--text)] outline-none focus:border-[var(--accent)]"
+                  />
+                </label>
                 <label className="space-y-1 text-sm">
                   <span className="text-label">Exit Price ({currency})</span>
                   <input
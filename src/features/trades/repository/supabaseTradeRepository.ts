@@ -0,0 +1,609 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { mergeTradesByLatest } from '../../../shared/services/mergeRecords';
+import type {
+  AddEntryLegInput,
+  AddExitLegInput,
+  CreateOpenTradeInput,
+  ImportTradeInput,
+  Trade,
+  TradeExcursion,
+  UpdateTradeInput,
+} from '../../../shared/types/trade';
+import { supabase } from '../../../supabaseClient';
+import { LocalSyncBaselineRepository } from '../../sync/repository/syncBaselineRepository';
+import { LocalSyncOutboxRepository, type OutboxStatus } from '../../sync/repository/syncOutboxRepository';
+import { OutboxSync } from '../../sync/services/outboxSync';
+import {
+  reconcileTrades,
+  resolveTradeConflict,
+  tradesMatch,
+  type ConflictSide,
+  type TradeConflict,
+  type TradeConflictField,
+} from '../../sync/services/tradeConflicts';
+import { LocalTradeRepository, normalizeTrade, type TradeRepository } from './tradeRepository';
+
+const TRADES_TABLE = 'trades';
+const ENTRY_LEGS_TABLE = 'trade_entry_legs';
+const EXIT_LEGS_TABLE = 'trade_exit_legs';
+const UPSERT_CHUNK_SIZE = 200;
+// Leg and trade row events for one save arrive separately; they are batched into one fetch.
+const REALTIME_DEBOUNCE_MS = 400;
+
+interface TradeRow {
+  user_id: string;
+  id: string;
+  trade_date: string;
+  entry_time: string | null;
+  symbol: string;
+  direction: string;
+  instrument_type: string;
+  expiry: string | null;
+  strike: number | null;
+  lot_size: number | null;
+  multiplier: number | null;
+  mark_price: number | null;
+  mark_price_updated_at: string | null;
+  stop_loss: number | null;
+  target_price: number | null;
+  initial_risk: number | null;
+  mae: number | null;
+  mfe: number | null;
+  setup: string | null;
+  emotion: string | null;
+  notes: string | null;
+  import_key: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+interface EntryLegRow {
+  user_id: string;
+  id: string;
+  trade_id: string;
+  leg_date: string;
+  leg_time: string | null;
+  quantity: number;
+  entry_price: number;
+  fees: number | null;
+  note: string | null;
+}
+
+interface ExitLegRow {
+  user_id: string;
+  id: string;
+  trade_id: string;
+  leg_date: string;
+  leg_time: string | null;
+  quantity: number;
+  exit_price: number;
+  fees: number | null;
+  note: string | null;
+}
+
+export interface SupabaseTradeRepositoryOptions {
+  onError?: (message: string) => void;
+  onSyncingChange?: (isSyncing: boolean) => void;
+  onConflictsChange?: (conflicts: TradeConflict[]) => void;
+  onOutboxChange?: (status: OutboxStatus) => void;
+}
+
+export interface RemoteTradeChange {
+  trades: Trade[];
+  updatedIds: string[];
+}
+
+interface ReconciledTrades {
+  trades: Trade[];
+  conflicts: TradeConflict[];
+  outdated: Trade[];
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+function toTradeRow(userId: string, trade: Trade): TradeRow {
+  return {
+    user_id: userId,
+    id: trade.id,
+    trade_date: trade.date,
+    entry_time: trade.entryTime ?? null,
+    symbol: trade.symbol,
+    direction: trade.direction,
+    instrument_type: trade.instrument?.type ?? 'equity',
+    expiry: trade.instrument?.expiry ?? null,
+    strike: trade.instrument?.strike ?? null,
+    lot_size: trade.instrument?.lotSize ?? null,
+    multiplier: trade.instrument?.multiplier ?? null,
+    mark_price: trade.markPrice ?? null,
+    mark_price_updated_at: trade.markPriceUpdatedAt ?? null,
+    stop_loss: trade.stopLoss ?? null,
+    target_price: trade.targetPrice ?? null,
+    initial_risk: trade.initialRisk ?? null,
+    mae: trade.mae ?? null,
+    mfe: trade.mfe ?? null,
+    setup: trade.setup ?? null,
+    emotion: trade.emotion ?? null,
+    notes: trade.notes ?? null,
+    import_key: trade.importKey ?? null,
+    created_at: trade.createdAt,
+    updated_at: trade.updatedAt,
+    deleted_at: trade.deletedAt ?? null,
+  };
+}
+
+function toEntryLegRows(userId: string, trade: Trade): EntryLegRow[] {
+  return trade.entryLegs.map((leg) => ({
+    user_id: userId,
+    id: leg.id,
+    trade_id: trade.id,
+    leg_date: leg.date,
+    leg_time: leg.time ?? null,
+    quantity: leg.quantity,
+    entry_price: leg.entryPrice,
+    fees: leg.fees ?? null,
+    note: leg.note ?? null,
+  }));
+}
+
+function toExitLegRows(userId: string, trade: Trade): ExitLegRow[] {
+  return trade.exitLegs.map((leg) => ({
+    user_id: userId,
+    id: leg.id,
+    trade_id: trade.id,
+    leg_date: leg.date,
+    leg_time: leg.time ?? null,
+    quantity: leg.quantity,
+    exit_price: leg.exitPrice,
+    fees: leg.fees ?? null,
+    note: leg.note ?? null,
+  }));
+}
+
+// Rebuilds the client-side shape so normalizeTrade can recompute status and P&L from the legs.
+function fromRows(row: TradeRow, entryLegs: EntryLegRow[], exitLegs: ExitLegRow[]): Trade | null {
+  return normalizeTrade({
+    id: row.id,
+    date: row.trade_date,
+    entryTime: row.entry_time ?? undefined,
+    symbol: row.symbol,
+    direction: row.direction,
+    instrument: {
+      type: row.instrument_type,
+      expiry: row.expiry ?? undefined,
+      strike: row.strike,
+      lotSize: row.lot_size,
+      multiplier: row.multiplier,
+    },
+    entryLegs: entryLegs.map((leg) => ({
+      id: leg.id,
+      date: leg.leg_date,
+      time: leg.leg_time ?? undefined,
+      quantity: leg.quantity,
+      entryPrice: leg.entry_price,
+      fees: leg.fees ?? undefined,
+      note: leg.note ?? undefined,
+    })),
+    exitLegs: exitLegs.map((leg) => ({
+      id: leg.id,
+      date: leg.leg_date,
+      time: leg.leg_time ?? undefined,
+      quantity: leg.quantity,
+      exitPrice: leg.exit_price,
+      fees: leg.fees ?? undefined,
+      note: leg.note ?? undefined,
+    })),
+    markPrice: row.mark_price ?? undefined,
+    markPriceUpdatedAt: row.mark_price_updated_at ?? undefined,
+    stopLoss: row.stop_loss ?? undefined,
+    targetPrice: row.target_price ?? undefined,
+    initialRisk: row.initial_risk ?? undefined,
+    mae: row.mae ?? undefined,
+    mfe: row.mfe ?? undefined,
+    setup: row.setup ?? undefined,
+    emotion: row.emotion ?? undefined,
+    notes: row.notes ?? undefined,
+    importKey: row.import_key ?? undefined,
+    userId: row.user_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    deletedAt: row.deleted_at ?? undefined,
+  });
+}
+
+// DELETE payloads only carry the primary key, so the trade id is read from whichever row has it.
+function payloadValue(payload: { new: unknown; old: unknown }, key: string): string | null {
+  for (const row of [payload.new, payload.old]) {
+    if (typeof row === 'object' && row !== null && key in row) {
+      const value = (row as Record<string, unknown>)[key];
+      if (typeof value === 'string') {
+        return value;
+      }
+    }
+  }
+  return null;
+}
+
+function groupByTradeId<T extends { trade_id: string }>(rows: T[]): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  rows.forEach((row) => {
+    grouped.set(row.trade_id, [...(grouped.get(row.trade_id) ?? []), row]);
+  });
+  return grouped;
+}
+
+// Reads and writes go through the local repository so the UI stays synchronous;
+// each change is queued in a persistent outbox and pushed to Supabase as per-row upserts and deletes.
+export class SupabaseTradeRepository implements TradeRepository {
+  private readonly local = new LocalTradeRepository();
+  private conflicts = new Map<string, TradeConflict>();
+  private readonly userId: string;
+  private readonly options: SupabaseTradeRepositoryOptions;
+  private readonly baseline: LocalSyncBaselineRepository;
+  private readonly sync: OutboxSync;
+
+  constructor(userId: string, options: SupabaseTradeRepositoryOptions = {}) {
+    this.userId = userId;
+    this.options = options;
+    this.baseline = new LocalSyncBaselineRepository(userId);
+    this.sync = new OutboxSync(new LocalSyncOutboxRepository(userId), 'trades', (upsertIds, deleteIds) => this.pushPending(upsertIds, deleteIds), {
+      onStatusChange: options.onOutboxChange,
+      onSyncingChange: options.onSyncingChange,
+    });
+  }
+
+  private setConflicts(conflicts: TradeConflict[]): void {
+    this.conflicts = new Map(conflicts.map((conflict) => [conflict.id, conflict]));
+    this.options.onConflictsChange?.(conflicts);
+  }
+
+  // Diffs the full stored set, tombstones included, so soft deletes are pushed as row updates.
+  private applyChange(change: () => Trade[]): Trade[] {
+    const previous = this.local.listAllTrades();
+    const next = change();
+    const stored = this.local.listAllTrades();
+    const previousById = new Map(previous.map((trade) => [trade.id, JSON.stringify(trade)]));
+    const storedIds = new Set(stored.map((trade) => trade.id));
+
+    const changed = stored.filter((trade) => previousById.get(trade.id) !== JSON.stringify(trade));
+    const removedIds = previous.filter((trade) => !storedIds.has(trade.id)).map((trade) => trade.id);
+    // Editing a conflicted trade before resolving it settles the conflict in favour of this device.
+    const touched = [...changed.map((trade) => trade.id), ...removedIds];
+    if (touched.some((id) => this.conflicts.has(id))) {
+      this.setConflicts([...this.conflicts.values()].filter((conflict) => !touched.includes(conflict.id)));
+    }
+    this.sync.enqueue(changed.map((trade) => trade.id), removedIds);
+    return next;
+  }
+
+  // Outbox entries only name trades, so the current local copy is what gets pushed.
+  private async pushPending(upsertIds: string[], deleteIds: string[]): Promise<boolean> {
+    const storedById = new Map(this.local.listAllTrades().map((trade) => [trade.id, trade]));
+    const changed = upsertIds.flatMap((id) => storedById.get(id) ?? []);
+    const removedIds = [...deleteIds, ...upsertIds.filter((id) => !storedById.has(id))];
+    try {
+      return await this.push(changed, removedIds);
+    } catch (error) {
+      this.options.onError?.(error instanceof Error ? error.message : 'Cloud sync failed.');
+      return false;
+    }
+  }
+
+  private async push(changed: Trade[], removedIds: string[]): Promise<boolean> {
+    const error = (await this.upsertTrades(changed)) ?? (await this.deleteRemoteTrades(removedIds));
+    if (error) {
+      this.options.onError?.(error.message);
+      return false;
+    }
+    this.baseline.markSynced(changed);
+    this.baseline.forget(removedIds);
+    return true;
+  }
+
+  private async upsertTrades(trades: Trade[]): Promise<PostgrestError | null> {
+    for (const batch of chunk(trades, UPSERT_CHUNK_SIZE)) {
+      const { error: tradeError } = await supabase
+        .from(TRADES_TABLE)
+        .upsert(batch.map((trade) => toTradeRow(this.userId, trade)), { onConflict: 'user_id,id' });
+      if (tradeError) {
+        return tradeError;
+      }
+
+      const entryRows = batch.flatMap((trade) => toEntryLegRows(this.userId, trade));
+      const exitRows = batch.flatMap((trade) => toExitLegRows(this.userId, trade));
+      const legWrites = await Promise.all([
+        entryRows.length > 0 ? supabase.from(ENTRY_LEGS_TABLE).upsert(entryRows, { onConflict: 'user_id,id' }) : null,
+        exitRows.length > 0 ? supabase.from(EXIT_LEGS_TABLE).upsert(exitRows, { onConflict: 'user_id,id' }) : null,
+      ]);
+      const legError = legWrites.find((result) => result?.error)?.error;
+      if (legError) {
+        return legError;
+      }
+
+      // Legs removed on the client (e.g. an edited single entry) must be removed remotely too.
+      for (const trade of batch) {
+        const staleError = await this.deleteStaleLegs(trade);
+        if (staleError) {
+          return staleError;
+        }
+      }
+    }
+    return null;
+  }
+
+  private async deleteStaleLegs(trade: Trade): Promise<PostgrestError | null> {
+    const tables: Array<[string, string[]]> = [
+      [ENTRY_LEGS_TABLE, trade.entryLegs.map((leg) => leg.id)],
+      [EXIT_LEGS_TABLE, trade.exitLegs.map((leg) => leg.id)],
+    ];
+    for (const [table, keepIds] of tables) {
+      let query = supabase.from(table).delete().eq('user_id', this.userId).eq('trade_id', trade.id);
+      if (keepIds.length > 0) {
+        query = query.not('id', 'in', `(${keepIds.map((id) => `"${id}"`).join(',')})`);
+      }
+      const { error } = await query;
+      if (error) {
+        return error;
+      }
+    }
+    return null;
+  }
+
+  private async deleteRemoteTrades(ids: string[]): Promise<PostgrestError | null> {
+    for (const batch of chunk(ids, UPSERT_CHUNK_SIZE)) {
+      const { error } = await supabase.from(TRADES_TABLE).delete().eq('user_id', this.userId).in('id', batch);
+      if (error) {
+        return error;
+      }
+    }
+    return null;
+  }
+
+  async fetchRemoteTrades(tradeIds?: string[]): Promise<{ trades: Trade[]; error: PostgrestError | null }> {
+    let tradeQuery = supabase.from(TRADES_TABLE).select('*').eq('user_id', this.userId);
+    let entryQuery = supabase.from(ENTRY_LEGS_TABLE).select('*').eq('user_id', this.userId);
+    let exitQuery = supabase.from(EXIT_LEGS_TABLE).select('*').eq('user_id', this.userId);
+    if (tradeIds) {
+      tradeQuery = tradeQuery.in('id', tradeIds);
+      entryQuery = entryQuery.in('trade_id', tradeIds);
+      exitQuery = exitQuery.in('trade_id', tradeIds);
+    }
+    const [tradeResult, entryResult, exitResult] = await Promise.all([
+      tradeQuery.returns<TradeRow[]>(),
+      entryQuery.returns<EntryLegRow[]>(),
+      exitQuery.returns<ExitLegRow[]>(),
+    ]);
+    const error = tradeResult.error ?? entryResult.error ?? exitResult.error;
+    if (error) {
+      return { trades: [], error };
+    }
+
+    const entryLegsByTrade = groupByTradeId(entryResult.data ?? []);
+    const exitLegsByTrade = groupByTradeId(exitResult.data ?? []);
+    const trades = (tradeResult.data ?? [])
+      .map((row) => fromRows(row, entryLegsByTrade.get(row.id) ?? [], exitLegsByTrade.get(row.id) ?? []))
+      .filter((trade): trade is Trade => trade !== null);
+    return { trades, error: null };
+  }
+
+  // Reconciles local (plus legacy) and remote copies against the last synced version of each trade,
+  // pushes rows the server lacks or has stale, and holds back trades edited on both sides as conflicts.
+  async hydrate(legacyTrades: Trade[] = []): Promise<{ trades: Trade[]; error: PostgrestError | null }> {
+    const { trades: fetchedTrades, error } = await this.fetchRemoteTrades();
+    if (error) {
+      return { trades: this.local.listTrades(), error };
+    }
+
+    // Deletes still waiting in the outbox must not pull the remote copy back in.
+    const pendingDeletes = new Set(this.sync.listPendingDeletes());
+    const remoteTrades = fetchedTrades.filter((trade) => !pendingDeletes.has(trade.id));
+
+    const localTrades = mergeTradesByLatest(this.local.listAllTrades(), legacyTrades);
+    const { trades, conflicts, outdated } = this.reconcileWithRemote(localTrades, remoteTrades);
+    this.local.saveAllTrades(trades);
+    this.baseline.retain(new Set(trades.map((trade) => trade.id)));
+    this.setConflicts(conflicts);
+    this.sync.discard(conflicts.map((conflict) => conflict.id));
+    this.sync.enqueue(outdated.map((trade) => trade.id), []);
+    this.sync.resume();
+    return { trades: this.local.listTrades(), error: null };
+  }
+
+  // Records which reconciled trades now match the server and which still need pushing.
+  private reconcileWithRemote(localTrades: Trade[], remoteTrades: Trade[]): ReconciledTrades {
+    const { trades, conflicts } = reconcileTrades(localTrades, remoteTrades, this.baseline.listSnapshots());
+    const remoteById = new Map(remoteTrades.map((trade) => [trade.id, trade]));
+    const conflictIds = new Set(conflicts.map((conflict) => conflict.id));
+    const inSync = trades.filter((trade) => {
+      const remote = remoteById.get(trade.id);
+      return remote && tradesMatch(trade, remote);
+    });
+    const outdated = trades.filter((trade) => {
+      const remote = remoteById.get(trade.id);
+      return !conflictIds.has(trade.id) && (!remote || !tradesMatch(trade, remote));
+    });
+    this.baseline.markSynced(inSync);
+    return { trades, conflicts, outdated };
+  }
+
+  // Trades with queued writes are skipped: their realtime events are usually echoes of this
+  // device's own push, and the queued write is about to replace the remote copy anyway.
+  private async applyRemoteTrades(tradeIds: string[]): Promise<string[]> {
+    const candidateIds = tradeIds.filter((id) => !this.sync.listPendingIds().includes(id));
+    if (candidateIds.length === 0) {
+      return [];
+    }
+    const { trades: remoteTrades, error } = await this.fetchRemoteTrades(candidateIds);
+    if (error) {
+      this.options.onError?.(error.message);
+      return [];
+    }
+
+    const pendingIds = new Set(this.sync.listPendingIds());
+    const scope = new Set(candidateIds.filter((id) => !pendingIds.has(id)));
+    const stored = this.local.listAllTrades();
+    const localTrades = stored.filter((trade) => scope.has(trade.id));
+    const { trades, conflicts, outdated } = this.reconcileWithRemote(
+      localTrades,
+      remoteTrades.filter((trade) => scope.has(trade.id))
+    );
+
+    const previousById = new Map(localTrades.map((trade) => [trade.id, trade]));
+    const keptIds = new Set(trades.map((trade) => trade.id));
+    const updatedIds = trades
+      .filter((trade) => {
+        const previous = previousById.get(trade.id);
+        return !previous || !tradesMatch(previous, trade);
+      })
+      .map((trade) => trade.id);
+    const removedIds = localTrades.filter((trade) => !keptIds.has(trade.id)).map((trade) => trade.id);
+
+    this.local.saveAllTrades([...stored.filter((trade) => !scope.has(trade.id)), ...trades]);
+    this.baseline.forget(removedIds);
+    if (conflicts.length > 0) {
+      this.setConflicts([...this.listConflicts().filter((conflict) => !scope.has(conflict.id)), ...conflicts]);
+    }
+    this.sync.enqueue(outdated.map((trade) => trade.id), []);
+    return [...updatedIds, ...removedIds];
+  }
+
+  // Streams other devices' edits into the local store; returns a function that unsubscribes.
+  subscribeToRemoteChanges(onChange: (change: RemoteTradeChange) => void): () => void {
+    const changedIds = new Set<string>();
+    let timer: number | null = null;
+
+    const applyChanged = async () => {
+      timer = null;
+      const ids = [...changedIds];
+      changedIds.clear();
+      const updatedIds = await this.applyRemoteTrades(ids);
+      if (updatedIds.length > 0) {
+        onChange({ trades: this.local.listTrades(), updatedIds });
+      }
+    };
+
+    const queue = (tradeId: string | null) => {
+      if (!tradeId) {
+        return;
+      }
+      changedIds.add(tradeId);
+      if (timer === null) {
+        timer = window.setTimeout(() => void applyChanged(), REALTIME_DEBOUNCE_MS);
+      }
+    };
+
+    const filter = `user_id=eq.${this.userId}`;
+    const channel = supabase
+      .channel(`trades:${this.userId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: TRADES_TABLE, filter }, (payload) => queue(payloadValue(payload, 'id')))
+      .on('postgres_changes', { event: '*', schema: 'public', table: ENTRY_LEGS_TABLE, filter }, (payload) => queue(payloadValue(payload, 'trade_id')))
+      .on('postgres_changes', { event: '*', schema: 'public', table: EXIT_LEGS_TABLE, filter }, (payload) => queue(payloadValue(payload, 'trade_id')))
+      .subscribe();
+
+    return () => {
+      if (timer !== null) {
+        window.clearTimeout(timer);
+      }
+      void supabase.removeChannel(channel);
+    };
+  }
+
+  listConflicts(): TradeConflict[] {
+    return [...this.conflicts.values()];
+  }
+
+  resolveConflict(tradeId: string, choices: Partial<Record<TradeConflictField, ConflictSide>>): Trade[] {
+    const conflict = this.conflicts.get(tradeId);
+    const resolved = conflict ? resolveTradeConflict(conflict, choices) : null;
+    if (!resolved) {
+      return this.local.listTrades();
+    }
+    return this.applyChange(() => {
+      this.local.saveAllTrades(this.local.listAllTrades().map((trade) => (trade.id === tradeId ? resolved : trade)));
+      return this.local.listTrades();
+    });
+  }
+
+  // Resolves true once every queued trade write has reached the server.
+  flush(): Promise<boolean> {
+    return this.sync.drain();
+  }
+
+  startBackgroundSync(): () => void {
+    return this.sync.start();
+  }
+
+  listTrades(): Trade[] {
+    return this.local.listTrades();
+  }
+
+  saveTrades(trades: Trade[]): void {
+    this.applyChange(() => {
+      this.local.saveTrades(trades);
+      return this.local.listTrades();
+    });
+  }
+
+  createOpenTrade(input: CreateOpenTradeInput): Trade[] {
+    return this.applyChange(() => this.local.createOpenTrade(input));
+  }
+
+  updateTrade(tradeId: string, updates: UpdateTradeInput): Trade[] {
+    return this.applyChange(() => this.local.updateTrade(tradeId, updates));
+  }
+
+  importTrades(inputs: ImportTradeInput[]): Trade[] {
+    return this.applyChange(() => this.local.importTrades(inputs));
+  }
+
+  addEntryLeg(tradeId: string, input: AddEntryLegInput): Trade[] {
+    return this.applyChange(() => this.local.addEntryLeg(tradeId, input));
+  }
+
+  addExitLeg(tradeId: string, input: AddExitLegInput): Trade[] {
+    return this.applyChange(() => this.local.addExitLeg(tradeId, input));
+  }
+
+  settleExpiredOptions(underlyingClosesByTradeId: Record<string, number>, todayIso: string): Trade[] {
+    return this.applyChange(() => this.local.settleExpiredOptions(underlyingClosesByTradeId, todayIso));
+  }
+
+  updateMarkPrice(tradeId: string, markPrice: number | undefined): Trade[] {
+    return this.applyChange(() => this.local.updateMarkPrice(tradeId, markPrice));
+  }
+
+  // Quote ticks stay on this device; every device refreshes its own marks, so pushing them only adds writes and echoes.
+  updateOpenTradeMarks(pricesBySymbol: Record<string, number>): Trade[] {
+    return this.local.updateOpenTradeMarks(pricesBySymbol);
+  }
+
+  updateExcursions(excursions: Record<string, TradeExcursion>): Trade[] {
+    return this.applyChange(() => this.local.updateExcursions(excursions));
+  }
+
+  deleteTrade(tradeId: string): Trade[] {
+    return this.applyChange(() => this.local.deleteTrade(tradeId));
+  }
+
+  deleteTrades(tradeIds: string[]): Trade[] {
+    return this.applyChange(() => this.local.deleteTrades(tradeIds));
+  }
+
+  listDeletedTrades(): Trade[] {
+    return this.local.listDeletedTrades();
+  }
+
+  restoreTrade(tradeId: string): Trade[] {
+    return this.applyChange(() => this.local.restoreTrade(tradeId));
+  }
+
+  purgeDeletedTrades(cutoffIso: string): Trade[] {
+    return this.applyChange(() => this.local.purgeDeletedTrades(cutoffIso));
+  }
+}
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocalTradeRepository } from './tradeRepository';
+
+function memoryStorage(): Storage {
+  const values = new Map<string, string>();
+  return {
+    get length() {
+      return values.size;
+    },
+    clear: () => values.clear(),
+    getItem: (key) => values.get(key) ?? null,
+    key: (index) => Array.from(values.keys())[index] ?? null,
+    removeItem: (key) => {
+      values.delete(key);
+    },
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+  };
+}
+
+describe('LocalTradeRepository', () => {
+  let repo: LocalTradeRepository;
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    repo = new LocalTradeRepository();
+  });
+
+  it('settles an option that expires out of the money at 0', () => {
+    const [option] = repo.createOpenTrade({
+      date: '2026-09-01',
+      symbol: 'NIFTY',
+      direction: 'long',
+      instrument: { type: 'call_option', expiry: '2026-09-29', strike: 25000 },
+      entryPrice: 120,
+      quantity: 75,
+    });
+
+    const [settled] = repo.settleExpiredOptions({ [option.id]: 24500 }, '2026-09-30');
+    expect(settled.status).toBe('closed');
+    expect(settled.exitLegs).toMatchObject([{ date: '2026-09-29', quantity: 75, exitPrice: 0 }]);
+    expect(settled.realizedPnl).toBe(-9000);
+  });
+
+  it('accepts a manual exit at 0', () => {
+    const [option] = repo.createOpenTrade({
+      date: '2026-09-01',
+      symbol: 'BANKNIFTY',
+      direction: 'long',
+      instrument: { type: 'put_option', expiry: '2026-09-29', strike: 52000 },
+      entryPrice: 80,
+      quantity: 30,
+    });
+
+    expect(repo.addExitLeg(option.id, { date: '2026-09-29', quantity: 30, exitPrice: -1 })[0].exitLegs).toEqual([]);
+    const [closed] = repo.addExitLeg(option.id, { date: '2026-09-29', quantity: 30, exitPrice: 0 });
+    expect(closed.status).toBe('closed');
+    expect(closed.exitLegs[0].exitPrice).toBe(0);
+  });
+
+  it('keeps the instrument on a partial update that leaves it out', () => {
+    const instrument = { type: 'future' as const, expiry: '2026-09-29', lotSize: 250 };
+    const [future] = repo.createOpenTrade({
+      date: '2026-09-01',
+      symbol: 'RELIANCE',
+      direction: 'short',
+      instrument,
+      entryPrice: 2950,
+      quantity: 250,
+    });
+
+    expect(repo.updateTrade(future.id, { notes: 'Rolled next week' })[0].instrument).toEqual(instrument);
+    expect(repo.updateTrade(future.id, { instrument: undefined })[0].instrument).toBeUndefined();
+  });
+});
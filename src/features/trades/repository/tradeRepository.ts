@@ -1,7 +1,26 @@
-import type { AddExitLegInput, CreateOpenTradeInput, Trade, UpdateTradeInput } from '../../../shared/types/trade';
-import { getRemainingQuantity, withComputedMetrics } from '../../../shared/services/tradeMath';
+import type {
+  AddEntryLegInput,
+  AddExitLegInput,
+  CreateOpenTradeInput,
+  EntryLeg,
+  ImportTradeInput,
+  Instrument,
+  Trade,
+  TradeExcursion,
+  UpdateTradeInput,
+} from '../../../shared/types/trade';
+import {
+  calculateIntrinsicValue,
+  getRemainingQuantity,
+  isDerivative,
+  isOptionExpired,
+  withComputedMetrics,
+} from '../../../shared/services/tradeMath';
+import { toTimeOfDay } from '../../../shared/services/marketHours';
+import { isDeleted } from '../../../shared/services/tombstones';
 
 const STORAGE_KEY = 'trades';
+const INSTRUMENT_TYPES: Instrument['type'][] = ['equity', 'future', 'call_option', 'put_option'];
 
 interface LegacyTrade {
   id: string;
@@ -20,10 +39,18 @@ export interface TradeRepository {
   listTrades(): Trade[];
   createOpenTrade(input: CreateOpenTradeInput): Trade[];
   updateTrade(tradeId: string, updates: UpdateTradeInput): Trade[];
+  importTrades(inputs: ImportTradeInput[]): Trade[];
+  addEntryLeg(tradeId: string, input: AddEntryLegInput): Trade[];
   addExitLeg(tradeId: string, input: AddExitLegInput): Trade[];
+  settleExpiredOptions(underlyingClosesByTradeId: Record<string, number>, todayIso: string): Trade[];
   updateMarkPrice(tradeId: string, markPrice: number | undefined): Trade[];
   updateOpenTradeMarks(pricesBySymbol: Record<string, number>): Trade[];
+  updateExcursions(excursions: Record<string, TradeExcursion>): Trade[];
   deleteTrade(tradeId: string): Trade[];
+  deleteTrades(tradeIds: string[]): Trade[];
+  listDeletedTrades(): Trade[];
+  restoreTrade(tradeId: string): Trade[];
+  purgeDeletedTrades(cutoffIso: string): Trade[];
   saveTrades(trades: Trade[]): void;
 }
 
@@ -60,6 +87,27 @@ function isPositiveNumber(value: number | undefined): value is number {
   return value != null && Number.isFinite(value) && value > 0;
 }
 
+// Exits may be at 0, which is where an option that expires out of the money settles.
+function isValidExitPrice(value: number | undefined): value is number {
+  return value != null && Number.isFinite(value) && value >= 0;
+}
+
+function isValidOptionalPrice(value: number | undefined): boolean {
+  return value == null || isPositiveNumber(value);
+}
+
+function hasValidRiskPlan(input: Pick<CreateOpenTradeInput, 'stopLoss' | 'targetPrice' | 'initialRisk'>): boolean {
+  return isValidOptionalPrice(input.stopLoss) && isValidOptionalPrice(input.targetPrice) && isValidOptionalPrice(input.initialRisk);
+}
+
+function toOptionalPositive(value: unknown): number | undefined {
+  if (value == null) {
+    return undefined;
+  }
+  const parsed = toNumber(value);
+  return parsed > 0 ? parsed : undefined;
+}
+
 function samePrice(a: number | undefined, b: number | undefined): boolean {
   if (a == null && b == null) {
     return true;
@@ -70,10 +118,39 @@ function samePrice(a: number | undefined, b: number | undefined): boolean {
   return Math.abs(a - b) < 0.000001;
 }
 
+function sameLegs<T extends { date: string; time?: string; quantity: number }>(
+  a: T[],
+  b: T[],
+  priceOf: (leg: T) => number
+): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (leg, index) =>
+        leg.date === b[index].date &&
+        leg.time === b[index].time &&
+        samePrice(leg.quantity, b[index].quantity) &&
+        samePrice(priceOf(leg), priceOf(b[index]))
+    )
+  );
+}
+
+// Excursions depend on the symbol, side and the legs' dates, times, sizes and prices.
+function excursionInputsChanged(before: Trade, after: Trade): boolean {
+  return (
+    before.symbol !== after.symbol ||
+    before.direction !== after.direction ||
+    before.date !== after.date ||
+    before.entryTime !== after.entryTime ||
+    !sameLegs(before.entryLegs, after.entryLegs, (leg) => leg.entryPrice) ||
+    !sameLegs(before.exitLegs, after.exitLegs, (leg) => leg.exitPrice)
+  );
+}
+
 function migrateLegacyTrade(legacy: LegacyTrade): Trade {
   const createdAt = nowIso();
   const closeQty = toNumber(legacy.quantity);
-  const hasExit = Number.isFinite(legacy.exitPrice) && legacy.exitPrice > 0;
+  const hasExit = isValidExitPrice(legacy.exitPrice);
 
   const migrated: Trade = {
     id: String(legacy.id ?? randomId('trade')),
@@ -83,6 +160,14 @@ function migrateLegacyTrade(legacy: LegacyTrade): Trade {
     entryPrice: toNumber(legacy.entryPrice),
     quantity: closeQty,
     status: hasExit ? 'closed' : 'open',
+    entryLegs: [
+      {
+        id: randomId('entry'),
+        date: legacy.date ?? createdAt.slice(0, 10),
+        quantity: closeQty,
+        entryPrice: toNumber(legacy.entryPrice),
+      },
+    ],
     exitLegs: hasExit
       ? [
           {
@@ -108,7 +193,98 @@ function migrateLegacyTrade(legacy: LegacyTrade): Trade {
   return withComputedMetrics(migrated);
 }
 
-function normalizeTrade(raw: unknown): Trade | null {
+function normalizeInstrument(raw: unknown): Instrument | undefined {
+  if (!isObject(raw)) {
+    return undefined;
+  }
+  const type = INSTRUMENT_TYPES.find((item) => item === raw.type);
+  if (!type || type === 'equity') {
+    return undefined;
+  }
+  return {
+    type,
+    expiry: typeof raw.expiry === 'string' ? raw.expiry : undefined,
+    strike: toOptionalPositive(raw.strike),
+    lotSize: toOptionalPositive(raw.lotSize),
+    multiplier: toOptionalPositive(raw.multiplier),
+  };
+}
+
+function hasValidInstrument(instrument: Instrument | undefined): boolean {
+  if (!instrument || instrument.type === 'equity') {
+    return true;
+  }
+  if (!isValidOptionalPrice(instrument.lotSize) || !isValidOptionalPrice(instrument.multiplier)) {
+    return false;
+  }
+  if (instrument.type === 'call_option' || instrument.type === 'put_option') {
+    return isPositiveNumber(instrument.strike) && Boolean(instrument.expiry);
+  }
+  return true;
+}
+
+// Import previews report these per row, so a trade the repository would reject is never dropped silently.
+export function importTradeError(input: ImportTradeInput): string | null {
+  const entryQty = input.entryLegs.reduce((sum, leg) => sum + leg.quantity, 0);
+  const exitQty = input.exitLegs.reduce((sum, leg) => sum + leg.quantity, 0);
+  if (input.symbol.trim().length === 0) {
+    return 'Symbol is required.';
+  }
+  if (input.entryLegs.length === 0) {
+    return 'At least one entry is required.';
+  }
+  if (!input.entryLegs.every((leg) => isPositiveNumber(leg.entryPrice) && isPositiveNumber(leg.quantity))) {
+    return 'Entry price and quantity must be greater than 0.';
+  }
+  if (!input.exitLegs.every((leg) => isValidExitPrice(leg.exitPrice) && isPositiveNumber(leg.quantity))) {
+    return 'Exit quantity must be greater than 0 and exit price cannot be negative.';
+  }
+  if (exitQty > entryQty + 0.000001) {
+    return 'Exit quantity is larger than the entry quantity.';
+  }
+  if (!isValidOptionalPrice(input.markPrice)) {
+    return 'Mark price must be greater than 0.';
+  }
+  if (!hasValidRiskPlan(input)) {
+    return 'Stop loss, target and initial risk must be greater than 0.';
+  }
+  if (!hasValidInstrument(input.instrument)) {
+    return 'Options need an expiry and a strike; lot size and multiplier must be greater than 0.';
+  }
+  return null;
+}
+
+function normalizeEntryLegs(raw: Record<string, unknown>, fallbackDate: string): EntryLeg[] {
+  if (Array.isArray(raw.entryLegs)) {
+    const legs = raw.entryLegs
+      .filter(isObject)
+      .map((leg) => ({
+        id: typeof leg.id === 'string' ? leg.id : randomId('entry'),
+        date: typeof leg.date === 'string' ? leg.date : fallbackDate,
+        time: toTimeOfDay(leg.time),
+        quantity: toNumber(leg.quantity),
+        entryPrice: toNumber(leg.entryPrice),
+        fees: leg.fees == null ? undefined : toNumber(leg.fees),
+        note: typeof leg.note === 'string' ? leg.note : undefined,
+      }))
+      .filter((leg) => leg.quantity > 0 && leg.entryPrice > 0);
+    if (legs.length > 0) {
+      return legs;
+    }
+  }
+
+  // Single-entry trades predate entry legs; their entry becomes the first leg.
+  return [
+    {
+      id: randomId('entry'),
+      date: fallbackDate,
+      quantity: toNumber(raw.quantity),
+      entryPrice: toNumber(raw.entryPrice),
+    },
+  ];
+}
+
+export function normalizeTrade(raw: unknown): Trade | null {
   if (!isObject(raw)) {
     return null;
   }
@@ -124,21 +300,26 @@ function normalizeTrade(raw: unknown): Trade | null {
 
   const createdAt = typeof raw.createdAt === 'string' ? raw.createdAt : nowIso();
   const updatedAt = typeof raw.updatedAt === 'string' ? raw.updatedAt : createdAt;
+  const date = typeof raw.date === 'string' ? raw.date : createdAt.slice(0, 10);
 
   const trade: Trade = {
     id: raw.id,
-    date: typeof raw.date === 'string' ? raw.date : createdAt.slice(0, 10),
+    date,
+    entryTime: toTimeOfDay(raw.entryTime),
     symbol: typeof raw.symbol === 'string' ? raw.symbol.toUpperCase() : '',
     direction: raw.direction === 'short' ? 'short' : 'long',
+    instrument: normalizeInstrument(raw.instrument),
     entryPrice: toNumber(raw.entryPrice),
     quantity: toNumber(raw.quantity),
     status: raw.status === 'closed' ? 'closed' : 'open',
+    entryLegs: normalizeEntryLegs(raw, date),
     exitLegs: Array.isArray(raw.exitLegs)
       ? raw.exitLegs
           .filter(isObject)
           .map((leg) => ({
             id: typeof leg.id === 'string' ? leg.id : randomId('leg'),
             date: typeof leg.date === 'string' ? leg.date : createdAt.slice(0, 10),
+            time: toTimeOfDay(leg.time),
             quantity: toNumber(leg.quantity),
             exitPrice: toNumber(leg.exitPrice),
             fees: leg.fees == null ? undefined : toNumber(leg.fees),
@@ -147,9 +328,14 @@ function normalizeTrade(raw: unknown): Trade | null {
       : [],
     markPrice: raw.markPrice == null ? undefined : toNumber(raw.markPrice),
     markPriceUpdatedAt: typeof raw.markPriceUpdatedAt === 'string' ? raw.markPriceUpdatedAt : undefined,
+    stopLoss: toOptionalPositive(raw.stopLoss),
+    targetPrice: toOptionalPositive(raw.targetPrice),
+    initialRisk: toOptionalPositive(raw.initialRisk),
     setup: typeof raw.setup === 'string' ? raw.setup : undefined,
     emotion: typeof raw.emotion === 'string' ? raw.emotion : undefined,
     notes: typeof raw.notes === 'string' ? raw.notes : undefined,
+    mae: raw.mae == null ? undefined : toNumber(raw.mae),
+    mfe: raw.mfe == null ? undefined : toNumber(raw.mfe),
     realizedPnl: 0,
     unrealizedPnl: 0,
     totalPnl: 0,
@@ -157,6 +343,8 @@ function normalizeTrade(raw: unknown): Trade | null {
     totalPnlPercent: 0,
     createdAt,
     updatedAt,
+    importKey: typeof raw.importKey === 'string' ? raw.importKey : undefined,
+    deletedAt: typeof raw.deletedAt === 'string' ? raw.deletedAt : undefined,
     userId: typeof raw.userId === 'string' ? raw.userId : undefined,
   };
 
@@ -169,7 +357,12 @@ function normalizeTrade(raw: unknown): Trade | null {
 }
 
 export class LocalTradeRepository implements TradeRepository {
-  listTrades(): Trade[] {
+  private writeAll(trades: Trade[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(trades));
+  }
+
+  // Includes soft-deleted tombstones, which sync needs to propagate deletions.
+  listAllTrades(): Trade[] {
     const raw = localStorage.getItem(STORAGE_KEY);
     if (!raw) {
       return [];
@@ -186,15 +379,33 @@ export class LocalTradeRepository implements TradeRepository {
         .filter((trade): trade is Trade => trade !== null)
         .sort((a, b) => b.date.localeCompare(a.date));
 
-      this.saveTrades(normalized);
+      this.writeAll(normalized);
       return normalized;
     } catch {
       return [];
     }
   }
 
+  listTrades(): Trade[] {
+    return this.listAllTrades().filter((trade) => !isDeleted(trade));
+  }
+
+  listDeletedTrades(): Trade[] {
+    return this.listAllTrades()
+      .filter(isDeleted)
+      .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+  }
+
+  // Writes exactly the given set, tombstones included; sync uses it to drop trades purged elsewhere.
+  saveAllTrades(trades: Trade[]): void {
+    this.writeAll(trades);
+  }
+
+  // Tombstones not present in `trades` are kept so callers working on the live list cannot drop them.
   saveTrades(trades: Trade[]): void {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(trades));
+    const savedIds = new Set(trades.map((trade) => trade.id));
+    const tombstones = this.listAllTrades().filter((trade) => isDeleted(trade) && !savedIds.has(trade.id));
+    this.writeAll([...trades, ...tombstones]);
   }
 
   createOpenTrade(input: CreateOpenTradeInput): Trade[] {
@@ -205,9 +416,12 @@ export class LocalTradeRepository implements TradeRepository {
     if (input.markPrice != null && !isPositiveNumber(input.markPrice)) {
       return trades;
     }
+    if (!hasValidRiskPlan(input) || !hasValidInstrument(input.instrument)) {
+      return trades;
+    }
 
     if (input.initialExitLeg) {
-      if (!isPositiveNumber(input.initialExitLeg.exitPrice) || !isPositiveNumber(input.initialExitLeg.quantity)) {
+      if (!isValidExitPrice(input.initialExitLeg.exitPrice) || !isPositiveNumber(input.initialExitLeg.quantity)) {
         return trades;
       }
       if (input.initialExitLeg.quantity > input.quantity) {
@@ -223,14 +437,27 @@ export class LocalTradeRepository implements TradeRepository {
     const newTrade: Trade = withComputedMetrics({
       id: randomId('trade'),
       date: input.date,
+      entryTime: toTimeOfDay(input.entryTime),
       symbol: input.symbol.toUpperCase(),
       direction: input.direction,
+      instrument: isDerivative(input.instrument) ? input.instrument : undefined,
       entryPrice: input.entryPrice,
       quantity: input.quantity,
       status: 'open',
+      entryLegs: [
+        {
+          id: randomId('entry'),
+          date: input.date,
+          quantity: input.quantity,
+          entryPrice: input.entryPrice,
+        },
+      ],
       exitLegs: [],
       markPrice: input.markPrice,
       markPriceUpdatedAt: input.markPrice == null ? undefined : timestamp,
+      stopLoss: input.stopLoss,
+      targetPrice: input.targetPrice,
+      initialRisk: input.initialRisk,
       setup: input.setup,
       emotion: input.emotion,
       notes: input.notes,
@@ -251,6 +478,7 @@ export class LocalTradeRepository implements TradeRepository {
           {
             id: randomId('leg'),
             ...input.initialExitLeg,
+            time: toTimeOfDay(input.initialExitLeg.time),
           },
         ],
       });
@@ -284,20 +512,50 @@ export class LocalTradeRepository implements TradeRepository {
         return trade;
       }
 
+      if (!hasValidRiskPlan(updates) || !hasValidInstrument(updates.instrument)) {
+        return trade;
+      }
+
       const markPriceUpdatedAt = hasOwnMarkPrice(updates)
         ? updates.markPrice == null
           ? undefined
           : timestamp
         : trade.markPriceUpdatedAt;
 
+      // With a single entry leg the form edits that leg directly; scaled-in
+      // positions keep their legs and only the trade-level fields change.
+      const entryLegs = trade.entryLegs.length === 1
+        ? [
+            {
+              ...trade.entryLegs[0],
+              date: updates.date ?? trade.entryLegs[0].date,
+              entryPrice: nextEntryPrice,
+              quantity: nextQuantity,
+            },
+          ]
+        : trade.entryLegs;
+
       const merged: Trade = withComputedMetrics({
         ...trade,
         ...updates,
+        entryLegs,
+        // An explicit undefined switches the trade back to equity; leaving the key out keeps the instrument.
+        instrument: Object.prototype.hasOwnProperty.call(updates, 'instrument')
+          ? isDerivative(updates.instrument)
+            ? updates.instrument
+            : undefined
+          : trade.instrument,
         symbol: updates.symbol ? updates.symbol.toUpperCase() : trade.symbol,
+        entryTime: Object.prototype.hasOwnProperty.call(updates, 'entryTime') ? toTimeOfDay(updates.entryTime) : trade.entryTime,
         markPriceUpdatedAt,
         updatedAt: timestamp,
       });
 
+      if (excursionInputsChanged(trade, merged)) {
+        merged.mae = undefined;
+        merged.mfe = undefined;
+      }
+
       if (merged.status === 'closed') {
         merged.markPrice = undefined;
         merged.markPriceUpdatedAt = undefined;
@@ -309,6 +567,89 @@ export class LocalTradeRepository implements TradeRepository {
     return next;
   }
 
+  importTrades(inputs: ImportTradeInput[]): Trade[] {
+    const trades = this.listTrades();
+    const timestamp = nowIso();
+
+    const imported = inputs
+      .filter((input) => importTradeError(input) === null)
+      .map((input) =>
+        withComputedMetrics({
+          id: randomId('trade'),
+          date: input.date,
+          entryTime: toTimeOfDay(input.entryTime),
+          symbol: input.symbol.trim().toUpperCase(),
+          direction: input.direction,
+          instrument: isDerivative(input.instrument) ? input.instrument : undefined,
+          entryPrice: input.entryLegs[0].entryPrice,
+          quantity: input.entryLegs[0].quantity,
+          status: 'open',
+          entryLegs: input.entryLegs.map((leg) => ({ id: randomId('entry'), ...leg, time: toTimeOfDay(leg.time) })),
+          exitLegs: input.exitLegs.map((leg) => ({ id: randomId('leg'), ...leg, time: toTimeOfDay(leg.time) })),
+          markPrice: input.markPrice,
+          stopLoss: input.stopLoss,
+          targetPrice: input.targetPrice,
+          initialRisk: input.initialRisk,
+          setup: input.setup,
+          emotion: input.emotion,
+          notes: input.notes,
+          realizedPnl: 0,
+          unrealizedPnl: 0,
+          totalPnl: 0,
+          realizedPnlPercent: 0,
+          totalPnlPercent: 0,
+          importKey: input.importKey,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        })
+      );
+
+    if (imported.length === 0) {
+      return trades;
+    }
+
+    const next = [...imported, ...trades].sort((a, b) => b.date.localeCompare(a.date));
+    this.saveTrades(next);
+    return next;
+  }
+
+  addEntryLeg(tradeId: string, input: AddEntryLegInput): Trade[] {
+    const trades = this.listTrades();
+    if (
+      !isPositiveNumber(input.entryPrice) ||
+      !isPositiveNumber(input.quantity) ||
+      (input.fees != null && (!Number.isFinite(input.fees) || input.fees < 0))
+    ) {
+      return trades;
+    }
+
+    const next = trades.map((trade) => {
+      if (trade.id !== tradeId || trade.status === 'closed') {
+        return trade;
+      }
+
+      return withComputedMetrics({
+        ...trade,
+        entryLegs: [
+          ...trade.entryLegs,
+          {
+            id: randomId('entry'),
+            date: input.date,
+            time: toTimeOfDay(input.time),
+            quantity: input.quantity,
+            entryPrice: input.entryPrice,
+            fees: input.fees,
+            note: input.note,
+          },
+        ],
+        updatedAt: nowIso(),
+      });
+    });
+
+    this.saveTrades(next);
+    return next;
+  }
+
   addExitLeg(tradeId: string, input: AddExitLegInput): Trade[] {
     const trades = this.listTrades();
     const next = trades.map((trade) => {
@@ -318,7 +659,7 @@ export class LocalTradeRepository implements TradeRepository {
 
       const remainingQty = getRemainingQuantity(trade);
       if (
-        !isPositiveNumber(input.exitPrice) ||
+        !isValidExitPrice(input.exitPrice) ||
         !isPositiveNumber(input.quantity) ||
         input.quantity > remainingQty ||
         (input.fees != null && (!Number.isFinite(input.fees) || input.fees < 0))
@@ -333,6 +674,7 @@ export class LocalTradeRepository implements TradeRepository {
           {
             id: randomId('leg'),
             date: input.date,
+            time: toTimeOfDay(input.time),
             quantity: input.quantity,
             exitPrice: input.exitPrice,
             fees: input.fees,
@@ -354,6 +696,51 @@ export class LocalTradeRepository implements TradeRepository {
     return next;
   }
 
+  // Settles at the underlying's close on the expiry date, not its price when the app next refreshes.
+  settleExpiredOptions(underlyingClosesByTradeId: Record<string, number>, todayIso: string): Trade[] {
+    const trades = this.listTrades();
+    const timestamp = nowIso();
+    let hasChanges = false;
+
+    const next = trades.map((trade) => {
+      if (trade.status === 'closed' || !trade.instrument || !isOptionExpired(trade.instrument, todayIso)) {
+        return trade;
+      }
+
+      const underlyingPrice = underlyingClosesByTradeId[trade.id];
+      const remainingQty = getRemainingQuantity(trade);
+      if (!isPositiveNumber(underlyingPrice) || remainingQty <= 0) {
+        return trade;
+      }
+
+      hasChanges = true;
+      const settled = withComputedMetrics({
+        ...trade,
+        exitLegs: [
+          ...trade.exitLegs,
+          {
+            id: randomId('leg'),
+            date: trade.instrument.expiry ?? todayIso,
+            quantity: remainingQty,
+            exitPrice: calculateIntrinsicValue(trade.instrument, underlyingPrice),
+            note: 'Expired - settled at intrinsic value',
+          },
+        ],
+        updatedAt: timestamp,
+      });
+      settled.markPrice = undefined;
+      settled.markPriceUpdatedAt = undefined;
+      return settled;
+    });
+
+    if (!hasChanges) {
+      return trades;
+    }
+
+    this.saveTrades(next);
+    return next;
+  }
+
   updateMarkPrice(tradeId: string, markPrice: number | undefined): Trade[] {
     if (markPrice != null && !isPositiveNumber(markPrice)) {
       return this.listTrades();
@@ -388,7 +775,8 @@ export class LocalTradeRepository implements TradeRepository {
     let hasChanges = false;
 
     const next = trades.map((trade) => {
-      if (trade.status === 'closed') {
+      // Quotes are for the underlying, so derivative marks stay manual.
+      if (trade.status === 'closed' || isDerivative(trade.instrument)) {
         return trade;
       }
 
@@ -398,11 +786,11 @@ export class LocalTradeRepository implements TradeRepository {
       }
 
       hasChanges = true;
+      // A quote tick is not an edit, so it leaves updatedAt alone and cannot win a newest-copy merge.
       return withComputedMetrics({
         ...trade,
         markPrice: nextPrice,
         markPriceUpdatedAt: timestamp,
-        updatedAt: timestamp,
       });
     });
 
@@ -414,10 +802,53 @@ export class LocalTradeRepository implements TradeRepository {
     return next;
   }
 
-  deleteTrade(tradeId: string): Trade[] {
+  updateExcursions(excursions: Record<string, TradeExcursion>): Trade[] {
     const trades = this.listTrades();
-    const next = trades.filter((trade) => trade.id !== tradeId);
+    let hasChanges = false;
+
+    const next = trades.map((trade) => {
+      const excursion = excursions[trade.id];
+      if (!excursion || (trade.mae === excursion.mae && trade.mfe === excursion.mfe)) {
+        return trade;
+      }
+      hasChanges = true;
+      return { ...trade, mae: excursion.mae, mfe: excursion.mfe };
+    });
+
+    if (!hasChanges) {
+      return trades;
+    }
+
     this.saveTrades(next);
     return next;
   }
+
+  deleteTrade(tradeId: string): Trade[] {
+    return this.deleteTrades([tradeId]);
+  }
+
+  deleteTrades(tradeIds: string[]): Trade[] {
+    const ids = new Set(tradeIds);
+    const timestamp = nowIso();
+    const next = this.listAllTrades().map((trade) =>
+      ids.has(trade.id) && !isDeleted(trade) ? { ...trade, deletedAt: timestamp, updatedAt: timestamp } : trade
+    );
+    this.writeAll(next);
+    return next.filter((trade) => !isDeleted(trade));
+  }
+
+  restoreTrade(tradeId: string): Trade[] {
+    const timestamp = nowIso();
+    const next = this.listAllTrades().map((trade) =>
+      trade.id === tradeId && isDeleted(trade) ? { ...trade, deletedAt: undefined, updatedAt: timestamp } : trade
+    );
+    this.writeAll(next);
+    return next.filter((trade) => !isDeleted(trade));
+  }
+
+  purgeDeletedTrades(cutoffIso: string): Trade[] {
+    const next = this.listAllTrades().filter((trade) => !trade.deletedAt || trade.deletedAt >= cutoffIso);
+    this.writeAll(next);
+    return next.filter((trade) => !isDeleted(trade));
+  }
 }
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { mapCsvRows, readCsvHeaderRow, suggestColumnMapping } from '../../imports/services/columnMapping';
+import { toTimeOfDay } from '../../../shared/services/marketHours';
+import type { Trade } from '../../../shared/types/trade';
+import { buildTradesCsv } from './exportService';
+
+const timedTrade: Trade = {
+  id: 'trade_1',
+  date: '2026-09-01',
+  entryTime: '10:15',
+  symbol: 'INFY',
+  direction: 'long',
+  entryPrice: 1850,
+  quantity: 10,
+  status: 'closed',
+  entryLegs: [
+    { id: 'leg_1', date: '2026-09-01', quantity: 6, entryPrice: 1850 },
+    { id: 'leg_2', date: '2026-09-02', quantity: 4, entryPrice: 1850, fees: 12.5 },
+  ],
+  exitLegs: [
+    { id: 'leg_3', date: '2026-09-03', time: '14:05', quantity: 4, exitPrice: 1900 },
+    { id: 'leg_4', date: '2026-09-04', quantity: 6, exitPrice: 1910, fees: 20 },
+  ],
+  realizedPnl: 547.5,
+  unrealizedPnl: 0,
+  totalPnl: 547.5,
+  realizedPnlPercent: 2.96,
+  totalPnlPercent: 2.96,
+  createdAt: '2026-09-01T04:45:00.000Z',
+  updatedAt: '2026-09-04T10:00:00.000Z',
+};
+
+function reimport(trades: Trade[]) {
+  const table = readCsvHeaderRow(buildTradesCsv(trades));
+  if (!table) {
+    throw new Error('Export produced no header row');
+  }
+  return mapCsvRows(table, suggestColumnMapping(table.headers));
+}
+
+describe('buildTradesCsv', () => {
+  it('writes entry and exit times that the CSV import reads back', () => {
+    const { drafts, errors } = reimport([timedTrade]);
+    expect(errors).toEqual([]);
+    expect(drafts).toHaveLength(1);
+    expect(drafts[0].date).toBe('2026-09-01');
+    expect(toTimeOfDay(drafts[0].entryTime)).toBe('10:15');
+    expect(drafts[0].entryLegs).toEqual([
+      { date: '2026-09-01', quantity: 6, entryPrice: 1850, fees: undefined },
+      { date: '2026-09-02', quantity: 4, entryPrice: 1850, fees: 12.5 },
+    ]);
+    expect(drafts[0].exitLegs.map((leg) => [leg.date, toTimeOfDay(leg.time), leg.quantity, leg.exitPrice, leg.fees])).toEqual([
+      ['2026-09-03', '14:05', 4, 1900, undefined],
+      ['2026-09-04', undefined, 6, 1910, 20],
+    ]);
+  });
+
+  it('re-imports an option that expired worthless at 0', () => {
+    const expired: Trade = {
+      ...timedTrade,
+      symbol: 'NIFTY',
+      instrument: { type: 'call_option', expiry: '2026-09-29', strike: 25000 },
+      entryLegs: [{ id: 'leg_1', date: '2026-09-01', quantity: 75, entryPrice: 120 }],
+      exitLegs: [{ id: 'leg_2', date: '2026-09-29', quantity: 75, exitPrice: 0, note: 'Expired - settled at intrinsic value' }],
+    };
+    const { drafts, errors } = reimport([expired]);
+    expect(errors).toEqual([]);
+    expect(drafts[0].exitLegs).toMatchObject([{ date: '2026-09-29', quantity: 75, exitPrice: 0 }]);
+  });
+
+  it('lists a row with a rejected exit leg as an error', () => {
+    const table = readCsvHeaderRow(buildTradesCsv([timedTrade]).replace('4@1900', '0@1900'));
+    expect(table && mapCsvRows(table, suggestColumnMapping(table.headers))).toEqual({
+      drafts: [],
+      errors: [{ row: 2, message: 'Exit quantity must be greater than 0 and exit price cannot be negative.' }],
+    });
+  });
+
+  it('keeps the plain date format for trades without times', () => {
+    const untimed: Trade = {
+      ...timedTrade,
+      entryTime: undefined,
+      exitLegs: timedTrade.exitLegs.map((leg) => ({ ...leg, time: undefined })),
+    };
+    const [, row] = buildTradesCsv([untimed]).split('\n');
+    expect(row.startsWith('2026-09-01,INFY,')).toBe(true);
+    expect(row).toContain('2026-09-03:4@1900 | 2026-09-04:6@1910 fee:20');
+  });
+});
@@ -1,5 +1,10 @@
 import type { Trade } from '../../../shared/types/trade';
 
+// `YYYY-MM-DD HH:mm` when a time was recorded, which the CSV import reads back.
+function dateTime(date: string, time: string | undefined): string {
+  return time ? `${date} ${time}` : date;
+}
+
 function quote(value: string | number | undefined): string {
   if (value == null) {
     return '';
@@ -11,59 +16,90 @@ function quote(value: string | number | undefined): string {
   return text;
 }
 
-export function exportTradesToCsv(trades: Trade[]): void {
-  if (trades.length === 0) {
-    alert('No trades to export.');
-    return;
-  }
-
+export function buildTradesCsv(trades: Trade[]): string {
   const headers = [
     'Date',
     'Symbol',
     'Direction',
+    'Instrument',
+    'Expiry',
+    'Strike',
+    'Lot Size',
+    'Multiplier',
     'Status',
     'Entry',
     'Quantity',
     'Exited Quantity',
     'Remaining Quantity',
     'Mark Price',
+    'Stop Loss',
+    'Target',
+    'Initial Risk',
     'Realized PnL',
     'Unrealized PnL',
     'Total PnL',
+    'Planned R',
+    'Realized R',
+    'Total R',
     'Setup',
     'Emotion',
     'Notes',
+    'Entry Legs',
     'Exit Legs',
   ];
 
   const rows = trades.map((trade) => {
     const exitedQty = trade.exitLegs.reduce((sum, leg) => sum + leg.quantity, 0);
     const remainingQty = Math.max(0, trade.quantity - exitedQty);
+    const entryLegs = trade.entryLegs
+      .map((leg) => `${dateTime(leg.date, leg.time)}:${leg.quantity}@${leg.entryPrice}${leg.fees ? ` fee:${leg.fees}` : ''}`)
+      .join(' | ');
     const exitLegs = trade.exitLegs
-      .map((leg) => `${leg.date}:${leg.quantity}@${leg.exitPrice}${leg.fees ? ` fee:${leg.fees}` : ''}`)
+      .map((leg) => `${dateTime(leg.date, leg.time)}:${leg.quantity}@${leg.exitPrice}${leg.fees ? ` fee:${leg.fees}` : ''}`)
       .join(' | ');
 
     return [
-      quote(trade.date),
+      quote(dateTime(trade.date, trade.entryTime)),
       quote(trade.symbol),
       quote(trade.direction),
+      quote(trade.instrument?.type ?? 'equity'),
+      quote(trade.instrument?.expiry),
+      quote(trade.instrument?.strike),
+      quote(trade.instrument?.lotSize),
+      quote(trade.instrument?.multiplier),
       quote(trade.status),
       quote(trade.entryPrice),
       quote(trade.quantity),
       quote(exitedQty),
       quote(remainingQty),
       quote(trade.markPrice),
+      quote(trade.stopLoss),
+      quote(trade.targetPrice),
+      quote(trade.initialRisk),
       quote(trade.realizedPnl.toFixed(2)),
       quote(trade.unrealizedPnl.toFixed(2)),
       quote(trade.totalPnl.toFixed(2)),
+      quote(trade.plannedR?.toFixed(2)),
+      quote(trade.realizedR?.toFixed(2)),
+      quote(trade.totalR?.toFixed(2)),
       quote(trade.setup),
       quote(trade.emotion),
       quote(trade.notes),
+      quote(entryLegs),
       quote(exitLegs),
     ].join(',');
   });
 
-  const csvContent = [headers.join(','), ...rows].join('\n');
+  return [headers.join(','), ...rows].join('\n');
+}
+
+export function exportTradesToCsv(trades: Trade[]): void {
+  if (trades.length === 0) {
+    alert('No trades to export.');
+    return;
+  }
+
+  const csvContent = buildTradesCsv(trades);
   const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
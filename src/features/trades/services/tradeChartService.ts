@@ -0,0 +1,91 @@
+import { finalExitDate } from '../../analytics/excursionService';
+import type { HistoryInterval, PriceBar } from '../../../shared/services/priceHistory';
+import type { Trade } from '../../../shared/types/trade';
+
+export interface TradeChartWindow {
+  from: string;
+  to: string;
+  interval: HistoryInterval;
+}
+
+export interface TradeChartBar extends PriceBar {
+  key: string;
+  range: [number, number];
+}
+
+export interface TradeChartMarker {
+  id: string;
+  kind: 'entry' | 'exit';
+  key: string;
+  price: number;
+  label: string;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Intraday candles only go back about 60 days.
+const INTRADAY_LOOKBACK_DAYS = 55;
+const DAYS_BEFORE_ENTRY = 14;
+const DAYS_AFTER_EXIT = 7;
+
+function shiftIsoDate(isoDate: string, days: number): string {
+  return new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+// Same-day trades with a known entry time are drawn on 15-minute candles; everything else gets daily bars
+// with a couple of weeks of context on either side.
+export function tradeChartWindow(trade: Trade, today = new Date()): TradeChartWindow {
+  const todayIso = today.toISOString().slice(0, 10);
+  const lastDate = trade.status === 'closed' ? finalExitDate(trade) : todayIso;
+  const ageDays = (today.getTime() - Date.parse(`${trade.date}T00:00:00Z`)) / MS_PER_DAY;
+  if (trade.entryTime && lastDate === trade.date && ageDays <= INTRADAY_LOOKBACK_DAYS) {
+    return { from: trade.date, to: trade.date, interval: '15m' };
+  }
+
+  const to = shiftIsoDate(lastDate, DAYS_AFTER_EXIT);
+  return {
+    from: shiftIsoDate(trade.date, -DAYS_BEFORE_ENTRY),
+    to: to > todayIso ? todayIso : to,
+    interval: '1d',
+  };
+}
+
+export function toChartBars(bars: PriceBar[]): TradeChartBar[] {
+  return bars.map((bar) => ({
+    ...bar,
+    key: bar.time ?? bar.date,
+    range: [bar.low, bar.high],
+  }));
+}
+
+// Markers snap to the last candle that started at or before the fill, or the day's first candle when the
+// fill has no time.
+function snapToBar(bars: TradeChartBar[], date: string, time?: string): string | null {
+  const sameDay = bars.filter((bar) => bar.date === date);
+  if (sameDay.length === 0) {
+    return null;
+  }
+  if (!time) {
+    return sameDay[0].key;
+  }
+  const started = sameDay.filter((bar) => !bar.time || bar.time <= time);
+  return (started[started.length - 1] ?? sameDay[0]).key;
+}
+
+export function buildTradeMarkers(trade: Trade, bars: TradeChartBar[]): TradeChartMarker[] {
+  const entries = trade.entryLegs.map((leg, index) => ({
+    id: leg.id,
+    kind: 'entry' as const,
+    key: snapToBar(bars, leg.date, index === 0 ? trade.entryTime : undefined),
+    price: leg.entryPrice,
+    label: `${trade.direction === 'long' ? 'Buy' : 'Sell'} ${leg.quantity}`,
+  }));
+  const exits = trade.exitLegs.map((leg) => ({
+    id: leg.id,
+    kind: 'exit' as const,
+    key: snapToBar(bars, leg.date, leg.time),
+    price: leg.exitPrice,
+    label: `${trade.direction === 'long' ? 'Sell' : 'Cover'} ${leg.quantity}`,
+  }));
+
+  return [...entries, ...exits].flatMap((marker) => (marker.key ? [{ ...marker, key: marker.key }] : []));
+}
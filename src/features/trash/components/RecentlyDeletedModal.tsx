@@ -0,0 +1,109 @@
+import { RotateCcw, X } from 'lucide-react';
+import { daysUntilPurge, TOMBSTONE_RETENTION_DAYS } from '../../../shared/services/tombstones';
+import type { Goal } from '../../../shared/types/goal';
+import type { Trade } from '../../../shared/types/trade';
+
+interface RecentlyDeletedModalProps {
+  trades: Trade[];
+  goals: Goal[];
+  formatCurrency: (value: number) => string;
+  describeGoal: (goal: Goal) => string;
+  onClose: () => void;
+  onRestoreTrade: (tradeId: string) => void;
+  onRestoreGoal: (goalId: string) => void;
+}
+
+function purgeLabel(deletedAt: string | undefined): string {
+  if (!deletedAt) {
+    return '';
+  }
+  const days = daysUntilPurge(deletedAt);
+  return days <= 1 ? 'Removed within a day' : `Removed in ${days} days`;
+}
+
+export default function RecentlyDeletedModal({
+  trades,
+  goals,
+  formatCurrency,
+  describeGoal,
+  onClose,
+  onRestoreTrade,
+  onRestoreGoal,
+}: RecentlyDeletedModalProps) {
+  const isEmpty = trades.length === 0 && goals.length === 0;
+
+  return (
+    <div className="modal-backdrop fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-3 sm:p-4">
+      <div className="modal-panel max-h-[92vh] w-full max-w-lg overflow-y-auto rounded-2xl border border-[var(--border)] bg-[var(--surface)]">
+        <div className="flex items-center justify-between border-b border-[var(--border)] px-4 py-3">
+          <h2 className="text-secondary">Recently Deleted</h2>
+          <button
+            type="button"
+            className="flex h-11 w-11 items-center justify-center rounded-lg text-[var(--muted)] transition hover:bg-[var(--surface-2)] hover:text-[var(--text)]"
+            onClick={onClose}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-4 px-4 py-4">
+          <p className="text-tertiary-sm">Deleted trades and goals can be restored for {TOMBSTONE_RETENTION_DAYS} days, then they are removed on every device.</p>
+
+          {isEmpty ? <p className="py-6 text-center text-sm text-[var(--muted)]">Nothing has been deleted recently.</p> : null}
+
+          {trades.length > 0 ? (
+            <div>
+              <h3 className="mb-2 text-label">Trades</h3>
+              <ul className="space-y-2">
+                {trades.map((trade) => (
+                  <li key={trade.id} className="flex items-center justify-between gap-3 rounded-lg border border-[var(--border)] bg-[var(--surface-2)] px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-secondary-sm">
+                        {trade.symbol} <span className="uppercase text-[var(--muted)]">{trade.direction}</span>
+                      </p>
+                      <p className="text-tertiary-sm">
+                        {trade.date} · {formatCurrency(trade.totalPnl)} · {purgeLabel(trade.deletedAt)}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => onRestoreTrade(trade.id)}
+                      className="flex min-h-11 shrink-0 items-center gap-1 rounded-lg border border-[var(--border)] px-3 text-sm text-[var(--text)] transition hover:bg-[var(--surface)]"
+                    >
+                      <RotateCcw size={14} /> Restore
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+
+          {goals.length > 0 ? (
+            <div>
+              <h3 className="mb-2 text-label">Goals</h3>
+              <ul className="space-y-2">
+                {goals.map((goal) => (
+                  <li key={goal.id} className="flex items-center justify-between gap-3 rounded-lg border border-[var(--border)] bg-[var(--surface-2)] px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-secondary-sm">{describeGoal(goal)}</p>
+                      <p className="text-tertiary-sm">
+                        {goal.period} · {purgeLabel(goal.deletedAt)}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => onRestoreGoal(goal.id)}
+                      className="flex min-h-11 shrink-0 items-center gap-1 rounded-lg border border-[var(--border)] px-3 text-sm text-[var(--text)] transition hover:bg-[var(--surface)]"
+                    >
+                      <RotateCcw size={14} /> Restore
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
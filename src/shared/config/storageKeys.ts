@@ -0,0 +1,23 @@
+export const CONFIRM_DELETE_STORAGE_KEY = 'settings.confirmDelete';
+export const AUTO_REFRESH_MARKS_STORAGE_KEY = 'settings.autoRefreshMarks';
+export const ANALYTICS_UNREALIZED_STORAGE_KEY = 'settings.analytics.includeUnrealized';
+export const HAS_SKIPPED_PORTFOLIO_VALUE_STORAGE_KEY = 'hasSkippedPortfolioValue';
+export const DISMISSED_PORTFOLIO_BANNER_STORAGE_KEY = 'dismissedPortfolioBanner';
+export const DISMISSED_AFTER_FIVE_TRADES_STORAGE_KEY = 'dismissedAfter5Trades';
+export const PORTFOLIO_NUDGE_DISMISS_DATE_STORAGE_KEY = 'portfolioNudgeDismissDate';
+export const PRICE_DISCLAIMER_SEEN_STORAGE_KEY = 'hasSeenPriceDisclaimer';
+export const DASHBOARD_TOOLTIP_DISMISSED_KEY = 'tooltipDismissed.dashboard';
+export const TRADES_TOOLTIP_DISMISSED_KEY = 'tooltipDismissed.trades';
+export const INSIGHTS_TOOLTIP_DISMISSED_KEY = 'tooltipDismissed.insights';
+export const CURRENT_TAB_STORAGE_KEY = 'currentTab';
+export const TRADE_VIEW_MODE_STORAGE_KEY = 'tradeViewMode';
+export const DISMISSED_INSIGHTS_STORAGE_KEY = 'dismissedInsights';
+export const GOALS_STORAGE_KEY = 'goals';
+export const CSV_MAPPING_PROFILES_STORAGE_KEY = 'csv_mapping_profiles';
+export const WEEKLY_REVIEW_STORAGE_KEY = 'reminder.weeklyReview.completedAt';
+export const MONTH_END_STORAGE_KEY = 'reminder.monthEnd.completedPeriod';
+export const SYNC_BASELINE_STORAGE_KEY = 'sync.tradeBaseline';
+export const SYNC_OUTBOX_STORAGE_KEY = 'sync.outbox';
+export const QUOTE_CACHE_STORAGE_KEY = 'pricing.quoteCache';
+export const PRICE_ALERTS_STORAGE_KEY = 'alerts.price';
+export const SYMBOL_EXCHANGES_STORAGE_KEY = 'pricing.symbolExchanges';
@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { exchangeForSymbol, isMarketOpenForSymbol } from './exchangeCalendar';
+import { recordReportedExchanges } from './symbolExchanges';
+
+function memoryStorage(): Storage {
+  const values = new Map<string, string>();
+  return {
+    get length() {
+      return values.size;
+    },
+    clear: () => values.clear(),
+    getItem: (key) => values.get(key) ?? null,
+    key: (index) => Array.from(values.keys())[index] ?? null,
+    removeItem: (key) => {
+      values.delete(key);
+    },
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+  };
+}
+
+// 2026-09-15 is a Tuesday: 10:00 IST, before the US open.
+const INDIA_MORNING = new Date('2026-09-15T04:30:00Z');
+
+describe('exchangeForSymbol', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+
+  it('does not assume NSE for a bare symbol the provider has not placed', () => {
+    expect(exchangeForSymbol('RELIANCE.NS')).toBe('NSE');
+    expect(exchangeForSymbol('^GSPC')).toBe('NYSE');
+    expect(exchangeForSymbol('AAPL')).toBeNull();
+    expect(isMarketOpenForSymbol('AAPL', INDIA_MORNING)).toBe(true);
+  });
+
+  it('uses the exchange reported with the quote', () => {
+    recordReportedExchanges({ AAPL: 'NMS', INFY: 'NSI', ACME: 'XYZ' });
+    expect(exchangeForSymbol('aapl')).toBe('NASDAQ');
+    expect(exchangeForSymbol('INFY')).toBe('NSE');
+    expect(exchangeForSymbol('ACME')).toBeNull();
+    expect(isMarketOpenForSymbol('AAPL', INDIA_MORNING)).toBe(false);
+    expect(isMarketOpenForSymbol('INFY', INDIA_MORNING)).toBe(true);
+  });
+});
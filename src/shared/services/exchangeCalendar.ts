@@ -0,0 +1,244 @@
+import { reportedExchange } from './symbolExchanges';
+
+export type ExchangeCode = 'NSE' | 'BSE' | 'NYSE' | 'NASDAQ' | 'LSE' | 'TSE';
+
+// Minutes after local midnight.
+export interface TradingSession {
+  open: number;
+  close: number;
+}
+
+export interface ExchangeCalendar {
+  code: ExchangeCode;
+  timeZone: string;
+  timeZoneLabel: string;
+  sessions: TradingSession[];
+  holidays: string[];
+  // Dates whose hours differ from the regular ones: early closes, and NSE/BSE Muhurat sessions on holidays.
+  specialSessions: Record<string, TradingSession[]>;
+}
+
+export interface NextSessionOpen {
+  exchange: ExchangeCode;
+  isoDate: string;
+  minutes: number;
+  isToday: boolean;
+  startsAt: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const LOOKAHEAD_DAYS = 14;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function minutes(hours: number, mins = 0): number {
+  return hours * 60 + mins;
+}
+
+// Holiday lists come from each exchange's published calendar and need extending every year.
+// Muhurat sessions are added once NSE/BSE announce their timing.
+const INDIA_HOLIDAYS = [
+  '2025-02-26', '2025-03-14', '2025-03-31', '2025-04-10', '2025-04-14', '2025-04-18', '2025-05-01',
+  '2025-08-15', '2025-08-27', '2025-10-02', '2025-10-21', '2025-10-22', '2025-11-05', '2025-12-25',
+  '2026-01-26', '2026-03-03', '2026-03-26', '2026-03-31', '2026-04-03', '2026-04-14', '2026-05-01',
+  '2026-05-28', '2026-06-26', '2026-09-14', '2026-10-02', '2026-10-20', '2026-11-10', '2026-11-24', '2026-12-25',
+];
+const INDIA_SPECIAL_SESSIONS: Record<string, TradingSession[]> = {
+  '2025-10-21': [{ open: minutes(13, 45), close: minutes(14, 45) }],
+};
+
+const US_HOLIDAYS = [
+  '2025-01-01', '2025-01-09', '2025-01-20', '2025-02-17', '2025-04-18', '2025-05-26', '2025-06-19',
+  '2025-07-04', '2025-09-01', '2025-11-27', '2025-12-25',
+  '2026-01-01', '2026-01-19', '2026-02-16', '2026-04-03', '2026-05-25', '2026-06-19', '2026-07-03',
+  '2026-09-07', '2026-11-26', '2026-12-25',
+];
+const US_EARLY_CLOSE = [{ open: minutes(9, 30), close: minutes(13) }];
+const US_SPECIAL_SESSIONS: Record<string, TradingSession[]> = {
+  '2025-07-03': US_EARLY_CLOSE,
+  '2025-11-28': US_EARLY_CLOSE,
+  '2025-12-24': US_EARLY_CLOSE,
+  '2026-11-27': US_EARLY_CLOSE,
+  '2026-12-24': US_EARLY_CLOSE,
+};
+
+const LSE_EARLY_CLOSE = [{ open: minutes(8), close: minutes(12, 30) }];
+
+export const EXCHANGE_CALENDARS: Record<ExchangeCode, ExchangeCalendar> = {
+  NSE: {
+    code: 'NSE',
+    timeZone: 'Asia/Kolkata',
+    timeZoneLabel: 'IST',
+    sessions: [{ open: minutes(9, 15), close: minutes(15, 30) }],
+    holidays: INDIA_HOLIDAYS,
+    specialSessions: INDIA_SPECIAL_SESSIONS,
+  },
+  BSE: {
+    code: 'BSE',
+    timeZone: 'Asia/Kolkata',
+    timeZoneLabel: 'IST',
+    sessions: [{ open: minutes(9, 15), close: minutes(15, 30) }],
+    holidays: INDIA_HOLIDAYS,
+    specialSessions: INDIA_SPECIAL_SESSIONS,
+  },
+  NYSE: {
+    code: 'NYSE',
+    timeZone: 'America/New_York',
+    timeZoneLabel: 'ET',
+    sessions: [{ open: minutes(9, 30), close: minutes(16) }],
+    holidays: US_HOLIDAYS,
+    specialSessions: US_SPECIAL_SESSIONS,
+  },
+  NASDAQ: {
+    code: 'NASDAQ',
+    timeZone: 'America/New_York',
+    timeZoneLabel: 'ET',
+    sessions: [{ open: minutes(9, 30), close: minutes(16) }],
+    holidays: US_HOLIDAYS,
+    specialSessions: US_SPECIAL_SESSIONS,
+  },
+  LSE: {
+    code: 'LSE',
+    timeZone: 'Europe/London',
+    timeZoneLabel: 'UK',
+    sessions: [{ open: minutes(8), close: minutes(16, 30) }],
+    holidays: [
+      '2025-01-01', '2025-04-18', '2025-04-21', '2025-05-05', '2025-05-26', '2025-08-25', '2025-12-25', '2025-12-26',
+      '2026-01-01', '2026-04-03', '2026-04-06', '2026-05-04', '2026-05-25', '2026-08-31', '2026-12-25', '2026-12-28',
+    ],
+    specialSessions: {
+      '2025-12-24': LSE_EARLY_CLOSE,
+      '2025-12-31': LSE_EARLY_CLOSE,
+      '2026-12-24': LSE_EARLY_CLOSE,
+      '2026-12-31': LSE_EARLY_CLOSE,
+    },
+  },
+  TSE: {
+    code: 'TSE',
+    timeZone: 'Asia/Tokyo',
+    timeZoneLabel: 'JST',
+    sessions: [
+      { open: minutes(9), close: minutes(11, 30) },
+      { open: minutes(12, 30), close: minutes(15, 30) },
+    ],
+    holidays: [
+      '2025-01-01', '2025-01-02', '2025-01-03', '2025-01-13', '2025-02-11', '2025-02-24', '2025-03-20',
+      '2025-04-29', '2025-05-05', '2025-05-06', '2025-07-21', '2025-08-11', '2025-09-15', '2025-09-23',
+      '2025-10-13', '2025-11-03', '2025-11-24', '2025-12-31',
+      '2026-01-01', '2026-01-02', '2026-01-12', '2026-02-11', '2026-02-23', '2026-03-20', '2026-04-29',
+      '2026-05-04', '2026-05-05', '2026-05-06', '2026-07-20', '2026-08-11', '2026-09-21', '2026-09-22',
+      '2026-09-23', '2026-10-12', '2026-11-03', '2026-11-23', '2026-12-31',
+    ],
+    specialSessions: {},
+  },
+};
+
+const SUFFIX_EXCHANGES: Record<string, ExchangeCode> = {
+  NS: 'NSE',
+  BO: 'BSE',
+  L: 'LSE',
+  T: 'TSE',
+};
+
+const INDEX_EXCHANGES: Record<string, ExchangeCode> = {
+  '^NSEI': 'NSE',
+  '^NSEBANK': 'NSE',
+  '^BSESN': 'BSE',
+  '^GSPC': 'NYSE',
+  '^DJI': 'NYSE',
+  '^IXIC': 'NASDAQ',
+  '^FTSE': 'LSE',
+  '^N225': 'TSE',
+};
+
+// Follows Yahoo suffixes. A bare symbol can resolve to NSE, BSE or a US listing, so it takes the exchange the
+// price provider reported with its last quote, and is null until one has.
+export function exchangeForSymbol(symbol: string): ExchangeCode | null {
+  const cleaned = symbol.trim().toUpperCase();
+  const index = INDEX_EXCHANGES[cleaned];
+  if (index) {
+    return index;
+  }
+  const dot = cleaned.lastIndexOf('.');
+  const suffixed = dot > 0 ? SUFFIX_EXCHANGES[cleaned.slice(dot + 1)] : undefined;
+  return suffixed ?? reportedExchange(cleaned);
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Local calendar date and minute of `date` on the exchange's clock, plus that clock's offset from UTC.
+function zonedParts(date: Date, timeZone: string): { isoDate: string; minutes: number; offsetMs: number } {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map((part) => [part.type, part.value]));
+  const isoDate = `${parts.year}-${parts.month}-${parts.day}`;
+  const localMinutes = Number(parts.hour) * 60 + Number(parts.minute);
+  const wholeMinute = Math.floor(date.getTime() / 60000) * 60000;
+  return {
+    isoDate,
+    minutes: localMinutes,
+    offsetMs: Date.parse(`${isoDate}T00:00:00Z`) + localMinutes * 60000 - wholeMinute,
+  };
+}
+
+function shiftIsoDate(isoDate: string, days: number): string {
+  return new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+function weekdayOf(isoDate: string): number {
+  return new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+}
+
+export function sessionsOn(exchange: ExchangeCode, isoDate: string): TradingSession[] {
+  const calendar = EXCHANGE_CALENDARS[exchange];
+  const special = calendar.specialSessions[isoDate];
+  if (special) {
+    return special;
+  }
+  const weekday = weekdayOf(isoDate);
+  if (weekday === 0 || weekday === 6 || calendar.holidays.includes(isoDate)) {
+    return [];
+  }
+  return calendar.sessions;
+}
+
+export function isExchangeOpen(exchange: ExchangeCode, now = new Date()): boolean {
+  const { isoDate, minutes: localMinutes } = zonedParts(now, EXCHANGE_CALENDARS[exchange].timeZone);
+  return sessionsOn(exchange, isoDate).some((session) => localMinutes >= session.open && localMinutes < session.close);
+}
+
+// A symbol whose exchange is not known yet counts as open, so it keeps being quoted until the provider reports one.
+export function isMarketOpenForSymbol(symbol: string, now = new Date()): boolean {
+  const exchange = exchangeForSymbol(symbol);
+  return exchange == null || isExchangeOpen(exchange, now);
+}
+
+export function nextSessionOpen(exchange: ExchangeCode, now = new Date()): NextSessionOpen | null {
+  const { isoDate: today, minutes: localMinutes, offsetMs } = zonedParts(now, EXCHANGE_CALENDARS[exchange].timeZone);
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset += 1) {
+    const isoDate = shiftIsoDate(today, offset);
+    const session = sessionsOn(exchange, isoDate).find((item) => offset > 0 || item.open > localMinutes);
+    if (session) {
+      const startsAt = Date.parse(`${isoDate}T00:00:00Z`) + session.open * 60000 - offsetMs;
+      return { exchange, isoDate, minutes: session.open, isToday: offset === 0, startsAt };
+    }
+  }
+  return null;
+}
+
+// e.g. "NSE opens Mon 09:15 IST", in the exchange's own time zone.
+export function formatNextSessionOpen(next: NextSessionOpen): string {
+  const time = `${String(Math.floor(next.minutes / 60)).padStart(2, '0')}:${String(next.minutes % 60).padStart(2, '0')}`;
+  const day = next.isToday ? '' : `${WEEKDAYS[weekdayOf(next.isoDate)]} `;
+  return `${next.exchange} opens ${day}${time} ${EXCHANGE_CALENDARS[next.exchange].timeZoneLabel}`;
+}
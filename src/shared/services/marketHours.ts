@@ -0,0 +1,45 @@
+// NSE cash-market hours in IST minutes after midnight.
+export const NSE_OPEN_MINUTES = 9 * 60 + 15;
+export const NSE_CLOSE_MINUTES = 15 * 60 + 30;
+
+export interface SessionWindow {
+  label: string;
+  start: number;
+  end: number;
+}
+
+export const NSE_SESSION_WINDOWS: SessionWindow[] = [
+  { label: 'Opening (9:15-10:00)', start: NSE_OPEN_MINUTES, end: 10 * 60 },
+  { label: 'Morning (10:00-12:00)', start: 10 * 60, end: 12 * 60 },
+  { label: 'Midday (12:00-13:30)', start: 12 * 60, end: 13 * 60 + 30 },
+  { label: 'Afternoon (13:30-14:30)', start: 13 * 60 + 30, end: 14 * 60 + 30 },
+  { label: 'Closing (14:30-15:30)', start: 14 * 60 + 30, end: NSE_CLOSE_MINUTES + 1 },
+];
+export const OUTSIDE_MARKET_HOURS_LABEL = 'Outside market hours';
+
+// Accepts `HH:mm` or `HH:mm:ss` (as Postgres and CSV imports return it) and keeps minute precision.
+export function toTimeOfDay(value: unknown): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/);
+  if (!match) {
+    return undefined;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return undefined;
+  }
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+}
+
+export function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function nseSessionForTime(time: string): string {
+  const minutes = minutesOfDay(time);
+  return NSE_SESSION_WINDOWS.find((window) => minutes >= window.start && minutes < window.end)?.label ?? OUTSIDE_MARKET_HOURS_LABEL;
+}
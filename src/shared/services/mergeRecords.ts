@@ -0,0 +1,31 @@
+import type { Trade } from '../types/trade';
+import { recordVersion } from './tombstones';
+
+// Tombstones are merged like any other record, so a deletion newer than the other copy's last edit wins.
+export function mergeTradesByLatest(localTrades: Trade[], remoteTrades: Trade[]): Trade[] {
+  const merged = new Map<string, Trade>();
+  [...localTrades, ...remoteTrades].forEach((trade) => {
+    const existing = merged.get(trade.id);
+    if (!existing) {
+      merged.set(trade.id, trade);
+      return;
+    }
+    merged.set(trade.id, recordVersion(trade) > recordVersion(existing) ? trade : existing);
+  });
+  return [...merged.values()].sort((a, b) => b.date.localeCompare(a.date) || b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function mergeGoalsByLatest<
+  T extends { id: string; updatedAt: string; deletedAt?: string }
+>(localGoals: T[], remoteGoals: T[]): T[] {
+  const merged = new Map<string, T>();
+  [...localGoals, ...remoteGoals].forEach((goal) => {
+    const existing = merged.get(goal.id);
+    if (!existing) {
+      merged.set(goal.id, goal);
+      return;
+    }
+    merged.set(goal.id, recordVersion(goal) > recordVersion(existing) ? goal : existing);
+  });
+  return [...merged.values()];
+}
@@ -0,0 +1,98 @@
+export type HistoryInterval = '1d' | '1h' | '15m' | '5m';
+
+export interface PriceBar {
+  date: string;
+  // Exchange-local `HH:mm` bar start; only intraday bars have one.
+  time?: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+interface HistoryApiResponse {
+  symbol: string;
+  yahooSymbol: string;
+  interval: HistoryInterval;
+  from: string;
+  to: string;
+  bars: PriceBar[];
+  source: string;
+}
+
+const REQUEST_HEADERS: Record<string, string> = {
+  Accept: 'application/json',
+};
+
+const API_BASE = typeof window !== 'undefined'
+  ? (window.location.hostname === 'localhost' ? 'http://localhost:3000' : '')
+  : 'http://localhost:3000';
+
+function isPriceBar(value: unknown): value is PriceBar {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const bar = value as Record<string, unknown>;
+  return (
+    typeof bar.date === 'string' &&
+    [bar.open, bar.high, bar.low, bar.close].every((price) => typeof price === 'number' && Number.isFinite(price) && price > 0)
+  );
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Enough calendar days to reach back over a long weekend plus exchange holidays.
+const CLOSE_LOOKBACK_DAYS = 7;
+
+function todayIso(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function shiftIsoDate(isoDate: string, days: number): string {
+  return new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+// Windows that ended before today never change, so those results are cached for the lifetime of the page.
+export class ApiPriceHistoryService {
+  private readonly cache = new Map<string, PriceBar[]>();
+
+  async fetchBars(symbol: string, from: string, to: string, interval: HistoryInterval = '1d'): Promise<PriceBar[] | null> {
+    const normalized = symbol.trim().toUpperCase();
+    if (!normalized || !from || !to) {
+      return null;
+    }
+
+    const key = `${normalized}|${interval}|${from}|${to}`;
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const params = new URLSearchParams({ symbol: normalized, from, to, interval });
+      const response = await fetch(`${API_BASE}/api/history?${params.toString()}`, { headers: REQUEST_HEADERS });
+      if (!response.ok) {
+        console.warn(`[History] ${normalized}: request failed (${response.status})`);
+        return null;
+      }
+      const data = (await response.json()) as Partial<HistoryApiResponse>;
+      const bars = Array.isArray(data.bars) ? data.bars.filter(isPriceBar) : [];
+      if (to < todayIso()) {
+        this.cache.set(key, bars);
+      }
+      return bars;
+    } catch {
+      console.warn(`[History] ${normalized}: No internet connection`);
+      return null;
+    }
+  }
+
+  // Daily close on `isoDate`, or on the last session before it when the exchange was shut that day.
+  async fetchCloseOn(symbol: string, isoDate: string): Promise<number | null> {
+    const bars = await this.fetchBars(symbol, shiftIsoDate(isoDate, -CLOSE_LOOKBACK_DAYS), isoDate, '1d');
+    const onOrBefore = (bars ?? []).filter((bar) => bar.date <= isoDate);
+    return onOrBefore.length > 0 ? onOrBefore[onOrBefore.length - 1].close : null;
+  }
+}
+
+export const priceHistoryService = new ApiPriceHistoryService();
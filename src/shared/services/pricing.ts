@@ -1,3 +1,7 @@
+import { isQuoteFresh, quoteCache } from './quoteCache';
+import type { CachedQuote } from './quoteCache';
+import { recordReportedExchanges } from './symbolExchanges';
+
 export interface PriceResult {
   symbol: string;
   price: number;
@@ -5,23 +9,21 @@ export interface PriceResult {
   source: string;
 }
 
-interface CacheEntry {
-  price: number;
-  timestamp: number;
-}
-
 interface PriceApiResponse {
   symbol: string;
   yahooSymbol: string;
   price: number;
+  exchange?: string;
   timestamp: string;
   source: string;
 }
 
 interface BatchPriceApiResponse {
   prices?: Record<string, number>;
+  exchanges?: Record<string, string>;
   failed?: string[];
   timestamp?: string;
+  source?: string;
 }
 
 export interface PricingService {
@@ -29,7 +31,9 @@ export interface PricingService {
   getMarkPrice(symbol: string): Promise<number | null>;
 }
 
-const CACHE_DURATION_MS = 5 * 60 * 1000;
+const MARK_REFRESH_LOCK = 'pricing.markRefresh';
+// The API reports which market data provider answered; older deployments omit it.
+const DEFAULT_SOURCE = 'Yahoo Finance';
 const MULTI_FETCH_DELAY_MS = 300;
 const REQUEST_HEADERS: Record<string, string> = {
   Accept: 'application/json',
@@ -46,6 +50,15 @@ function delay(ms: number): Promise<void> {
   });
 }
 
+// Lets only one open tab hit the price API at a time; the others wait and then read what it cached.
+// Browsers without the Web Locks API run the task directly.
+async function runExclusive<T>(name: string, task: () => Promise<T>): Promise<T> {
+  if (typeof navigator === 'undefined' || !('locks' in navigator)) {
+    return task();
+  }
+  return navigator.locks.request(name, () => task());
+}
+
 function toNumber(value: unknown): number | null {
   if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
     return value;
@@ -84,7 +97,6 @@ export class ManualPricingService implements PricingService {
 export class ApiPricingService implements PricingService {
   source = 'api' as const;
 
-  private readonly priceCache = new Map<string, CacheEntry>();
   private loadingCount = 0;
 
   get isLoading(): boolean {
@@ -100,7 +112,7 @@ export class ApiPricingService implements PricingService {
   }
 
   clearCache(): void {
-    this.priceCache.clear();
+    quoteCache.clear();
   }
 
   private startLoading(): void {
@@ -115,29 +127,27 @@ export class ApiPricingService implements PricingService {
     return symbol.trim().toUpperCase();
   }
 
-  private getCachedPrice(symbol: string): number | null {
+  private getCachedEntry(symbol: string): CachedQuote | null {
     const key = this.getCacheKey(symbol);
-    const cached = this.priceCache.get(key);
+    const cached = quoteCache.get(key);
     if (!cached) {
       console.log(`[Pricing] cache miss for ${key}`);
       return null;
     }
-    const age = Date.now() - cached.timestamp;
-    if (age > CACHE_DURATION_MS) {
+    if (!isQuoteFresh(key, cached)) {
       console.log(`[Pricing] cache stale for ${key}`);
-      this.priceCache.delete(key);
       return null;
     }
     console.log(`[Pricing] cache hit for ${key}`);
-    return cached.price;
+    return cached;
   }
 
-  private setCachedPrice(symbol: string, price: number): void {
-    const key = this.getCacheKey(symbol);
-    this.priceCache.set(key, {
-      price,
-      timestamp: Date.now(),
-    });
+  private getCachedPrice(symbol: string): number | null {
+    return this.getCachedEntry(symbol)?.price ?? null;
+  }
+
+  private setCachedPrice(symbol: string, price: number, source = DEFAULT_SOURCE): void {
+    quoteCache.setMany({ [this.getCacheKey(symbol)]: price }, source);
   }
 
   private async fetchSingleFromApi(symbol: string): Promise<PriceResult | null> {
@@ -159,12 +169,14 @@ export class ApiPricingService implements PricingService {
         return null;
       }
 
+      const resolvedSymbol = typeof data.symbol === 'string' ? data.symbol : symbol.trim().toUpperCase();
+      recordReportedExchanges({ [resolvedSymbol]: data.exchange });
       const timestamp = data.timestamp ? new Date(data.timestamp) : new Date();
       return {
-        symbol: typeof data.symbol === 'string' ? data.symbol : symbol.trim().toUpperCase(),
+        symbol: resolvedSymbol,
         price: parsedPrice,
         timestamp,
-        source: typeof data.source === 'string' ? data.source : 'Yahoo Finance',
+        source: typeof data.source === 'string' ? data.source : DEFAULT_SOURCE,
       };
     } catch {
       console.warn(`[Pricing] ${symbol}: No internet connection`);
@@ -179,13 +191,13 @@ export class ApiPricingService implements PricingService {
       return null;
     }
 
-    const cached = this.getCachedPrice(raw);
-    if (cached != null) {
+    const cached = this.getCachedEntry(raw);
+    if (cached) {
       return {
         symbol: raw,
-        price: cached,
+        price: cached.price,
         timestamp: new Date(),
-        source: 'Yahoo Finance (cached)',
+        source: `${cached.source} (cached)`,
       };
     }
 
@@ -195,13 +207,55 @@ export class ApiPricingService implements PricingService {
       if (!result) {
         return null;
       }
-      this.setCachedPrice(raw, result.price);
+      this.setCachedPrice(raw, result.price, result.source);
       return result;
     } finally {
       this.stopLoading();
     }
   }
 
+  private async fetchUncachedPrices(symbols: string[], results: Map<string, number>): Promise<void> {
+    try {
+      const response = await fetch(
+        `${API_BASE}/api/prices?symbols=${encodeURIComponent(symbols.join(','))}`,
+        { headers: REQUEST_HEADERS }
+      );
+      if (!response.ok) {
+        console.warn(`[Pricing] batch API failed: ${getFriendlyErrorMessage(response.status)}`);
+        throw new Error(`Batch API error: ${response.status}`);
+      }
+
+      const payload = (await response.json()) as BatchPriceApiResponse;
+      const fetched: Record<string, number> = {};
+      Object.entries(payload.prices ?? {}).forEach(([symbol, price]) => {
+        if (typeof price === 'number' && Number.isFinite(price) && price > 0) {
+          const key = symbol.trim().toUpperCase();
+          results.set(key, price);
+          fetched[key] = price;
+        }
+      });
+      quoteCache.setMany(fetched, typeof payload.source === 'string' ? payload.source : DEFAULT_SOURCE);
+      recordReportedExchanges(payload.exchanges ?? {});
+
+      if (Array.isArray(payload.failed) && payload.failed.length > 0) {
+        console.warn(`[Pricing] failed symbols: ${payload.failed.join(', ')}`);
+      }
+    } catch {
+      // Fallback to individual requests.
+      for (let index = 0; index < symbols.length; index += 1) {
+        const symbol = symbols[index];
+        if (index > 0) {
+          await delay(MULTI_FETCH_DELAY_MS);
+        }
+        const single = await this.fetchSingleFromApi(symbol);
+        if (single) {
+          results.set(symbol, single.price);
+          this.setCachedPrice(symbol, single.price, single.source);
+        }
+      }
+    }
+  }
+
   async fetchPrices(symbols: string[]): Promise<Map<string, number>> {
     const results = new Map<string, number>();
     const normalized = Array.from(
@@ -232,43 +286,20 @@ export class ApiPricingService implements PricingService {
 
     this.startLoading();
     try {
-      try {
-        const response = await fetch(
-          `${API_BASE}/api/prices?symbols=${encodeURIComponent(uncachedSymbols.join(','))}`,
-          { headers: REQUEST_HEADERS }
-        );
-        if (!response.ok) {
-          console.warn(`[Pricing] batch API failed: ${getFriendlyErrorMessage(response.status)}`);
-          throw new Error(`Batch API error: ${response.status}`);
-        }
-
-        const payload = (await response.json()) as BatchPriceApiResponse;
-        const prices = payload.prices ?? {};
-        Object.entries(prices).forEach(([symbol, price]) => {
-          if (typeof price === 'number' && Number.isFinite(price) && price > 0) {
-            const key = symbol.trim().toUpperCase();
-            results.set(key, price);
-            this.setCachedPrice(key, price);
+      await runExclusive(MARK_REFRESH_LOCK, async () => {
+        // Another tab may have fetched some of these while this one waited for the lock.
+        const pending = uncachedSymbols.filter((symbol) => {
+          const cached = this.getCachedPrice(symbol);
+          if (cached != null) {
+            results.set(symbol, cached);
+            return false;
           }
+          return true;
         });
-
-        if (Array.isArray(payload.failed) && payload.failed.length > 0) {
-          console.warn(`[Pricing] failed symbols: ${payload.failed.join(', ')}`);
+        if (pending.length > 0) {
+          await this.fetchUncachedPrices(pending, results);
         }
-      } catch {
-        // Fallback to individual requests.
-        for (let index = 0; index < uncachedSymbols.length; index += 1) {
-          const symbol = uncachedSymbols[index];
-          if (index > 0) {
-            await delay(MULTI_FETCH_DELAY_MS);
-          }
-          const single = await this.fetchSingleFromApi(symbol);
-          if (single) {
-            results.set(symbol, single.price);
-            this.setCachedPrice(symbol, single.price);
-          }
-        }
-      }
+      });
     } finally {
       this.stopLoading();
     }
@@ -0,0 +1,120 @@
+import { QUOTE_CACHE_STORAGE_KEY } from '../config/storageKeys';
+import { isMarketOpenForSymbol } from './exchangeCalendar';
+
+export interface CachedQuote {
+  price: number;
+  source: string;
+  fetchedAt: number;
+}
+
+const OPEN_MARKET_TTL_MS = 5 * 60 * 1000;
+const CLOSED_MARKET_TTL_MS = 12 * 60 * 60 * 1000;
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function normalizeQuote(raw: unknown): CachedQuote | null {
+  if (!isObject(raw) || typeof raw.price !== 'number' || typeof raw.fetchedAt !== 'number') {
+    return null;
+  }
+  if (!Number.isFinite(raw.price) || raw.price <= 0) {
+    return null;
+  }
+  return {
+    price: raw.price,
+    source: typeof raw.source === 'string' ? raw.source : 'Yahoo Finance',
+    fetchedAt: raw.fetchedAt,
+  };
+}
+
+// Quotes taken while the symbol's exchange is open go stale quickly; ones taken after the close stay valid until it reopens.
+export function isQuoteFresh(symbol: string, quote: CachedQuote, now = Date.now()): boolean {
+  const age = now - quote.fetchedAt;
+  if (isMarketOpenForSymbol(symbol, new Date(now)) || isMarketOpenForSymbol(symbol, new Date(quote.fetchedAt))) {
+    return age <= OPEN_MARKET_TTL_MS;
+  }
+  return age <= CLOSED_MARKET_TTL_MS;
+}
+
+// Last known quote per symbol, persisted so reloads and other open tabs reuse it instead of refetching.
+// Reads go straight to storage, so a quote written by one tab is visible to the others immediately.
+export class LocalQuoteCache {
+  private read(): Record<string, CachedQuote> {
+    try {
+      const raw = localStorage.getItem(QUOTE_CACHE_STORAGE_KEY);
+      const parsed: unknown = raw ? JSON.parse(raw) : null;
+      if (!isObject(parsed)) {
+        return {};
+      }
+      const quotes: Record<string, CachedQuote> = {};
+      Object.entries(parsed).forEach(([symbol, value]) => {
+        const quote = normalizeQuote(value);
+        if (quote) {
+          quotes[symbol] = quote;
+        }
+      });
+      return quotes;
+    } catch {
+      return {};
+    }
+  }
+
+  private write(quotes: Record<string, CachedQuote>): void {
+    try {
+      localStorage.setItem(QUOTE_CACHE_STORAGE_KEY, JSON.stringify(quotes));
+    } catch {
+      // Ignore localStorage write errors; quotes are refetched next time.
+    }
+  }
+
+  get(symbol: string): CachedQuote | null {
+    return this.read()[symbol.trim().toUpperCase()] ?? null;
+  }
+
+  getFresh(symbol: string, now = Date.now()): CachedQuote | null {
+    const quote = this.get(symbol);
+    return quote && isQuoteFresh(symbol, quote, now) ? quote : null;
+  }
+
+  list(): Record<string, CachedQuote> {
+    return this.read();
+  }
+
+  setMany(pricesBySymbol: Record<string, number>, source: string): void {
+    const entries = Object.entries(pricesBySymbol);
+    if (entries.length === 0) {
+      return;
+    }
+    const now = Date.now();
+    const quotes = Object.fromEntries(
+      Object.entries(this.read()).filter(([, quote]) => now - quote.fetchedAt <= RETENTION_MS)
+    );
+    entries.forEach(([symbol, price]) => {
+      quotes[symbol.trim().toUpperCase()] = { price, source, fetchedAt: now };
+    });
+    this.write(quotes);
+  }
+
+  clear(): void {
+    try {
+      localStorage.removeItem(QUOTE_CACHE_STORAGE_KEY);
+    } catch {
+      // Ignore localStorage errors.
+    }
+  }
+
+  // Fires when another tab writes quotes; this tab's own writes do not raise storage events.
+  subscribe(listener: () => void): () => void {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === QUOTE_CACHE_STORAGE_KEY || event.key === null) {
+        listener();
+      }
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }
+}
+
+export const quoteCache = new LocalQuoteCache();
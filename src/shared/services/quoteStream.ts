@@ -0,0 +1,54 @@
+import { quoteCache } from './quoteCache';
+import { recordReportedExchanges } from './symbolExchanges';
+
+interface QuotesEventPayload {
+  prices?: Record<string, unknown>;
+  exchanges?: Record<string, unknown>;
+  failed?: string[];
+  timestamp?: string;
+  source?: string;
+}
+
+const API_BASE = typeof window !== 'undefined'
+  ? (window.location.hostname === 'localhost' ? 'http://localhost:3000' : '')
+  : 'http://localhost:3000';
+
+// Opens a server-sent-events stream of quote updates for `symbols`. Streamed quotes also land in the shared
+// quote cache, so other tabs and the mark age badges see them. Returns a function that closes the stream.
+export function subscribeToQuotes(symbols: string[], onQuotes: (pricesBySymbol: Record<string, number>) => void): () => void {
+  if (typeof EventSource === 'undefined' || symbols.length === 0) {
+    return () => {};
+  }
+
+  const params = new URLSearchParams({ symbols: symbols.join(',') });
+  const source = new EventSource(`${API_BASE}/api/stream?${params.toString()}`);
+
+  source.addEventListener('quotes', (event) => {
+    try {
+      const payload = JSON.parse((event as MessageEvent<string>).data) as QuotesEventPayload;
+      const pricesBySymbol: Record<string, number> = {};
+      Object.entries(payload.prices ?? {}).forEach(([symbol, price]) => {
+        if (typeof price === 'number' && Number.isFinite(price) && price > 0) {
+          pricesBySymbol[symbol.trim().toUpperCase()] = price;
+        }
+      });
+      if (Object.keys(pricesBySymbol).length === 0) {
+        return;
+      }
+      recordReportedExchanges(payload.exchanges ?? {});
+      quoteCache.setMany(pricesBySymbol, typeof payload.source === 'string' ? payload.source : 'Yahoo Finance');
+      onQuotes(pricesBySymbol);
+    } catch {
+      console.warn('[Stream] Ignoring malformed quotes event');
+    }
+  });
+
+  source.addEventListener('error', () => {
+    // EventSource retries on its own unless the server refused the stream outright.
+    if (source.readyState === EventSource.CLOSED) {
+      console.warn('[Stream] Quote stream closed');
+    }
+  });
+
+  return () => source.close();
+}
@@ -0,0 +1,77 @@
+import { SYMBOL_EXCHANGES_STORAGE_KEY } from '../config/storageKeys';
+import type { ExchangeCode } from './exchangeCalendar';
+
+// Yahoo's exchange codes, plus the plain names the fixture provider reports.
+const PROVIDER_EXCHANGES: Record<string, ExchangeCode> = {
+  NSI: 'NSE',
+  NSE: 'NSE',
+  BSE: 'BSE',
+  BOM: 'BSE',
+  NYQ: 'NYSE',
+  NYSE: 'NYSE',
+  ASE: 'NYSE',
+  PCX: 'NYSE',
+  NMS: 'NASDAQ',
+  NGM: 'NASDAQ',
+  NCM: 'NASDAQ',
+  NASDAQ: 'NASDAQ',
+  LSE: 'LSE',
+  JPX: 'TSE',
+  TYO: 'TSE',
+  TSE: 'TSE',
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+export function exchangeFromProvider(name: unknown): ExchangeCode | null {
+  return typeof name === 'string' ? PROVIDER_EXCHANGES[name.trim().toUpperCase()] ?? null : null;
+}
+
+function read(): Record<string, ExchangeCode> {
+  try {
+    const raw = localStorage.getItem(SYMBOL_EXCHANGES_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    if (!isObject(parsed)) {
+      return {};
+    }
+    const exchanges: Record<string, ExchangeCode> = {};
+    Object.entries(parsed).forEach(([symbol, value]) => {
+      const exchange = exchangeFromProvider(value);
+      if (exchange) {
+        exchanges[symbol] = exchange;
+      }
+    });
+    return exchanges;
+  } catch {
+    return {};
+  }
+}
+
+// The exchange the price provider last reported for a bare symbol, or null when no quote has said yet.
+export function reportedExchange(symbol: string): ExchangeCode | null {
+  return read()[symbol.trim().toUpperCase()] ?? null;
+}
+
+// Remembers where each quoted symbol lists, from the provider's own exchange codes. Unrecognised codes are skipped.
+export function recordReportedExchanges(exchangesBySymbol: Record<string, unknown>): void {
+  const exchanges = read();
+  let changed = false;
+  Object.entries(exchangesBySymbol).forEach(([symbol, name]) => {
+    const key = symbol.trim().toUpperCase();
+    const exchange = exchangeFromProvider(name);
+    if (exchange && exchanges[key] !== exchange) {
+      exchanges[key] = exchange;
+      changed = true;
+    }
+  });
+  if (!changed) {
+    return;
+  }
+  try {
+    localStorage.setItem(SYMBOL_EXCHANGES_STORAGE_KEY, JSON.stringify(exchanges));
+  } catch {
+    // Ignore localStorage write errors; the exchange is reported again with the next quote.
+  }
+}
@@ -0,0 +1,21 @@
+export const TOMBSTONE_RETENTION_DAYS = 30;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export function isDeleted(record: { deletedAt?: string }): boolean {
+  return Boolean(record.deletedAt);
+}
+
+// Deletions count as edits, so a record's version is whichever of the two happened last.
+export function recordVersion(record: { updatedAt: string; deletedAt?: string }): string {
+  return record.deletedAt && record.deletedAt > record.updatedAt ? record.deletedAt : record.updatedAt;
+}
+
+export function tombstoneCutoffIso(now = new Date()): string {
+  return new Date(now.getTime() - TOMBSTONE_RETENTION_DAYS * MS_PER_DAY).toISOString();
+}
+
+export function daysUntilPurge(deletedAt: string, now = new Date()): number {
+  const purgeAt = new Date(deletedAt).getTime() + TOMBSTONE_RETENTION_DAYS * MS_PER_DAY;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / MS_PER_DAY));
+}
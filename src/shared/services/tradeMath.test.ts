@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { Trade } from '../types/trade';
+import { calculatePositionLedger } from './tradeMath';
+
+const dayTrade: Trade = {
+  id: 'trade_1',
+  date: '2026-09-01',
+  entryTime: '09:30',
+  symbol: 'INFY',
+  direction: 'long',
+  entryPrice: 100,
+  quantity: 15,
+  status: 'open',
+  entryLegs: [
+    { id: 'leg_1', date: '2026-09-01', quantity: 10, entryPrice: 100 },
+    { id: 'leg_2', date: '2026-09-01', time: '11:00', quantity: 5, entryPrice: 130 },
+  ],
+  exitLegs: [{ id: 'leg_3', date: '2026-09-01', time: '10:00', quantity: 10, exitPrice: 110 }],
+  realizedPnl: 0,
+  unrealizedPnl: 0,
+  totalPnl: 0,
+  realizedPnlPercent: 0,
+  totalPnlPercent: 0,
+  createdAt: '2026-09-01T04:00:00.000Z',
+  updatedAt: '2026-09-01T05:30:00.000Z',
+};
+
+describe('calculatePositionLedger', () => {
+  it('orders same-day legs by time when they have one', () => {
+    const ledger = calculatePositionLedger(dayTrade);
+    expect(ledger.exitLegPnl.leg_3).toBe(100);
+    expect(ledger.averageCost).toBe(130);
+    expect(ledger.openQuantity).toBe(5);
+  });
+
+  it('applies same-day entries before exits when times are missing', () => {
+    const ledger = calculatePositionLedger({
+      ...dayTrade,
+      entryTime: undefined,
+      entryLegs: dayTrade.entryLegs.map((leg) => ({ ...leg, time: undefined })),
+    });
+    expect(ledger.exitLegPnl.leg_3).toBe(0);
+    expect(ledger.averageCost).toBe(110);
+  });
+});
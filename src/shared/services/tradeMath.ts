@@ -1,21 +1,64 @@
-import type { ExitLeg, Trade, TradeMetrics } from '../types/trade';
+import type { EntryLeg, ExitLeg, Instrument, Trade, TradeMetrics } from '../types/trade';
 
 const EPSILON = 0.000001;
 
+export interface PositionLedger {
+  realizedPnl: number;
+  averageCost: number;
+  openQuantity: number;
+  exitLegPnl: Record<string, number>;
+}
+
+type LedgerEvent =
+  | { kind: 'entry'; date: string; time?: string; leg: EntryLeg }
+  | { kind: 'exit'; date: string; time?: string; leg: ExitLeg };
+
 export function roundTo2(value: number): number {
   return Math.round((value + Number.EPSILON) * 100) / 100;
 }
 
+export function isDerivative(instrument: Instrument | undefined): boolean {
+  return instrument != null && instrument.type !== 'equity';
+}
+
+export function getContractMultiplier(instrument: Instrument | undefined): number {
+  if (!instrument || instrument.type === 'equity') {
+    return 1;
+  }
+  const lotSize = instrument.lotSize != null && instrument.lotSize > 0 ? instrument.lotSize : 1;
+  const multiplier = instrument.multiplier != null && instrument.multiplier > 0 ? instrument.multiplier : 1;
+  return lotSize * multiplier;
+}
+
+export function calculateIntrinsicValue(instrument: Instrument, underlyingPrice: number): number {
+  const strike = instrument.strike ?? 0;
+  if (instrument.type === 'call_option') {
+    return roundTo2(Math.max(0, underlyingPrice - strike));
+  }
+  if (instrument.type === 'put_option') {
+    return roundTo2(Math.max(0, strike - underlyingPrice));
+  }
+  return underlyingPrice;
+}
+
+export function isOptionExpired(instrument: Instrument | undefined, todayIso: string): boolean {
+  if (!instrument || (instrument.type !== 'call_option' && instrument.type !== 'put_option') || !instrument.expiry) {
+    return false;
+  }
+  return instrument.expiry < todayIso;
+}
+
 export function calculateLegPnl(
   direction: Trade['direction'],
   entryPrice: number,
   exitPrice: number,
   quantity: number,
-  fees = 0
+  fees = 0,
+  multiplier = 1
 ): number {
   const gross = direction === 'long'
-    ? (exitPrice - entryPrice) * quantity
-    : (entryPrice - exitPrice) * quantity;
+    ? (exitPrice - entryPrice) * quantity * multiplier
+    : (entryPrice - exitPrice) * quantity * multiplier;
   return roundTo2(gross - fees);
 }
 
@@ -27,31 +70,181 @@ export function getRemainingQuantity(trade: Trade): number {
   return Math.max(0, roundTo2(trade.quantity - getExitedQuantity(trade.exitLegs)));
 }
 
+export function getEntryQuantity(entryLegs: EntryLeg[]): number {
+  return entryLegs.reduce((sum, leg) => sum + leg.quantity, 0);
+}
+
+export function getWeightedAverageEntry(entryLegs: EntryLeg[]): number {
+  const quantity = getEntryQuantity(entryLegs);
+  if (quantity <= EPSILON) {
+    return 0;
+  }
+  if (entryLegs.length === 1) {
+    return entryLegs[0].entryPrice;
+  }
+  return entryLegs.reduce((sum, leg) => sum + leg.entryPrice * leg.quantity, 0) / quantity;
+}
+
+export function getEntryLegs(trade: Pick<Trade, 'id' | 'date' | 'entryPrice' | 'quantity' | 'entryLegs'>): EntryLeg[] {
+  if (Array.isArray(trade.entryLegs) && trade.entryLegs.length > 0) {
+    return trade.entryLegs;
+  }
+  return [
+    {
+      id: `${trade.id}_entry`,
+      date: trade.date,
+      quantity: trade.quantity,
+      entryPrice: trade.entryPrice,
+    },
+  ];
+}
+
+function effectiveEntryPrice(direction: Trade['direction'], leg: EntryLeg, multiplier: number): number {
+  if (!leg.fees || leg.quantity <= EPSILON) {
+    return leg.entryPrice;
+  }
+  const feePerUnit = leg.fees / (leg.quantity * multiplier);
+  return direction === 'long' ? leg.entryPrice + feePerUnit : leg.entryPrice - feePerUnit;
+}
+
+export function calculatePositionLedger(trade: Trade): PositionLedger {
+  const entryLegs = getEntryLegs(trade);
+  const multiplier = getContractMultiplier(trade.instrument);
+  const totalEntryQty = getEntryQuantity(entryLegs);
+  const fallbackCost = totalEntryQty > EPSILON
+    ? entryLegs.reduce((sum, leg) => sum + effectiveEntryPrice(trade.direction, leg, multiplier) * leg.quantity, 0) / totalEntryQty
+    : trade.entryPrice;
+
+  // Same-day legs go in time order when both have a time; otherwise entries are applied before exits.
+  // The opening leg takes the trade's entry time when it has none of its own.
+  const events: LedgerEvent[] = [
+    ...entryLegs.map((leg, index): LedgerEvent => ({
+      kind: 'entry',
+      date: leg.date,
+      time: leg.time ?? (index === 0 ? trade.entryTime : undefined),
+      leg,
+    })),
+    ...trade.exitLegs.map((leg): LedgerEvent => ({ kind: 'exit', date: leg.date, time: leg.time, leg })),
+  ].sort((a, b) => {
+    const byDate = a.date.localeCompare(b.date);
+    if (byDate !== 0) {
+      return byDate;
+    }
+    if (a.time && b.time && a.time !== b.time) {
+      return a.time.localeCompare(b.time);
+    }
+    if (a.kind === b.kind) {
+      return 0;
+    }
+    return a.kind === 'entry' ? -1 : 1;
+  });
+
+  let openQuantity = 0;
+  let averageCost = 0;
+  let realizedPnl = 0;
+  const exitLegPnl: Record<string, number> = {};
+
+  events.forEach((event) => {
+    if (event.kind === 'entry') {
+      const price = effectiveEntryPrice(trade.direction, event.leg, multiplier);
+      const nextQuantity = openQuantity + event.leg.quantity;
+      averageCost = openQuantity <= EPSILON
+        ? price
+        : (averageCost * openQuantity + price * event.leg.quantity) / nextQuantity;
+      openQuantity = nextQuantity;
+      return;
+    }
+
+    const basis = openQuantity > EPSILON ? averageCost : fallbackCost;
+    const pnl = calculateLegPnl(
+      trade.direction,
+      basis,
+      event.leg.exitPrice,
+      event.leg.quantity,
+      event.leg.fees ?? 0,
+      multiplier
+    );
+    exitLegPnl[event.leg.id] = pnl;
+    realizedPnl += pnl;
+    openQuantity = Math.max(0, openQuantity - event.leg.quantity);
+  });
+
+  return {
+    realizedPnl: roundTo2(realizedPnl),
+    averageCost: averageCost > 0 ? averageCost : fallbackCost,
+    openQuantity: roundTo2(openQuantity),
+    exitLegPnl,
+  };
+}
+
+export function getAverageCost(trade: Trade): number {
+  return calculatePositionLedger(trade).averageCost;
+}
+
+export function calculateRiskAmount(
+  trade: Pick<Trade, 'entryPrice' | 'quantity' | 'stopLoss' | 'initialRisk' | 'instrument'>
+): number | undefined {
+  if (trade.initialRisk != null && Number.isFinite(trade.initialRisk) && trade.initialRisk > 0) {
+    return roundTo2(trade.initialRisk);
+  }
+  if (trade.stopLoss == null || !Number.isFinite(trade.stopLoss) || trade.stopLoss <= 0) {
+    return undefined;
+  }
+  const risk = roundTo2(Math.abs(trade.entryPrice - trade.stopLoss) * trade.quantity * getContractMultiplier(trade.instrument));
+  return risk > 0 ? risk : undefined;
+}
+
+export function calculateRMultiple(pnl: number, riskAmount: number | undefined): number | undefined {
+  if (riskAmount == null || riskAmount <= 0) {
+    return undefined;
+  }
+  return roundTo2(pnl / riskAmount);
+}
+
+function calculatePlannedR(trade: Trade, riskAmount: number | undefined): number | undefined {
+  if (trade.targetPrice == null || !Number.isFinite(trade.targetPrice) || trade.targetPrice <= 0) {
+    return undefined;
+  }
+  const reward = Math.abs(trade.targetPrice - trade.entryPrice) * trade.quantity * getContractMultiplier(trade.instrument);
+  return calculateRMultiple(reward, riskAmount);
+}
+
 export function calculateTradeMetrics(trade: Trade): TradeMetrics {
-  const realizedPnl = roundTo2(
-    trade.exitLegs.reduce(
-      (sum, leg) => sum + calculateLegPnl(trade.direction, trade.entryPrice, leg.exitPrice, leg.quantity, leg.fees ?? 0),
-      0
-    )
-  );
+  const ledger = calculatePositionLedger(trade);
+  const realizedPnl = ledger.realizedPnl;
 
   const remainingQty = getRemainingQuantity(trade);
   const unrealizedPnl = trade.markPrice == null
     ? 0
-    : roundTo2(calculateLegPnl(trade.direction, trade.entryPrice, trade.markPrice, remainingQty));
+    : roundTo2(
+        calculateLegPnl(
+          trade.direction,
+          ledger.averageCost,
+          trade.markPrice,
+          remainingQty,
+          0,
+          getContractMultiplier(trade.instrument)
+        )
+      );
 
   const totalPnl = roundTo2(realizedPnl + unrealizedPnl);
-  const positionCost = trade.entryPrice * trade.quantity;
+  const positionCost = trade.entryPrice * trade.quantity * getContractMultiplier(trade.instrument);
   const realizedPnlPercent = positionCost > 0 ? roundTo2((realizedPnl / positionCost) * 100) : 0;
   const totalPnlPercent = positionCost > 0 ? roundTo2((totalPnl / positionCost) * 100) : 0;
+  const riskAmount = calculateRiskAmount(trade);
 
   return {
     remainingQty,
+    averageCost: ledger.averageCost,
     realizedPnl,
     unrealizedPnl,
     totalPnl,
     realizedPnlPercent,
     totalPnlPercent,
+    riskAmount,
+    plannedR: calculatePlannedR(trade, riskAmount),
+    realizedR: calculateRMultiple(realizedPnl, riskAmount),
+    totalR: calculateRMultiple(totalPnl, riskAmount),
   };
 }
 
@@ -59,7 +252,14 @@ export function deriveTradeStatus(trade: Trade): Trade['status'] {
   return getRemainingQuantity(trade) <= EPSILON ? 'closed' : 'open';
 }
 
-export function withComputedMetrics(trade: Trade): Trade {
+export function withComputedMetrics(source: Trade): Trade {
+  const entryLegs = getEntryLegs(source);
+  const trade: Trade = {
+    ...source,
+    entryLegs,
+    entryPrice: getWeightedAverageEntry(entryLegs),
+    quantity: getEntryQuantity(entryLegs),
+  };
   const metrics = calculateTradeMetrics(trade);
   return {
     ...trade,
@@ -69,5 +269,8 @@ export function withComputedMetrics(trade: Trade): Trade {
     totalPnl: metrics.totalPnl,
     realizedPnlPercent: metrics.realizedPnlPercent,
     totalPnlPercent: metrics.totalPnlPercent,
+    plannedR: metrics.plannedR,
+    realizedR: metrics.realizedR,
+    totalR: metrics.totalR,
   };
 }
@@ -0,0 +1,29 @@
+export type PriceAlertKind = 'price_above' | 'price_below' | 'percent_move' | 'stop_hit' | 'target_hit';
+
+export interface PriceAlert {
+  id: string;
+  kind: PriceAlertKind;
+  symbol: string;
+  tradeId?: string;
+  // Price level for above/below alerts and percent for move alerts; stop and target alerts read the trade.
+  threshold?: number;
+  // Price a percent move is measured from, or the last price seen on the near side of an above/below level.
+  referencePrice?: number;
+  createdAt: string;
+  triggeredAt?: string;
+  triggeredPrice?: number;
+}
+
+export interface CreatePriceAlertInput {
+  kind: PriceAlertKind;
+  symbol: string;
+  tradeId?: string;
+  threshold?: number;
+  referencePrice?: number;
+}
+
+export interface PriceAlertTrigger {
+  alert: PriceAlert;
+  price: number;
+  message: string;
+}
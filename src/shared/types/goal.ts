@@ -8,6 +8,7 @@ export interface Goal {
   target: number;
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string;
 }
 
 export interface GoalProgress {
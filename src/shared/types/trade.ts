@@ -1,9 +1,29 @@
 export type TradeDirection = 'long' | 'short';
 export type TradeStatus = 'open' | 'closed';
+export type InstrumentType = 'equity' | 'future' | 'call_option' | 'put_option';
+
+export interface Instrument {
+  type: InstrumentType;
+  expiry?: string;
+  strike?: number;
+  lotSize?: number;
+  multiplier?: number;
+}
+
+export interface EntryLeg {
+  id: string;
+  date: string;
+  time?: string;
+  quantity: number;
+  entryPrice: number;
+  fees?: number;
+  note?: string;
+}
 
 export interface ExitLeg {
   id: string;
   date: string;
+  time?: string;
   quantity: number;
   exitPrice: number;
   fees?: number;
@@ -13,14 +33,20 @@ export interface ExitLeg {
 export interface Trade {
   id: string;
   date: string;
+  entryTime?: string;
   symbol: string;
   direction: TradeDirection;
+  instrument?: Instrument;
   entryPrice: number;
   quantity: number;
   status: TradeStatus;
+  entryLegs: EntryLeg[];
   exitLegs: ExitLeg[];
   markPrice?: number;
   markPriceUpdatedAt?: string;
+  stopLoss?: number;
+  targetPrice?: number;
+  initialRisk?: number;
   setup?: string;
   emotion?: string;
   notes?: string;
@@ -29,26 +55,49 @@ export interface Trade {
   totalPnl: number;
   realizedPnlPercent: number;
   totalPnlPercent: number;
+  plannedR?: number;
+  realizedR?: number;
+  totalR?: number;
+  mae?: number;
+  mfe?: number;
+  importKey?: string;
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string;
   userId?: string;
 }
 
 export interface TradeMetrics {
   remainingQty: number;
+  averageCost: number;
   realizedPnl: number;
   unrealizedPnl: number;
   totalPnl: number;
   realizedPnlPercent: number;
   totalPnlPercent: number;
+  riskAmount?: number;
+  plannedR?: number;
+  realizedR?: number;
+  totalR?: number;
+}
+
+// Maximum adverse (<= 0) and favorable (>= 0) excursion in P&L terms while the position was open.
+export interface TradeExcursion {
+  mae: number;
+  mfe: number;
 }
 
 export interface CreateOpenTradeInput {
   date: string;
+  entryTime?: string;
   symbol: string;
   direction: TradeDirection;
+  instrument?: Instrument;
   entryPrice: number;
   quantity: number;
+  stopLoss?: number;
+  targetPrice?: number;
+  initialRisk?: number;
   setup?: string;
   emotion?: string;
   notes?: string;
@@ -58,10 +107,15 @@ export interface CreateOpenTradeInput {
 
 export interface UpdateTradeInput {
   date?: string;
+  entryTime?: string;
   symbol?: string;
   direction?: TradeDirection;
+  instrument?: Instrument;
   entryPrice?: number;
   quantity?: number;
+  stopLoss?: number;
+  targetPrice?: number;
+  initialRisk?: number;
   setup?: string;
   emotion?: string;
   notes?: string;
@@ -70,8 +124,36 @@ export interface UpdateTradeInput {
 
 export interface AddExitLegInput {
   date: string;
+  time?: string;
   quantity: number;
   exitPrice: number;
   fees?: number;
   note?: string;
 }
+
+export interface AddEntryLegInput {
+  date: string;
+  time?: string;
+  quantity: number;
+  entryPrice: number;
+  fees?: number;
+  note?: string;
+}
+
+export interface ImportTradeInput {
+  date: string;
+  entryTime?: string;
+  symbol: string;
+  direction: TradeDirection;
+  instrument?: Instrument;
+  entryLegs: Omit<EntryLeg, 'id'>[];
+  exitLegs: Omit<ExitLeg, 'id'>[];
+  markPrice?: number;
+  stopLoss?: number;
+  targetPrice?: number;
+  initialRisk?: number;
+  importKey?: string;
+  setup?: string;
+  emotion?: string;
+  notes?: string;
+}
@@ -0,0 +1,224 @@
+create table if not exists public.trades (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  id text not null,
+  trade_date date not null,
+  symbol text not null,
+  direction text not null check (direction in ('long', 'short')),
+  instrument_type text not null default 'equity' check (instrument_type in ('equity', 'future', 'call_option', 'put_option')),
+  expiry date,
+  strike numeric,
+  lot_size numeric,
+  multiplier numeric,
+  mark_price numeric,
+  mark_price_updated_at timestamptz,
+  stop_loss numeric,
+  target_price numeric,
+  initial_risk numeric,
+  setup text,
+  emotion text,
+  notes text,
+  import_key text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, id)
+);
+
+create index if not exists trades_user_date_idx on public.trades (user_id, trade_date desc);
+
+create table if not exists public.trade_entry_legs (
+  user_id uuid not null,
+  id text not null,
+  trade_id text not null,
+  leg_date date not null,
+  quantity numeric not null check (quantity > 0),
+  entry_price numeric not null check (entry_price > 0),
+  fees numeric,
+  note text,
+  primary key (user_id, id),
+  foreign key (user_id, trade_id) references public.trades (user_id, id) on delete cascade
+);
+
+create index if not exists trade_entry_legs_trade_idx on public.trade_entry_legs (user_id, trade_id);
+
+create table if not exists public.trade_exit_legs (
+  user_id uuid not null,
+  id text not null,
+  trade_id text not null,
+  leg_date date not null,
+  quantity numeric not null check (quantity > 0),
+  exit_price numeric not null check (exit_price >= 0),
+  fees numeric,
+  note text,
+  primary key (user_id, id),
+  foreign key (user_id, trade_id) references public.trades (user_id, id) on delete cascade
+);
+
+create index if not exists trade_exit_legs_trade_idx on public.trade_exit_legs (user_id, trade_id);
+
+create table if not exists public.goals (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  id text not null,
+  type text not null check (type in ('monthly_pnl', 'monthly_win_rate', 'monthly_trade_count')),
+  period text not null,
+  target numeric not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, id)
+);
+
+-- Marks the legacy JSONB row once its trades and goals have been copied into the tables above.
+alter table if exists public.user_trading_data add column if not exists migrated_at timestamptz;
+
+-- Soft-delete tombstones; the client purges them 30 days after deletion.
+alter table public.trades add column if not exists deleted_at timestamptz;
+alter table public.goals add column if not exists deleted_at timestamptz;
+
+-- Optional time of day (exchange-local) for entries and exits; date-only trades leave these null.
+alter table public.trades add column if not exists entry_time time;
+alter table public.trade_exit_legs add column if not exists leg_time time;
+alter table public.trade_entry_legs add column if not exists leg_time time;
+
+-- Maximum adverse/favorable excursion of closed trades, measured from historical prices.
+alter table public.trades add column if not exists mae numeric;
+alter table public.trades add column if not exists mfe numeric;
+
+-- Options that expire out of the money settle at 0; tables created before that keep the older `> 0` check.
+alter table public.trade_exit_legs drop constraint if exists trade_exit_legs_exit_price_check;
+alter table public.trade_exit_legs add constraint trade_exit_legs_exit_price_check check (exit_price >= 0);
+
+-- Streams row changes to other signed-in devices through Supabase Realtime.
+do $$
+declare
+  synced_table text;
+begin
+  foreach synced_table in array array['trades', 'trade_entry_legs', 'trade_exit_legs', 'goals'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = synced_table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', synced_table);
+    end if;
+  end loop;
+end
+$$;
+
+alter table public.trades enable row level security;
+alter table public.trade_entry_legs enable row level security;
+alter table public.trade_exit_legs enable row level security;
+alter table public.goals enable row level security;
+
+drop policy if exists "Users can read their own trades" on public.trades;
+create policy "Users can read their own trades"
+on public.trades
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert their own trades" on public.trades;
+create policy "Users can insert their own trades"
+on public.trades
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own trades" on public.trades;
+create policy "Users can update their own trades"
+on public.trades
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own trades" on public.trades;
+create policy "Users can delete their own trades"
+on public.trades
+for delete
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists "Users can read their own entry legs" on public.trade_entry_legs;
+create policy "Users can read their own entry legs"
+on public.trade_entry_legs
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert their own entry legs" on public.trade_entry_legs;
+create policy "Users can insert their own entry legs"
+on public.trade_entry_legs
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own entry legs" on public.trade_entry_legs;
+create policy "Users can update their own entry legs"
+on public.trade_entry_legs
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own entry legs" on public.trade_entry_legs;
+create policy "Users can delete their own entry legs"
+on public.trade_entry_legs
+for delete
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists "Users can read their own exit legs" on public.trade_exit_legs;
+create policy "Users can read their own exit legs"
+on public.trade_exit_legs
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert their own exit legs" on public.trade_exit_legs;
+create policy "Users can insert their own exit legs"
+on public.trade_exit_legs
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own exit legs" on public.trade_exit_legs;
+create policy "Users can update their own exit legs"
+on public.trade_exit_legs
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own exit legs" on public.trade_exit_legs;
+create policy "Users can delete their own exit legs"
+on public.trade_exit_legs
+for delete
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists "Users can read their own goals" on public.goals;
+create policy "Users can read their own goals"
+on public.goals
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert their own goals" on public.goals;
+create policy "Users can insert their own goals"
+on public.goals
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own goals" on public.goals;
+create policy "Users can update their own goals"
+on public.goals
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own goals" on public.goals;
+create policy "Users can delete their own goals"
+on public.goals
+for delete
+to authenticated
+using (auth.uid() = user_id);